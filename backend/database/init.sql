@@ -20,13 +20,24 @@ CREATE TABLE IF NOT EXISTS users (
     email VARCHAR(255) UNIQUE NOT NULL,
     username VARCHAR(30) UNIQUE NOT NULL,
     password TEXT NOT NULL,
-    balance DECIMAL(15,2) DEFAULT 1000.00 NOT NULL,
     is_active BOOLEAN DEFAULT true NOT NULL,
     is_verified BOOLEAN DEFAULT false NOT NULL,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
 );
 
+-- Create wallets table (one balance per user and currency)
+CREATE TABLE IF NOT EXISTS wallets (
+    id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    currency VARCHAR(10) NOT NULL,
+    balance DECIMAL(20,8) DEFAULT 0 NOT NULL,
+    held_balance DECIMAL(20,8) DEFAULT 0 NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+    UNIQUE(user_id, currency)
+);
+
 -- Create sessions table
 CREATE TABLE IF NOT EXISTS sessions (
     id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
@@ -92,6 +103,8 @@ CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
 CREATE INDEX IF NOT EXISTS idx_users_username ON users(username);
 CREATE INDEX IF NOT EXISTS idx_users_created_at ON users(created_at);
 
+CREATE INDEX IF NOT EXISTS idx_wallets_user_id ON wallets(user_id);
+
 CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
 CREATE INDEX IF NOT EXISTS idx_sessions_token ON sessions(token);
 CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at);
@@ -120,6 +133,9 @@ $$ language 'plpgsql';
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_wallets_updated_at BEFORE UPDATE ON wallets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_game_settings_updated_at BEFORE UPDATE ON game_settings
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
@@ -0,0 +1,116 @@
+-- Moves each user's play-money balance from users.balance into a CREDITS wallet.
+--
+-- `prisma db push` cannot do this itself: it would drop users.balance with every balance in it.
+-- Run this once, before pushing the schema that introduced wallets:
+--
+--   npm run db:migrate-wallets && npx prisma db push
+--
+-- It does nothing on a database without a users.balance column, so it is safe to run on every deploy.
+
+DO $$
+DECLARE
+  wallet RECORD;
+  house_id TEXT;
+  account_id TEXT;
+  journal_id TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'users' AND column_name = 'balance'
+  ) THEN
+    RETURN;
+  END IF;
+
+  -- Wallets, as prisma db push creates them
+  CREATE TABLE IF NOT EXISTS "wallets" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "balance" DECIMAL(20,8) NOT NULL DEFAULT 0,
+    "heldBalance" DECIMAL(20,8) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "wallets_pkey" PRIMARY KEY ("id")
+  );
+
+  CREATE UNIQUE INDEX IF NOT EXISTS "wallets_userId_currency_key" ON "wallets"("userId", "currency");
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'wallets_userId_fkey') THEN
+    ALTER TABLE "wallets" ADD CONSTRAINT "wallets_userId_fkey"
+      FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+
+  INSERT INTO "wallets" ("id", "userId", "currency", "balance", "updatedAt")
+  SELECT gen_random_uuid()::TEXT, "id", 'CREDITS', "balance", CURRENT_TIMESTAMP FROM "users"
+  ON CONFLICT ("userId", "currency") DO NOTHING;
+
+  -- The ledger, when the database already has it, moves from one account per user to one per wallet
+  IF to_regclass('ledger_accounts') IS NOT NULL THEN
+    ALTER TABLE "ledger_accounts" ADD COLUMN IF NOT EXISTS "currency" TEXT;
+    ALTER TABLE "ledger_accounts" ADD COLUMN IF NOT EXISTS "walletId" TEXT;
+
+    UPDATE "ledger_accounts" SET "currency" = 'CREDITS' WHERE "currency" IS NULL;
+    UPDATE "ledger_accounts" SET "key" = "key" || ':CREDITS'
+    WHERE "type" <> 'USER_WALLET' AND "key" NOT LIKE '%:%';
+
+    UPDATE "ledger_accounts" a SET "walletId" = w."id", "key" = 'wallet:' || w."id"
+    FROM "wallets" w
+    WHERE w."userId" = a."userId" AND w."currency" = 'CREDITS';
+
+    ALTER TABLE "ledger_accounts" ALTER COLUMN "currency" SET NOT NULL;
+    ALTER TABLE "ledger_accounts" DROP COLUMN "userId";
+
+    CREATE UNIQUE INDEX IF NOT EXISTS "ledger_accounts_walletId_key" ON "ledger_accounts"("walletId");
+
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'ledger_accounts_walletId_fkey') THEN
+      ALTER TABLE "ledger_accounts" ADD CONSTRAINT "ledger_accounts_walletId_fkey"
+        FOREIGN KEY ("walletId") REFERENCES "wallets"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+    END IF;
+
+    -- Wallets that had no ledger account yet open with their balance, booked against the house bankroll
+    INSERT INTO "ledger_accounts" ("id", "key", "type", "currency")
+    VALUES (gen_random_uuid()::TEXT, 'house_bankroll:CREDITS', 'HOUSE_BANKROLL', 'CREDITS')
+    ON CONFLICT ("key") DO NOTHING;
+
+    SELECT "id" INTO house_id FROM "ledger_accounts" WHERE "key" = 'house_bankroll:CREDITS';
+
+    FOR wallet IN
+      SELECT w."id", w."balance" FROM "wallets" w
+      LEFT JOIN "ledger_accounts" a ON a."walletId" = w."id"
+      WHERE a."id" IS NULL AND w."balance" <> 0
+    LOOP
+      account_id := gen_random_uuid()::TEXT;
+      journal_id := gen_random_uuid()::TEXT;
+
+      INSERT INTO "ledger_accounts" ("id", "key", "type", "currency", "walletId")
+      VALUES (account_id, 'wallet:' || wallet."id", 'USER_WALLET', 'CREDITS', wallet."id");
+
+      INSERT INTO "ledger_journals" ("id", "type", "description")
+      VALUES (journal_id, NULL, 'Opening balance');
+
+      INSERT INTO "ledger_entries" ("id", "journalId", "accountId", "amount") VALUES
+        (gen_random_uuid()::TEXT, journal_id, account_id, wallet."balance"),
+        (gen_random_uuid()::TEXT, journal_id, house_id, -wallet."balance");
+    END LOOP;
+
+    -- Open mismatches were recorded per user; the next reconciliation flags them again per wallet
+    DELETE FROM "ledger_discrepancies";
+    ALTER TABLE "ledger_discrepancies" DROP COLUMN "userId";
+  END IF;
+
+  -- Other columns the same change added without a default or replaced
+  IF to_regclass('active_mines_games') IS NOT NULL THEN
+    ALTER TABLE "active_mines_games" ADD COLUMN IF NOT EXISTS "currency" TEXT NOT NULL DEFAULT 'CREDITS';
+    ALTER TABLE "active_mines_games" ALTER COLUMN "currency" DROP DEFAULT;
+  END IF;
+
+  -- Round totals are summed per currency from crash_bets instead
+  IF to_regclass('crash_rounds') IS NOT NULL THEN
+    ALTER TABLE "crash_rounds" DROP COLUMN IF EXISTS "totalWagered";
+    ALTER TABLE "crash_rounds" DROP COLUMN IF EXISTS "totalPayout";
+  END IF;
+
+  -- Only now that every balance has a wallet
+  ALTER TABLE "users" DROP COLUMN "balance";
+END $$;
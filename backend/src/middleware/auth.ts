@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { UserRole } from '@prisma/client';
 import { prisma } from '../server';
 import { AppError, asyncHandler } from './errorHandler';
 
@@ -8,7 +9,7 @@ export interface AuthenticatedRequest extends Request {
     id: string;
     email: string;
     username: string;
-    balance: string;
+    role: UserRole;
     isActive: boolean;
     isVerified: boolean;
   };
@@ -37,7 +38,7 @@ export const authenticate = asyncHandler(async (req: AuthenticatedRequest, res:
         id: true,
         email: true,
         username: true,
-        balance: true,
+        role: true,
         isActive: true,
         isVerified: true
       }
@@ -52,10 +53,7 @@ export const authenticate = asyncHandler(async (req: AuthenticatedRequest, res:
     }
 
     // Attach user to request
-    req.user = {
-      ...user,
-      balance: user.balance.toString()
-    };
+    req.user = user;
 
     next();
   } catch (error) {
@@ -76,15 +74,14 @@ export const requireVerified = asyncHandler(async (req: AuthenticatedRequest, re
   next();
 });
 
-export const requireBalance = (minimumBalance: number = 0) => {
+export const requireRole = (...roles: UserRole[]) => {
   return asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
       throw new AppError('Authentication required.', 401);
     }
 
-    const balance = parseFloat(req.user.balance);
-    if (balance < minimumBalance) {
-      throw new AppError('Insufficient balance.', 400);
+    if (!roles.includes(req.user.role)) {
+      throw new AppError('Insufficient permissions.', 403);
     }
 
     next();
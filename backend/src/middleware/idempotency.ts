@@ -0,0 +1,42 @@
+import { Response, NextFunction } from 'express';
+import { asyncHandler } from './errorHandler';
+import { AuthenticatedRequest } from './auth';
+import { IdempotencyService } from '../services/idempotency';
+
+/**
+ * Replay the original response when a request is retried with the same Idempotency-Key.
+ * Must run after `authenticate`; requests without the header are handled as usual.
+ */
+export const idempotent = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const key = req.header('Idempotency-Key');
+
+  if (key === undefined) {
+    return next();
+  }
+
+  const userId = req.user!.id;
+  const requestHash = IdempotencyService.hashRequest(req.method, req.baseUrl + req.path, req.body);
+
+  const stored = await IdempotencyService.begin(userId, key, requestHash);
+
+  if (stored) {
+    res.setHeader('Idempotent-Replayed', 'true');
+    return res.status(stored.statusCode).json(stored.body);
+  }
+
+  // Store the response before sending it, so a retry after it arrives is always replayed
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    const settle = res.statusCode < 400
+      ? IdempotencyService.complete(userId, key, { statusCode: res.statusCode, body })
+      : IdempotencyService.release(userId, key);
+
+    settle
+      .catch(error => console.error('Failed to store idempotent response:', error))
+      .finally(() => json(body));
+
+    return res;
+  };
+
+  next();
+});
@@ -0,0 +1,849 @@
+import express, { Response } from 'express';
+import { GameType, Prisma } from '@prisma/client';
+import Joi from 'joi';
+import { prisma, socketService } from '../server';
+import { authenticate, AuthenticatedRequest, requireRole } from '../middleware/auth';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { BetSettlementService } from '../services/betSettlement';
+import { AuditService } from '../services/audit';
+import { LedgerService } from '../services/ledger';
+import { CurrencyService } from '../services/currencies';
+import { PlinkoEngine } from '../services/games/PlinkoEngine';
+import { PlinkoTableService } from '../services/plinkoTables';
+import { GameSettingsService } from '../services/gameSettings';
+import { PaymentService } from '../services/payments';
+import { CrashChainService } from '../services/crashChain';
+
+const router = express.Router();
+
+// Support staff can look things up; changes need an admin
+router.use(authenticate, requireRole('SUPPORT', 'ADMIN'));
+const adminOnly = requireRole('ADMIN');
+
+// Validation schemas
+const userSearchSchema = Joi.object({
+  search: Joi.string().trim().max(255).allow(''),
+  role: Joi.string().uppercase().valid('PLAYER', 'SUPPORT', 'ADMIN'),
+  isActive: Joi.boolean(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+const balanceAdjustmentSchema = Joi.object({
+  amount: Joi.number().min(-1000000).max(1000000).invalid(0).required(),
+  currency: Joi.string().trim().uppercase().max(10).default(CurrencyService.DEFAULT_CURRENCY),
+  reason: Joi.string().trim().min(3).max(255).required()
+});
+
+const roleSchema = Joi.object({
+  role: Joi.string().uppercase().valid('PLAYER', 'SUPPORT', 'ADMIN').required()
+});
+
+const auditQuerySchema = Joi.object({
+  action: Joi.string().trim().max(100).allow(''),
+  userId: Joi.string().trim().max(100).allow(''),
+  from: Joi.date().iso(),
+  to: Joi.date().iso().min(Joi.ref('from')),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(200).default(50)
+});
+
+const paymentQuerySchema = Joi.object({
+  type: Joi.string().uppercase().valid('DEPOSIT', 'WITHDRAWAL'),
+  status: Joi.string().uppercase().valid('PENDING', 'APPROVED', 'COMPLETED', 'REJECTED', 'CANCELLED', 'FAILED'),
+  userId: Joi.string().trim().max(100).allow(''),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+const approvalSchema = Joi.object({
+  note: Joi.string().trim().max(255).allow('')
+});
+
+const rejectionSchema = Joi.object({
+  note: Joi.string().trim().min(3).max(255).required()
+});
+
+const gameTypeSchema = Joi.string().uppercase().valid('PLINKO', 'MINES', 'CRASH').required();
+
+const gameSettingsSchema = Joi.object({
+  houseEdge: Joi.number().min(0).max(0.2),
+  minBet: Joi.number().min(0.01).max(1000000),
+  maxBet: Joi.number().min(0.01).max(1000000),
+  isActive: Joi.boolean()
+}).min(1);
+
+const plinkoBoardSchema = Joi.object({
+  rows: Joi.number().integer().min(PlinkoEngine.MIN_ROWS).max(PlinkoEngine.MAX_ROWS).required(),
+  risk: Joi.string().valid('low', 'medium', 'high').required()
+});
+
+const plinkoTableSchema = Joi.object({
+  multipliers: Joi.array().items(Joi.number().min(0).max(10000)).required()
+});
+
+const crashChainSaltSchema = Joi.object({
+  salt: Joi.string().trim().min(8).max(128).required()
+});
+
+const userSelect = {
+  id: true,
+  email: true,
+  username: true,
+  role: true,
+  isActive: true,
+  isVerified: true,
+  createdAt: true,
+  updatedAt: true,
+  wallets: {
+    select: { id: true, currency: true, balance: true },
+    orderBy: { currency: 'asc' }
+  }
+} satisfies Prisma.UserSelect;
+
+const toAdminUser = (user: Prisma.UserGetPayload<{ select: typeof userSelect }>) => ({
+  ...user,
+  wallets: user.wallets.map(wallet => ({ ...wallet, balance: wallet.balance.toString() }))
+});
+
+const findUser = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: userSelect
+  });
+
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  return toAdminUser(user);
+};
+
+// Optional ?currency= filter for a user's history and transactions
+const currencyFilter = (req: AuthenticatedRequest) =>
+  req.query.currency ? { currency: CurrencyService.get(req.query.currency as string).code } : {};
+
+/**
+ * Staff may not change their own account, so nobody can lock themselves out
+ */
+const assertNotSelf = (req: AuthenticatedRequest, userId: string) => {
+  if (req.user!.id === userId) {
+    throw new AppError('You cannot change your own account here', 400);
+  }
+};
+
+const pageParams = (req: AuthenticatedRequest) => ({
+  page: parseInt(req.query.page as string) || 1,
+  limit: Math.min(parseInt(req.query.limit as string) || 20, 100)
+});
+
+// ===== USERS =====
+
+/**
+ * List users, searching by id, email or username
+ */
+router.get('/users', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { error, value } = userSearchSchema.validate(req.query, { stripUnknown: true });
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const { search, role, isActive, page, limit } = value;
+
+  const where: Prisma.UserWhereInput = {
+    ...(role && { role }),
+    ...(isActive !== undefined && { isActive }),
+    ...(search && {
+      OR: [
+        { id: search },
+        { email: { contains: search, mode: 'insensitive' } },
+        { username: { contains: search, mode: 'insensitive' } }
+      ]
+    })
+  };
+
+  const [users, total] = await Promise.all([
+    prisma.user.findMany({
+      where,
+      select: userSelect,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit
+    }),
+    prisma.user.count({ where })
+  ]);
+
+  res.json({
+    success: true,
+    data: {
+      users: users.map(toAdminUser),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    }
+  });
+}));
+
+/**
+ * Get a user with each wallet's ledger balance and their betting totals per currency
+ */
+router.get('/users/:userId', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const user = await findUser(req.params.userId);
+
+  const totals = await prisma.gameHistory.groupBy({
+    by: ['currency'],
+    where: { userId: user.id },
+    _count: { id: true },
+    _sum: { betAmount: true, payout: true },
+    orderBy: { currency: 'asc' }
+  });
+
+  const wallets = await Promise.all(user.wallets.map(async wallet => ({
+    ...wallet,
+    ledgerBalance: (await LedgerService.getWalletBalance(wallet.id)).toString()
+  })));
+
+  res.json({
+    success: true,
+    data: {
+      user: { ...user, wallets },
+      stats: totals.map(total => {
+        const totalWagered = total._sum.betAmount ?? new Prisma.Decimal(0);
+        const totalPayout = total._sum.payout ?? new Prisma.Decimal(0);
+
+        return {
+          currency: total.currency,
+          totalGames: total._count.id,
+          totalWagered: totalWagered.toString(),
+          totalPayout: totalPayout.toString(),
+          netResult: totalPayout.minus(totalWagered).toString()
+        };
+      })
+    }
+  });
+}));
+
+/**
+ * Get a user's game history
+ */
+router.get('/users/:userId/history', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const user = await findUser(req.params.userId);
+  const { page, limit } = pageParams(req);
+  const gameType = (req.query.gameType as string | undefined)?.toUpperCase();
+
+  const where: Prisma.GameHistoryWhereInput = { userId: user.id, ...currencyFilter(req) };
+  if (gameType && ['PLINKO', 'MINES', 'CRASH'].includes(gameType)) {
+    where.gameType = gameType as GameType;
+  }
+
+  const [games, total] = await Promise.all([
+    prisma.gameHistory.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit
+    }),
+    prisma.gameHistory.count({ where })
+  ]);
+
+  res.json({
+    success: true,
+    data: {
+      games: games.map(game => ({
+        ...game,
+        betAmount: game.betAmount.toString(),
+        payout: game.payout.toString()
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    }
+  });
+}));
+
+/**
+ * Get a user's transactions
+ */
+router.get('/users/:userId/transactions', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const user = await findUser(req.params.userId);
+  const { page, limit } = pageParams(req);
+  const type = (req.query.type as string | undefined)?.toUpperCase();
+
+  const where: Prisma.TransactionWhereInput = { userId: user.id, ...currencyFilter(req) };
+  if (type && ['DEPOSIT', 'WITHDRAWAL', 'BET', 'WIN', 'BONUS', 'REFUND', 'ADJUSTMENT'].includes(type)) {
+    where.type = type as Prisma.TransactionWhereInput['type'];
+  }
+
+  const [transactions, total] = await Promise.all([
+    prisma.transaction.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit
+    }),
+    prisma.transaction.count({ where })
+  ]);
+
+  res.json({
+    success: true,
+    data: {
+      transactions: transactions.map(tx => ({
+        ...tx,
+        amount: tx.amount.toString(),
+        balanceBefore: tx.balanceBefore.toString(),
+        balanceAfter: tx.balanceAfter.toString()
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    }
+  });
+}));
+
+/**
+ * Credit or debit a user's balance, recording the reason
+ */
+router.post('/users/:userId/balance', adminOnly, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { error, value } = balanceAdjustmentSchema.validate(req.body);
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const existing = await findUser(req.params.userId);
+  const { amount, currency, reason } = value;
+  CurrencyService.assertPrecision(currency, amount);
+
+  const balance = await BetSettlementService.adjust(
+    existing.id,
+    currency,
+    amount,
+    'ADJUSTMENT',
+    `Adjusted by ${req.user!.username}: ${reason}`,
+    AuditService.contextOf(req)
+  );
+
+  socketService.emitToUser(existing.id, 'balance_update', {
+    currency,
+    balance: balance.toString(),
+    change: amount.toString(),
+    reason: 'ADJUSTMENT'
+  });
+
+  res.json({
+    success: true,
+    message: 'Balance adjusted',
+    data: {
+      user: await findUser(existing.id)
+    }
+  });
+}));
+
+/**
+ * Deactivate a user's account and sign them out everywhere
+ */
+router.post('/users/:userId/deactivate', adminOnly, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const existing = await findUser(req.params.userId);
+  const { id } = existing;
+  assertNotSelf(req, id);
+
+  const user = await prisma.$transaction(async (tx) => {
+    const updated = await tx.user.update({
+      where: { id },
+      data: { isActive: false },
+      select: userSelect
+    });
+
+    await tx.session.deleteMany({ where: { userId: id } });
+
+    await AuditService.record({
+      ...AuditService.contextOf(req),
+      action: 'admin.user_deactivated',
+      targetUserId: id,
+      before: { isActive: existing.isActive },
+      after: { isActive: false }
+    }, tx);
+
+    return updated;
+  });
+
+  res.json({
+    success: true,
+    message: 'Account deactivated',
+    data: {
+      user: toAdminUser(user)
+    }
+  });
+}));
+
+/**
+ * Reactivate a deactivated account
+ */
+router.post('/users/:userId/reactivate', adminOnly, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const existing = await findUser(req.params.userId);
+
+  const user = await prisma.$transaction(async (tx) => {
+    const updated = await tx.user.update({
+      where: { id: existing.id },
+      data: { isActive: true },
+      select: userSelect
+    });
+
+    await AuditService.record({
+      ...AuditService.contextOf(req),
+      action: 'admin.user_reactivated',
+      targetUserId: existing.id,
+      before: { isActive: existing.isActive },
+      after: { isActive: true }
+    }, tx);
+
+    return updated;
+  });
+
+  res.json({
+    success: true,
+    message: 'Account reactivated',
+    data: {
+      user: toAdminUser(user)
+    }
+  });
+}));
+
+/**
+ * Change a user's role
+ */
+router.put('/users/:userId/role', adminOnly, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { error, value } = roleSchema.validate(req.body);
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const existing = await findUser(req.params.userId);
+  assertNotSelf(req, existing.id);
+
+  const user = await prisma.$transaction(async (tx) => {
+    const updated = await tx.user.update({
+      where: { id: existing.id },
+      data: { role: value.role },
+      select: userSelect
+    });
+
+    await AuditService.record({
+      ...AuditService.contextOf(req),
+      action: 'admin.user_role_changed',
+      targetUserId: existing.id,
+      before: { role: existing.role },
+      after: { role: updated.role }
+    }, tx);
+
+    return updated;
+  });
+
+  res.json({
+    success: true,
+    message: 'Role updated',
+    data: {
+      user: toAdminUser(user)
+    }
+  });
+}));
+
+// ===== LEDGER =====
+
+/**
+ * Get the system account balances and the trial balance of every currency
+ */
+router.get('/ledger', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const [balances, openDiscrepancies] = await Promise.all([
+    LedgerService.getSystemBalances(),
+    prisma.ledgerDiscrepancy.count({ where: { resolvedAt: null } })
+  ]);
+
+  res.json({
+    success: true,
+    data: { ...balances, openDiscrepancies }
+  });
+}));
+
+/**
+ * List wallets whose cached balance has diverged from the ledger
+ */
+router.get('/ledger/discrepancies', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { page, limit } = pageParams(req);
+  const where: Prisma.LedgerDiscrepancyWhereInput = req.query.resolved === 'true'
+    ? { resolvedAt: { not: null } }
+    : { resolvedAt: null };
+
+  const [discrepancies, total] = await Promise.all([
+    prisma.ledgerDiscrepancy.findMany({
+      where,
+      orderBy: { detectedAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+      include: {
+        wallet: {
+          select: { currency: true, user: { select: { id: true, username: true } } }
+        }
+      }
+    }),
+    prisma.ledgerDiscrepancy.count({ where })
+  ]);
+
+  res.json({
+    success: true,
+    data: {
+      discrepancies: discrepancies.map(({ wallet, ...discrepancy }) => ({
+        ...discrepancy,
+        currency: wallet.currency,
+        user: wallet.user,
+        cachedBalance: discrepancy.cachedBalance.toString(),
+        ledgerBalance: discrepancy.ledgerBalance.toString(),
+        difference: discrepancy.cachedBalance.minus(discrepancy.ledgerBalance).toString()
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    }
+  });
+}));
+
+/**
+ * Run the ledger reconciliation now instead of waiting for the next scheduled run
+ */
+router.post('/ledger/reconcile', adminOnly, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const result = await LedgerService.reconcile();
+
+  res.json({
+    success: true,
+    message: 'Ledger reconciled',
+    data: { result }
+  });
+}));
+
+// ===== PAYMENTS =====
+
+/**
+ * List deposits and withdrawals, e.g. ?type=WITHDRAWAL&status=PENDING for the review queue
+ */
+router.get('/payments', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { error, value } = paymentQuerySchema.validate(req.query, { stripUnknown: true });
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const { page, limit } = value;
+  const { payments, total } = await PaymentService.list({ ...value, userId: value.userId || undefined });
+
+  res.json({
+    success: true,
+    data: {
+      payments,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    }
+  });
+}));
+
+/**
+ * Approve a pending withdrawal: debit the held amount and send it through the payment provider
+ */
+router.post('/payments/:paymentId/approve', adminOnly, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { error, value } = approvalSchema.validate(req.body);
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const payment = await PaymentService.reviewWithdrawal(
+    req.params.paymentId,
+    'APPROVED',
+    req.user!.id,
+    value.note || undefined,
+    AuditService.contextOf(req)
+  );
+
+  res.json({
+    success: true,
+    message: 'Withdrawal approved',
+    data: { payment: PaymentService.format(payment) }
+  });
+}));
+
+/**
+ * Reject a pending withdrawal and release the held amount back to the user
+ */
+router.post('/payments/:paymentId/reject', adminOnly, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { error, value } = rejectionSchema.validate(req.body);
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const payment = await PaymentService.reviewWithdrawal(
+    req.params.paymentId,
+    'REJECTED',
+    req.user!.id,
+    value.note,
+    AuditService.contextOf(req)
+  );
+
+  res.json({
+    success: true,
+    message: 'Withdrawal rejected',
+    data: { payment: PaymentService.format(payment) }
+  });
+}));
+
+// ===== CRASH =====
+
+/**
+ * Get recorded crash rounds, newest first, with what each took and paid out
+ */
+router.get('/crash/rounds', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { page, limit } = pageParams(req);
+
+  const [rounds, total] = await Promise.all([
+    prisma.crashRound.findMany({
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+      select: {
+        id: true,
+        gameNumber: true,
+        crashPoint: true,
+        houseEdge: true,
+        playerCount: true,
+        isAborted: true,
+        createdAt: true,
+        startedAt: true,
+        endedAt: true
+      }
+    }),
+    prisma.crashRound.count()
+  ]);
+
+  // Bets can be in different currencies, so each round is totalled per currency
+  const totals = await prisma.crashBet.groupBy({
+    by: ['roundId', 'currency'],
+    where: { roundId: { in: rounds.map(round => round.id) } },
+    _sum: { betAmount: true, payout: true },
+    orderBy: { currency: 'asc' }
+  });
+
+  res.json({
+    success: true,
+    data: {
+      rounds: rounds.map(round => ({
+        ...round,
+        totals: totals
+          .filter(total => total.roundId === round.id)
+          .map(total => {
+            const wagered = total._sum.betAmount ?? new Prisma.Decimal(0);
+            const payout = total._sum.payout ?? new Prisma.Decimal(0);
+
+            return {
+              currency: total.currency,
+              totalWagered: wagered.toString(),
+              totalPayout: payout.toString(),
+              houseProfit: wagered.minus(payout).toString()
+            };
+          })
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    }
+  });
+}));
+
+/**
+ * Fix the salt of the next crash hash chain. Publish the chain's terminating hash first,
+ * then set the salt to a value nobody could know at that time, such as a later public block hash
+ */
+router.put('/crash/chains/:chainId/salt', adminOnly, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { error, value } = crashChainSaltSchema.validate(req.body);
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const chain = await CrashChainService.setSalt(req.params.chainId, value.salt);
+
+  await AuditService.record({
+    ...AuditService.contextOf(req),
+    action: 'admin.crash_chain_salt_fixed',
+    entity: `CrashHashChain:${chain.chainId}`,
+    before: { salt: null },
+    after: { salt: chain.salt, terminatingHash: chain.terminatingHash }
+  });
+
+  res.json({
+    success: true,
+    message: 'Crash hash chain salt fixed',
+    data: { chain }
+  });
+}));
+
+// ===== GAME SETTINGS =====
+
+/**
+ * List every game's settings
+ */
+router.get('/settings', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const settings = await GameSettingsService.getAll();
+
+  res.json({
+    success: true,
+    data: { settings }
+  });
+}));
+
+/**
+ * Change a game's house edge, bet limits or availability
+ */
+router.put('/settings/:gameType', adminOnly, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const gameType = gameTypeSchema.validate(req.params.gameType);
+  if (gameType.error) {
+    throw new AppError(gameType.error.details[0].message, 400);
+  }
+
+  const { error, value } = gameSettingsSchema.validate(req.body);
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const settings = await GameSettingsService.update(gameType.value as GameType, value, AuditService.contextOf(req));
+
+  res.json({
+    success: true,
+    message: 'Game settings updated',
+    data: { settings }
+  });
+}));
+
+// ===== PLINKO TABLES =====
+
+/**
+ * List the payout table in play for every Plinko board
+ */
+router.get('/plinko/tables', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  res.json({
+    success: true,
+    data: {
+      tables: PlinkoTableService.list(),
+      rtpBand: PlinkoTableService.getRtpBand()
+    }
+  });
+}));
+
+/**
+ * Set a custom payout table for a Plinko board
+ */
+router.put('/plinko/tables/:rows/:risk', adminOnly, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const board = plinkoBoardSchema.validate(req.params);
+  if (board.error) {
+    throw new AppError(board.error.details[0].message, 400);
+  }
+
+  const { error, value } = plinkoTableSchema.validate(req.body);
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const { rows, risk } = board.value;
+  const before = PlinkoEngine.getMultipliers(rows, risk);
+  const table = await PlinkoTableService.save(rows, risk, value.multipliers);
+
+  await AuditService.record({
+    ...AuditService.contextOf(req),
+    action: 'admin.plinko_table_saved',
+    entity: `PlinkoTable:${rows}:${risk}`,
+    before: { multipliers: before },
+    after: { multipliers: table.multipliers, rtp: table.rtp }
+  });
+
+  res.json({
+    success: true,
+    message: 'Payout table saved',
+    data: { table }
+  });
+}));
+
+/**
+ * Go back to the built-in payout table for a Plinko board
+ */
+router.delete('/plinko/tables/:rows/:risk', adminOnly, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { error, value } = plinkoBoardSchema.validate(req.params);
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const before = PlinkoEngine.getMultipliers(value.rows, value.risk);
+  const table = await PlinkoTableService.remove(value.rows, value.risk);
+
+  await AuditService.record({
+    ...AuditService.contextOf(req),
+    action: 'admin.plinko_table_removed',
+    entity: `PlinkoTable:${value.rows}:${value.risk}`,
+    before: { multipliers: before },
+    after: { multipliers: table.multipliers, rtp: table.rtp }
+  });
+
+  res.json({
+    success: true,
+    message: 'Payout table reset to default',
+    data: { table }
+  });
+}));
+
+// ===== AUDIT LOG =====
+
+/**
+ * Search the audit log by action prefix, user (as actor or target) and time range
+ */
+router.get('/audit', asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { error, value } = auditQuerySchema.validate(req.query, { stripUnknown: true });
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const { page, limit } = value;
+  const { entries, total } = await AuditService.list({
+    action: value.action || undefined,
+    userId: value.userId || undefined,
+    from: value.from,
+    to: value.to,
+    page,
+    limit
+  });
+
+  res.json({
+    success: true,
+    data: {
+      entries,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    }
+  });
+}));
+
+export { router as adminRoutes };
@@ -3,9 +3,14 @@ import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import Joi from 'joi';
 import rateLimit from 'express-rate-limit';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../server';
 import { AppError, asyncHandler } from '../middleware/errorHandler';
 import { authenticate, AuthenticatedRequest } from '../middleware/auth';
+import { AuditService } from '../services/audit';
+import { BetSettlementService } from '../services/betSettlement';
+import { CurrencyService } from '../services/currencies';
+import { WalletService } from '../services/wallets';
 
 const router = express.Router();
 
@@ -90,23 +95,43 @@ router.post('/register', authLimiter, asyncHandler(async (req: Request, res: Res
   const saltRounds = 12;
   const hashedPassword = await bcrypt.hash(password, saltRounds);
 
-  // Create user
-  const user = await prisma.user.create({
-    data: {
-      email: email.toLowerCase(),
-      username: username.toLowerCase(),
-      password: hashedPassword,
-      balance: 1000.00 // Starting balance
-    },
-    select: {
-      id: true,
-      email: true,
-      username: true,
-      balance: true,
-      isActive: true,
-      isVerified: true,
-      createdAt: true
+  // Create the user, then pay each currency's starting balance from its bonus pool
+  const user = await prisma.$transaction(async (tx) => {
+    const created = await tx.user.create({
+      data: {
+        email: email.toLowerCase(),
+        username: username.toLowerCase(),
+        password: hashedPassword
+      },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        role: true,
+        isActive: true,
+        isVerified: true,
+        createdAt: true
+      }
+    });
+
+    for (const currency of CurrencyService.getAll()) {
+      const welcomeBonus = new Prisma.Decimal(currency.welcomeBonus);
+
+      if (welcomeBonus.greaterThan(0)) {
+        await BetSettlementService.adjustBalance(
+          tx,
+          created.id,
+          currency.code,
+          welcomeBonus,
+          'BONUS',
+          'Welcome bonus',
+          undefined,
+          { ...AuditService.contextOf(req), actorId: created.id }
+        );
+      }
     }
+
+    return { ...created, wallets: await WalletService.list(created.id, tx) };
   });
 
   // Generate token
@@ -121,14 +146,19 @@ router.post('/register', authLimiter, asyncHandler(async (req: Request, res: Res
     }
   });
 
+  await AuditService.record({
+    ...AuditService.contextOf(req),
+    action: 'auth.register',
+    actorId: user.id,
+    targetUserId: user.id,
+    after: { email: user.email, username: user.username }
+  });
+
   res.status(201).json({
     success: true,
     message: 'User registered successfully',
     data: {
-      user: {
-        ...user,
-        balance: user.balance.toString()
-      },
+      user,
       token
     }
   });
@@ -154,7 +184,7 @@ router.post('/login', authLimiter, asyncHandler(async (req: Request, res: Respon
       email: true,
       username: true,
       password: true,
-      balance: true,
+      role: true,
       isActive: true,
       isVerified: true,
       createdAt: true
@@ -166,12 +196,24 @@ router.post('/login', authLimiter, asyncHandler(async (req: Request, res: Respon
   }
 
   if (!user.isActive) {
+    await AuditService.record({
+      ...AuditService.contextOf(req),
+      action: 'auth.login_failed',
+      targetUserId: user.id,
+      after: { reason: 'Account deactivated' }
+    });
     throw new AppError('Account is deactivated. Please contact support.', 401);
   }
 
   // Verify password
   const isValidPassword = await bcrypt.compare(password, user.password);
   if (!isValidPassword) {
+    await AuditService.record({
+      ...AuditService.contextOf(req),
+      action: 'auth.login_failed',
+      targetUserId: user.id,
+      after: { reason: 'Wrong password' }
+    });
     throw new AppError('Invalid email or password', 401);
   }
 
@@ -187,6 +229,13 @@ router.post('/login', authLimiter, asyncHandler(async (req: Request, res: Respon
     }
   });
 
+  await AuditService.record({
+    ...AuditService.contextOf(req),
+    action: 'auth.login',
+    actorId: user.id,
+    targetUserId: user.id
+  });
+
   // Remove password from response
   const { password: _, ...userWithoutPassword } = user;
 
@@ -196,7 +245,7 @@ router.post('/login', authLimiter, asyncHandler(async (req: Request, res: Respon
     data: {
       user: {
         ...userWithoutPassword,
-        balance: user.balance.toString()
+        wallets: await WalletService.list(user.id)
       },
       token
     }
@@ -210,7 +259,10 @@ router.get('/me', authenticate, asyncHandler(async (req: AuthenticatedRequest, r
   res.json({
     success: true,
     data: {
-      user: req.user
+      user: {
+        ...req.user,
+        wallets: await WalletService.list(req.user!.id)
+      }
     }
   });
 }));
@@ -259,6 +311,12 @@ router.put('/change-password', authenticate, asyncHandler(async (req: Authentica
     where: { userId }
   });
 
+  await AuditService.record({
+    ...AuditService.contextOf(req),
+    action: 'auth.password_changed',
+    targetUserId: userId
+  });
+
   res.json({
     success: true,
     message: 'Password changed successfully. Please log in again.'
@@ -281,6 +339,12 @@ router.post('/logout', authenticate, asyncHandler(async (req: AuthenticatedReque
     });
   }
 
+  await AuditService.record({
+    ...AuditService.contextOf(req),
+    action: 'auth.logout',
+    targetUserId: req.user!.id
+  });
+
   res.json({
     success: true,
     message: 'Logged out successfully'
@@ -296,6 +360,12 @@ router.post('/logout-all', authenticate, asyncHandler(async (req: AuthenticatedR
     where: { userId: req.user!.id }
   });
 
+  await AuditService.record({
+    ...AuditService.contextOf(req),
+    action: 'auth.logout_all',
+    targetUserId: req.user!.id
+  });
+
   res.json({
     success: true,
     message: 'Logged out from all devices successfully'
@@ -0,0 +1,144 @@
+import express, { Request, Response } from 'express';
+import Joi from 'joi';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { FairnessService } from '../services/fairness';
+import { PlinkoEngine } from '../services/games/PlinkoEngine';
+
+const router = express.Router();
+
+// Validation schemas
+const clientSeedSchema = Joi.object({
+  clientSeed: Joi.string().trim().min(1).max(64).required()
+});
+
+const rotateSchema = Joi.object({
+  clientSeed: Joi.string().trim().min(1).max(64).optional()
+});
+
+const verifySchema = Joi.object({
+  gameType: Joi.string().uppercase().valid('PLINKO', 'MINES', 'CRASH').required(),
+  serverSeed: Joi.string().required(),
+  clientSeed: Joi.string().required(),
+  nonce: Joi.number().integer().min(0).required(),
+  rows: Joi.when('gameType', { is: 'PLINKO', then: Joi.number().integer().min(PlinkoEngine.MIN_ROWS).max(PlinkoEngine.MAX_ROWS).required(), otherwise: Joi.forbidden() }),
+  risk: Joi.when('gameType', { is: 'PLINKO', then: Joi.string().valid('low', 'medium', 'high').required(), otherwise: Joi.forbidden() }),
+  gridSize: Joi.when('gameType', { is: 'MINES', then: Joi.number().min(9).max(25).required(), otherwise: Joi.forbidden() }),
+  mineCount: Joi.when('gameType', { is: 'MINES', then: Joi.number().min(1).max(24).required(), otherwise: Joi.forbidden() }),
+  houseEdge: Joi.when('gameType', { is: 'CRASH', then: Joi.number().min(0).max(0.2).optional(), otherwise: Joi.forbidden() })
+});
+
+/**
+ * Get the active seed pair (server seed hash only)
+ */
+router.get('/seeds', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const seed = await FairnessService.getActiveSeed(req.user!.id);
+
+  res.json({
+    success: true,
+    data: {
+      seed: FairnessService.toPublic(seed)
+    }
+  });
+}));
+
+/**
+ * Get previously revealed seed pairs
+ */
+router.get('/seeds/history', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+  const { seeds, total } = await FairnessService.getRevealedSeeds(req.user!.id, page, limit);
+
+  res.json({
+    success: true,
+    data: {
+      seeds,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    }
+  });
+}));
+
+/**
+ * Set the client seed for upcoming bets
+ */
+router.put('/client-seed', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  // Validate input
+  const { error, value } = clientSeedSchema.validate(req.body);
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const seed = await FairnessService.setClientSeed(req.user!.id, value.clientSeed);
+
+  res.json({
+    success: true,
+    message: 'Client seed updated successfully',
+    data: {
+      seed: FairnessService.toPublic(seed)
+    }
+  });
+}));
+
+/**
+ * Reveal the current server seed and commit a new one
+ */
+router.post('/rotate', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  // Validate input
+  const { error, value } = rotateSchema.validate(req.body);
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const { previous, current } = await FairnessService.rotate(req.user!.id, value.clientSeed);
+
+  res.json({
+    success: true,
+    message: 'Server seed rotated successfully',
+    data: {
+      previous,
+      current
+    }
+  });
+}));
+
+/**
+ * Recompute a game outcome from seeds, nonce and game parameters
+ */
+router.post('/verify', asyncHandler(async (req: Request, res: Response) => {
+  // Validate input
+  const { error, value } = verifySchema.validate(req.body);
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const outcome = FairnessService.computeOutcome(value);
+
+  res.json({
+    success: true,
+    data: {
+      gameType: value.gameType,
+      outcome
+    }
+  });
+}));
+
+/**
+ * Get one of the user's bets with its seeds and recomputed outcome
+ */
+router.get('/bets/:betId', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const verification = await FairnessService.getBetVerification(req.user!.id, req.params.betId);
+
+  res.json({
+    success: true,
+    data: verification
+  });
+}));
+
+export { router as fairnessRoutes };
@@ -1,173 +1,233 @@
 import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import Joi from 'joi';
 import { prisma } from '../server';
-import { authenticate, AuthenticatedRequest, requireBalance } from '../middleware/auth';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth';
 import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { idempotent } from '../middleware/idempotency';
 import { PlinkoEngine } from '../services/games/PlinkoEngine';
 import { MinesEngine } from '../services/games/MinesEngine';
 import { CrashEngine } from '../services/games/CrashEngine';
+import { ProvablyFair } from '../services/games/ProvablyFair';
+import { FairnessService } from '../services/fairness';
+import { CrashChainService } from '../services/crashChain';
+import { CrashRoundService } from '../services/crashRounds';
+import { CrashScheduler } from '../services/crashScheduler';
+import { CrashBroadcastService } from '../services/crashBroadcast';
+import { CrashSettlementService } from '../services/crashSettlement';
+import { BetSettlementService } from '../services/betSettlement';
+import { MinesGameService, ActiveMinesState } from '../services/minesGames';
+import { GameSettingsService } from '../services/gameSettings';
+import { AuditContext, AuditService } from '../services/audit';
+import { CurrencyService } from '../services/currencies';
+import { WalletService } from '../services/wallets';
 import { socketService } from '../server';
 
-// Game data interfaces
-interface MinesGameData {
-  gridSize: number;
-  mineCount: number;
-  revealedCells: number[];
-  isCompleted: boolean;
-  currentMultiplier: number;
-  minePositions?: number[];
-}
-
-interface PlinkoGameData {
-  rows: number;
-  risk: string;
-  path: number[];
-  multiplier: number;
-}
-
-interface CrashGameData {
-  multiplier: number;
-  cashedOut: boolean;
-  cashOutAt?: number;
-}
-
 const router = express.Router();
 
-// Global crash game engine instance
-const crashEngine = new CrashEngine();
+// Global crash game engine instance, seeded from the shared hash chain
+const crashEngine = new CrashEngine(CrashChainService);
+CrashRoundService.attach(crashEngine);
+CrashBroadcastService.attach(crashEngine);
+CrashSettlementService.attach(crashEngine);
+
+// Runs crash rounds continuously once the server has started
+const crashScheduler = new CrashScheduler(crashEngine);
+
+// Validation schemas; bet limits come from the game's settings, passed as context
+const betAmountSchema = Joi.number().min(Joi.ref('$minBet')).max(Joi.ref('$maxBet')).required().messages({
+  'number.min': 'Bet amount must be at least {{$minBet}}',
+  'number.max': 'Bet amount must be at most {{$maxBet}}'
+});
+
+// Checked against the configured currencies once validated
+const currencySchema = Joi.string().trim().uppercase().max(10).default(CurrencyService.DEFAULT_CURRENCY);
 
-// Validation schemas
 const plinkoGameSchema = Joi.object({
-  rows: Joi.number().valid(8, 12, 16).required(),
+  rows: Joi.number().integer().min(PlinkoEngine.MIN_ROWS).max(PlinkoEngine.MAX_ROWS).required(),
   risk: Joi.string().valid('low', 'medium', 'high').required(),
-  betAmount: Joi.number().min(0.01).max(10000).required()
+  betAmount: betAmountSchema,
+  currency: currencySchema
 });
 
-const minesGameSchema = Joi.object({
-  gridSize: Joi.number().min(9).max(25).required(),
-  mineCount: Joi.number().min(1).max(24).required(),
-  betAmount: Joi.number().min(0.01).max(10000).required()
+const plinkoBatchSchema = plinkoGameSchema.keys({
+  ballCount: Joi.number().integer().min(1).max(PlinkoEngine.MAX_BALLS).required()
 });
 
+const minesGameSchema = Joi.object({
+  gridSize: Joi.number().integer().min(9).max(100),
+  rows: Joi.number().integer().min(MinesEngine.MIN_SIDE).max(MinesEngine.MAX_SIDE),
+  columns: Joi.number().integer().min(MinesEngine.MIN_SIDE).max(MinesEngine.MAX_SIDE),
+  mineCount: Joi.number().integer().min(1).max(99).required(),
+  betAmount: betAmountSchema,
+  currency: currencySchema
+}).or('gridSize', 'rows').and('rows', 'columns');
+
 const minesRevealSchema = Joi.object({
   gameId: Joi.string().required(),
   cellIndex: Joi.number().min(0).required()
 });
 
+const minesBatchSchema = Joi.object({
+  gameId: Joi.string().required(),
+  cells: Joi.array().items(Joi.number().integer().min(0)).min(1).unique(),
+  pattern: Joi.string().valid(...MinesEngine.PATTERNS)
+}).xor('cells', 'pattern');
+
 const crashGameSchema = Joi.object({
-  betAmount: Joi.number().min(0.01).max(10000).required(),
+  betAmount: betAmountSchema,
+  currency: currencySchema,
   autoCashOut: Joi.number().min(1.01).max(1000000).optional()
 });
 
-/**
- * Update user balance in database
- */
-const updateUserBalance = async (userId: string, amount: number, type: 'BET' | 'WIN', description?: string) => {
-  return await prisma.$transaction(async (tx) => {
-    // Get current balance
-    const user = await tx.user.findUnique({
-      where: { id: userId },
-      select: { balance: true }
-    });
-
-    if (!user) {
-      throw new AppError('User not found', 404);
-    }
-
-    const currentBalance = parseFloat(user.balance.toString());
-    const newBalance = currentBalance + amount;
-
-    if (newBalance < 0) {
-      throw new AppError('Insufficient balance', 400);
-    }
-
-    // Update user balance
-    await tx.user.update({
-      where: { id: userId },
-      data: { balance: newBalance }
-    });
-
-    // Record transaction
-    await tx.transaction.create({
-      data: {
-        userId,
-        type,
-        amount: Math.abs(amount),
-        balanceBefore: currentBalance,
-        balanceAfter: newBalance,
-        description
-      }
-    });
+const historyQuerySchema = Joi.object({
+  currency: Joi.string().trim().uppercase().max(10),
+  gameType: Joi.string().uppercase().valid('PLINKO', 'MINES', 'CRASH'),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
 
-    return newBalance;
-  });
-};
+const crashChainVerifySchema = Joi.object({
+  hash: Joi.string().hex().length(64).required(),
+  gameNumber: Joi.number().integer().min(1).required(),
+  salt: Joi.string().optional(),
+  count: Joi.number().integer().min(1).max(1000).default(100)
+});
 
 // ===== PLINKO ROUTES =====
 
 /**
  * Play Plinko game
  */
-router.post('/plinko/play', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.post('/plinko/play', authenticate, idempotent, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const settings = await GameSettingsService.requireActive('PLINKO');
+
   // Validate input
-  const { error, value } = plinkoGameSchema.validate(req.body);
+  const { error, value } = plinkoGameSchema.validate(req.body, { context: settings });
   if (error) {
     throw new AppError(error.details[0].message, 400);
   }
 
-  const { rows, risk, betAmount } = value;
+  const { rows, risk, betAmount, currency } = value;
   const userId = req.user!.id;
+  CurrencyService.assertPrecision(currency, betAmount);
 
-  // Check user balance
-  const currentBalance = parseFloat(req.user!.balance);
-  if (currentBalance < betAmount) {
-    throw new AppError('Insufficient balance', 400);
-  }
-
-  // Generate game seed and nonce
-  const seed = PlinkoEngine.generateSeed();
-  const nonce = Date.now(); // Use timestamp as nonce for uniqueness
+  // Reserve the next nonce on the player's committed seed pair
+  const bet = await FairnessService.nextBet(userId);
 
-  // Play the game
-  const gameResult = PlinkoEngine.playGame({ rows, risk, betAmount }, seed, nonce);
+  // Play the game, recording the payout table so the bet still verifies if the table changes
+  const multipliers = PlinkoEngine.getMultipliers(rows, risk);
+  const gameResult = PlinkoEngine.playGame({ rows, risk, betAmount, multipliers }, bet.serverSeed, bet.clientSeed, bet.nonce);
 
   // Calculate profit/loss
   const profit = gameResult.payout - betAmount;
 
-  // Update user balance (deduct bet)
-  await updateUserBalance(userId, -betAmount, 'BET', `Plinko bet: ${rows} rows, ${risk} risk`);
+  // Take the stake, pay out and save the game history together
+  const { balance: newBalance } = await BetSettlementService.settleBet({
+    userId,
+    currency,
+    stake: betAmount,
+    payout: gameResult.payout,
+    stakeDescription: `Plinko bet: ${rows} rows, ${risk} risk`,
+    payoutDescription: `Plinko win: ${gameResult.multiplier}x multiplier`,
+    audit: AuditService.contextOf(req),
+    history: {
+      create: {
+        gameType: 'PLINKO',
+        betAmount,
+        payout: gameResult.payout,
+        multiplier: gameResult.multiplier,
+        isWin: gameResult.isWin,
+        gameData: {
+          rows,
+          risk,
+          ballPath: gameResult.ballPath,
+          finalSlot: gameResult.finalSlot,
+          multipliers
+        },
+        seed: bet.serverSeedHash,
+        clientSeed: bet.clientSeed,
+        nonce: bet.nonce,
+        serverSeedId: bet.serverSeedId
+      }
+    }
+  });
 
-  // Add winnings if any
-  let newBalance = currentBalance - betAmount;
-  if (gameResult.payout > 0) {
-    newBalance = await updateUserBalance(userId, gameResult.payout, 'WIN', `Plinko win: ${gameResult.multiplier}x multiplier`);
+  // Emit result to user and public feed
+  if (socketService) {
+    socketService.emitPlinkoResult(userId, {
+      ...gameResult,
+      profit,
+      currency,
+      newBalance: newBalance.toString()
+    });
   }
 
-  // Save game history
-  await prisma.gameHistory.create({
+  res.json({
+    success: true,
     data: {
-      userId,
+      gameResult: {
+        ...gameResult,
+        profit,
+        currency,
+        newBalance: newBalance.toString()
+      }
+    }
+  });
+}));
+
+/**
+ * Drop several Plinko balls in one bet, each on its own nonce
+ */
+router.post('/plinko/play-batch', authenticate, idempotent, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const settings = await GameSettingsService.requireActive('PLINKO');
+
+  const { error, value } = plinkoBatchSchema.validate(req.body, { context: settings });
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const { rows, risk, betAmount, ballCount, currency } = value;
+  const userId = req.user!.id;
+  CurrencyService.assertPrecision(currency, betAmount);
+
+  // Reserve one nonce per ball on the player's committed seed pair
+  const bet = await FairnessService.nextBet(userId, ballCount);
+
+  const multipliers = PlinkoEngine.getMultipliers(rows, risk);
+  const batchResult = PlinkoEngine.playBatch({ rows, risk, betAmount, multipliers }, ballCount, bet.serverSeed, bet.clientSeed, bet.nonce);
+
+  // Every ball gets its own history record and transactions, settled together
+  const { balance: newBalance } = await BetSettlementService.settleBatch({
+    userId,
+    currency,
+    stakeDescription: `Plinko bet: ${rows} rows, ${risk} risk, batch of ${ballCount} balls`,
+    payoutDescription: `Plinko win: batch of ${ballCount} balls`,
+    audit: AuditService.contextOf(req),
+    histories: batchResult.balls.map(ball => ({
       gameType: 'PLINKO',
       betAmount,
-      payout: gameResult.payout,
-      multiplier: gameResult.multiplier,
-      isWin: gameResult.isWin,
+      payout: ball.payout,
+      multiplier: ball.multiplier,
+      isWin: ball.isWin,
       gameData: {
         rows,
         risk,
-        ballPath: gameResult.ballPath,
-        finalSlot: gameResult.finalSlot
+        ballPath: ball.ballPath,
+        finalSlot: ball.finalSlot,
+        multipliers
       },
-      seed,
-      nonce
-    }
+      seed: bet.serverSeedHash,
+      clientSeed: bet.clientSeed,
+      nonce: ball.nonce,
+      serverSeedId: bet.serverSeedId
+    }))
   });
 
-  // Emit result to user and public feed
   if (socketService) {
-    socketService.emitPlinkoResult(userId, {
-      ...gameResult,
-      profit,
+    socketService.emitPlinkoBatchResult(userId, {
+      ...batchResult,
+      currency,
       newBalance: newBalance.toString()
     });
   }
@@ -175,9 +235,10 @@ router.post('/plinko/play', authenticate, asyncHandler(async (req: Authenticated
   res.json({
     success: true,
     data: {
-      gameResult: {
-        ...gameResult,
-        profit,
+      batchResult: {
+        ...batchResult,
+        ballCount,
+        currency,
         newBalance: newBalance.toString()
       }
     }
@@ -191,7 +252,7 @@ router.get('/plinko/stats/:rows/:risk', asyncHandler(async (req: Request, res: R
   const rows = parseInt(req.params.rows);
   const risk = req.params.risk as 'low' | 'medium' | 'high';
 
-  if (![8, 12, 16].includes(rows)) {
+  if (isNaN(rows) || rows < PlinkoEngine.MIN_ROWS || rows > PlinkoEngine.MAX_ROWS) {
     throw new AppError('Invalid rows parameter', 400);
   }
 
@@ -212,78 +273,160 @@ router.get('/plinko/stats/:rows/:risk', asyncHandler(async (req: Request, res: R
 /**
  * Start new Mines game
  */
-router.post('/mines/start', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.post('/mines/start', authenticate, idempotent, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const settings = await GameSettingsService.requireActive('MINES');
+
   // Validate input
-  const { error, value } = minesGameSchema.validate(req.body);
+  const { error, value } = minesGameSchema.validate(req.body, { context: settings });
   if (error) {
     throw new AppError(error.details[0].message, 400);
   }
 
-  const { gridSize, mineCount, betAmount } = value;
+  const { mineCount, betAmount, rows, columns, currency } = value;
+  const gridSize: number = value.gridSize ?? rows * columns;
   const userId = req.user!.id;
+  CurrencyService.assertPrecision(currency, betAmount);
 
   // Additional validation
   if (mineCount >= gridSize) {
     throw new AppError('Mine count cannot be greater than or equal to grid size', 400);
   }
 
-  // Check user balance
-  const currentBalance = parseFloat(req.user!.balance);
-  if (currentBalance < betAmount) {
-    throw new AppError('Insufficient balance', 400);
+  let gridShape;
+  try {
+    gridShape = MinesEngine.getGridShape(gridSize, rows ? { rows, columns } : undefined);
+  } catch (error) {
+    throw new AppError((error as Error).message, 400);
   }
 
-  // Generate game seed and nonce
-  const seed = MinesEngine.generateSeed();
-  const nonce = Date.now();
+  // Reserve the next nonce on the player's committed seed pair
+  const bet = await FairnessService.nextBet(userId);
 
   // Start the game
-  const gameState = MinesEngine.startGame({ gridSize, mineCount, betAmount }, seed, nonce);
-
-  // Deduct bet amount from user balance
-  const newBalance = await updateUserBalance(userId, -betAmount, 'BET', `Mines bet: ${mineCount} mines in ${gridSize} grid`);
+  const gameState: ActiveMinesState = {
+    ...MinesEngine.startGame({ gridSize, gridShape, mineCount, betAmount }, bet.serverSeed, bet.clientSeed, bet.nonce),
+    userId,
+    currency,
+    serverSeedId: bet.serverSeedId
+  };
 
-  // Store game state in cache (you might want to use Redis for this)
-  // For now, we'll store it in the database as a temporary game record
-  await prisma.gameHistory.create({
-    data: {
-      id: gameState.gameId,
+  // Take the stake, open the history record and store the game together;
+  // the mine layout stays in the game store until the game is over
+  const newBalance = await prisma.$transaction(async (tx) => {
+    const { balance } = await BetSettlementService.settleBet({
       userId,
-      gameType: 'MINES',
-      betAmount,
+      currency,
+      stake: betAmount,
       payout: 0,
-      multiplier: 1,
-      isWin: false,
-      gameData: {
-        gridSize,
-        mineCount,
-        revealedCells: [],
-        isCompleted: false,
-        currentMultiplier: 1
-      },
-      seed,
-      nonce
-    }
+      stakeDescription: `Mines bet: ${mineCount} mines in ${gridShape.rows}x${gridShape.columns} grid`,
+      audit: AuditService.contextOf(req),
+      history: {
+        create: {
+          id: gameState.gameId,
+          gameType: 'MINES',
+          betAmount,
+          payout: 0,
+          multiplier: 1,
+          isWin: false,
+          gameData: {
+            gridSize,
+            gridShape: { ...gridShape },
+            mineCount,
+            houseEdge: gameState.houseEdge,
+            isCompleted: false
+          },
+          seed: bet.serverSeedHash,
+          clientSeed: bet.clientSeed,
+          nonce: bet.nonce,
+          serverSeedId: bet.serverSeedId
+        }
+      }
+    }, tx);
+
+    await MinesGameService.create(tx, gameState);
+
+    return balance;
   });
 
+  await MinesGameService.sync(gameState);
+
   res.json({
     success: true,
     data: {
-      gameState: {
-        gameId: gameState.gameId,
-        gridSize: gameState.gridSize,
-        mineCount: gameState.mineCount,
-        betAmount: gameState.betAmount,
-        revealedCells: gameState.revealedCells,
-        isCompleted: gameState.isCompleted,
-        currentMultiplier: gameState.currentMultiplier,
-        totalPayout: gameState.totalPayout
-      },
+      gameState: MinesGameService.toPublic(gameState),
       newBalance: newBalance.toString()
     }
   });
 }));
 
+/**
+ * Get the user's unfinished Mines game, if any
+ */
+router.get('/mines/active', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const gameState = await MinesGameService.findActive(req.user!.id);
+
+  res.json({
+    success: true,
+    data: {
+      gameState: gameState ? MinesGameService.toPublic(gameState) : null
+    }
+  });
+}));
+
+/**
+ * Save a Mines move and settle the game if it is over; resolves with the user's balance
+ */
+const saveMinesMove = async (
+  gameState: ActiveMinesState,
+  previousCells: number[],
+  payoutDescription: string,
+  audit: AuditContext
+): Promise<Prisma.Decimal> => {
+  const settledBalance = await prisma.$transaction(async (tx) => {
+    await MinesGameService.save(tx, gameState, previousCells);
+
+    if (!gameState.isCompleted) {
+      return null;
+    }
+
+    const { balance } = await BetSettlementService.settleBet({
+      userId: gameState.userId,
+      currency: gameState.currency,
+      stake: 0,
+      payout: gameState.isWin ? gameState.totalPayout : 0,
+      payoutDescription,
+      audit,
+      history: {
+        update: {
+          id: gameState.gameId,
+          data: {
+            gameData: {
+              gridSize: gameState.gridSize,
+              gridShape: { ...gameState.gridShape },
+              mineCount: gameState.mineCount,
+              revealedCells: gameState.revealedCells,
+              isCompleted: true,
+              currentMultiplier: gameState.currentMultiplier,
+              minePositions: gameState.minePositions,
+              houseEdge: gameState.houseEdge
+            },
+            payout: CurrencyService.round(gameState.currency, gameState.totalPayout),
+            multiplier: gameState.currentMultiplier,
+            isWin: gameState.isWin
+          }
+        }
+      }
+    }, tx);
+
+    return balance;
+  });
+
+  await MinesGameService.sync(gameState);
+
+  // A move that does not end the game moves no money, so the balance is read as it is
+  return settledBalance ?? await WalletService.getBalance(gameState.userId, gameState.currency);
+};
+
 /**
  * Reveal cell in Mines game
  */
@@ -297,98 +440,116 @@ router.post('/mines/reveal', authenticate, asyncHandler(async (req: Authenticate
   const { gameId, cellIndex } = value;
   const userId = req.user!.id;
 
-  // Get game from database
-  const gameRecord = await prisma.gameHistory.findUnique({
-    where: { id: gameId },
-    include: { user: true }
-  });
+  const gameState = await MinesGameService.get(userId, gameId);
+  const previousCells = [...gameState.revealedCells];
 
-  if (!gameRecord || gameRecord.userId !== userId) {
-    throw new AppError('Game not found', 404);
-  }
-
-  if ((gameRecord.gameData as unknown as MinesGameData).isCompleted) {
-    throw new AppError('Game is already completed', 400);
+  // Reveal the new cell
+  let revealResult;
+  try {
+    revealResult = MinesEngine.revealCell(gameState, cellIndex);
+  } catch (error) {
+    throw new AppError((error as Error).message, 400);
   }
 
-  // Reconstruct game state
-  const gameState = MinesEngine.startGame(
-    {
-      gridSize: (gameRecord.gameData as unknown as MinesGameData).gridSize,
-      mineCount: (gameRecord.gameData as unknown as MinesGameData).mineCount,
-      betAmount: parseFloat(gameRecord.betAmount.toString())
-    },
-    gameRecord.seed,
-    gameRecord.nonce
-  );
+  const newBalance = (await saveMinesMove(
+    gameState,
+    previousCells,
+    `Mines win: ${gameState.currentMultiplier}x multiplier`,
+    AuditService.contextOf(req)
+  )).toString();
 
-  // Apply previous reveals
-  for (const cell of (gameRecord.gameData as unknown as MinesGameData).revealedCells) {
-    MinesEngine.revealCell(gameState, cell);
+  // Emit update to user
+  if (socketService) {
+    socketService.emitMinesUpdate(userId, {
+      gameId,
+      revealResult,
+      gameState: MinesGameService.toPublic(gameState),
+      newBalance
+    });
   }
 
-  // Reveal the new cell
-  const revealResult = MinesEngine.revealCell(gameState, cellIndex);
-
-  let newBalance = parseFloat(req.user!.balance);
-
-  // Update game record
-  const updatedGameData = {
-    ...(gameRecord.gameData as unknown as MinesGameData),
-    revealedCells: gameState.revealedCells,
-    isCompleted: gameState.isCompleted,
-    currentMultiplier: gameState.currentMultiplier
-  };
-
-  await prisma.gameHistory.update({
-    where: { id: gameId },
+  res.json({
+    success: true,
     data: {
-      gameData: updatedGameData,
-      payout: gameState.totalPayout,
-      multiplier: gameState.currentMultiplier,
-      isWin: gameState.isWin
+      revealResult,
+      gameState: MinesGameService.toPublic(gameState),
+      newBalance
     }
   });
+}));
 
-  // If game completed with win, add winnings to balance
-  if (gameState.isCompleted && gameState.isWin && gameState.totalPayout > 0) {
-    newBalance = await updateUserBalance(
-      userId,
-      gameState.totalPayout,
-      'WIN',
-      `Mines win: ${gameState.currentMultiplier}x multiplier`
-    );
+/**
+ * Reveal a set of cells in one go, cashing out automatically if none of them is a mine
+ */
+router.post('/mines/reveal-batch', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  // Validate input
+  const { error, value } = minesBatchSchema.validate(req.body);
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const { gameId, pattern } = value;
+  const userId = req.user!.id;
+
+  const gameState = await MinesGameService.get(userId, gameId);
+  const previousCells = [...gameState.revealedCells];
+  const cells: number[] = pattern ? MinesEngine.getPattern(pattern, gameState.gridShape) : value.cells;
+
+  let batchResult;
+  try {
+    batchResult = MinesEngine.revealBatch(gameState, cells);
+  } catch (error) {
+    throw new AppError((error as Error).message, 400);
   }
 
+  const newBalance = (await saveMinesMove(
+    gameState,
+    previousCells,
+    `Mines auto cash out: ${gameState.currentMultiplier}x multiplier`,
+    AuditService.contextOf(req)
+  )).toString();
+
   // Emit update to user
   if (socketService) {
     socketService.emitMinesUpdate(userId, {
       gameId,
-      revealResult,
-      gameState: {
-        revealedCells: gameState.revealedCells,
-        isCompleted: gameState.isCompleted,
-        isWin: gameState.isWin,
-        currentMultiplier: gameState.currentMultiplier,
-        totalPayout: gameState.totalPayout
-      },
-      newBalance: newBalance.toString()
+      batchResult,
+      gameState: MinesGameService.toPublic(gameState),
+      newBalance
     });
   }
 
   res.json({
     success: true,
     data: {
-      revealResult,
-      gameState: {
-        gameId: gameState.gameId,
-        revealedCells: gameState.revealedCells,
-        isCompleted: gameState.isCompleted,
-        isWin: gameState.isWin,
-        currentMultiplier: gameState.currentMultiplier,
-        totalPayout: gameState.totalPayout
-      },
-      newBalance: newBalance.toString()
+      ...batchResult,
+      gameState: MinesGameService.toPublic(gameState),
+      newBalance
+    }
+  });
+}));
+
+/**
+ * Get the preset pick patterns for a grid
+ */
+router.get('/mines/patterns/:rows/:columns', asyncHandler(async (req: Request, res: Response) => {
+  const rows = parseInt(req.params.rows);
+  const columns = parseInt(req.params.columns);
+
+  let gridShape;
+  try {
+    gridShape = MinesEngine.getGridShape(rows * columns, { rows, columns });
+  } catch (error) {
+    throw new AppError((error as Error).message, 400);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      patterns: MinesEngine.PATTERNS.map(name => ({
+        name,
+        cells: MinesEngine.getPattern(name, gridShape)
+      }))
     }
   });
 }));
@@ -404,65 +565,30 @@ router.post('/mines/cashout', authenticate, asyncHandler(async (req: Authenticat
     throw new AppError('Game ID is required', 400);
   }
 
-  // Get game from database
-  const gameRecord = await prisma.gameHistory.findUnique({
-    where: { id: gameId }
-  });
-
-  if (!gameRecord || gameRecord.userId !== userId) {
-    throw new AppError('Game not found', 404);
-  }
-
-  if ((gameRecord.gameData as unknown as MinesGameData).isCompleted) {
-    throw new AppError('Game is already completed', 400);
-  }
-
-  // Reconstruct game state
-  const gameState = MinesEngine.startGame(
-    {
-      gridSize: (gameRecord.gameData as unknown as MinesGameData).gridSize,
-      mineCount: (gameRecord.gameData as unknown as MinesGameData).mineCount,
-      betAmount: parseFloat(gameRecord.betAmount.toString())
-    },
-    gameRecord.seed,
-    gameRecord.nonce
-  );
-
-  // Apply previous reveals
-  for (const cell of (gameRecord.gameData as unknown as MinesGameData).revealedCells) {
-    MinesEngine.revealCell(gameState, cell);
-  }
+  const gameState = await MinesGameService.get(userId, gameId);
+  const previousCells = [...gameState.revealedCells];
 
   // Cash out
-  const payout = MinesEngine.cashOut(gameState);
+  let payout: number;
+  try {
+    payout = MinesEngine.cashOut(gameState);
+  } catch (error) {
+    throw new AppError((error as Error).message, 400);
+  }
 
-  // Update balance
-  const newBalance = await updateUserBalance(
-    userId,
-    payout,
-    'WIN',
-    `Mines cash out: ${gameState.currentMultiplier}x multiplier`
+  const newBalance = await saveMinesMove(
+    gameState,
+    previousCells,
+    `Mines cash out: ${gameState.currentMultiplier}x multiplier`,
+    AuditService.contextOf(req)
   );
 
-  // Update game record
-  await prisma.gameHistory.update({
-    where: { id: gameId },
-    data: {
-      gameData: {
-        ...(gameRecord.gameData as unknown as MinesGameData),
-        isCompleted: true
-      },
-      payout,
-      multiplier: gameState.currentMultiplier,
-      isWin: true
-    }
-  });
-
   res.json({
     success: true,
     data: {
       payout,
       multiplier: gameState.currentMultiplier,
+      minePositions: gameState.minePositions,
       newBalance: newBalance.toString()
     }
   });
@@ -475,7 +601,12 @@ router.get('/mines/stats/:gridSize/:mineCount', asyncHandler(async (req: Request
   const gridSize = parseInt(req.params.gridSize);
   const mineCount = parseInt(req.params.mineCount);
 
-  if (gridSize < 9 || gridSize > 25) {
+  // Rectangular grids pass their shape as ?rows=&columns=
+  const rows = parseInt(req.query.rows as string);
+  const columns = parseInt(req.query.columns as string);
+  const gridShape = rows && columns ? { rows, columns } : undefined;
+
+  if (gridSize < 9 || gridSize > 100) {
     throw new AppError('Invalid grid size', 400);
   }
 
@@ -483,8 +614,16 @@ router.get('/mines/stats/:gridSize/:mineCount', asyncHandler(async (req: Request
     throw new AppError('Invalid mine count', 400);
   }
 
-  const stats = MinesEngine.getGameStats(gridSize, mineCount);
-  const strategy = MinesEngine.getOptimalStrategy(gridSize, mineCount);
+  // Odds reflect the current house edge
+  const { houseEdge } = await GameSettingsService.get('MINES');
+
+  let stats, strategy;
+  try {
+    stats = MinesEngine.getGameStats(gridSize, mineCount, gridShape, houseEdge);
+    strategy = MinesEngine.getOptimalStrategy(gridSize, mineCount, gridShape, houseEdge);
+  } catch (error) {
+    throw new AppError((error as Error).message, 400);
+  }
 
   res.json({
     success: true,
@@ -499,17 +638,25 @@ router.get('/mines/stats/:gridSize/:mineCount', asyncHandler(async (req: Request
  */
 router.get('/crash/current', asyncHandler(async (req: Request, res: Response) => {
   const gameState = crashEngine.getCurrentGameState();
+  const { phaseEndsAt, chainStatus } = crashScheduler.getPhaseState();
   
   res.json({
     success: true,
     data: {
+      // Rounds are paused while this is not READY, e.g. until an admin sets the next chain's salt
+      chainStatus,
       gameState: gameState ? {
         roundId: gameState.roundId,
+        phase: gameState.phase,
+        phaseEndsAt,
+        gameNumber: gameState.gameNumber,
+        previousHash: gameState.previousHash,
         startTime: gameState.startTime,
         currentMultiplier: gameState.currentMultiplier,
         isActive: gameState.isActive,
         isCrashed: gameState.isCrashed,
-        playerCount: gameState.players.size
+        playerCount: gameState.players.size,
+        players: CrashBroadcastService.getPlayers(crashEngine)
       } : null
     }
   });
@@ -518,39 +665,52 @@ router.get('/crash/current', asyncHandler(async (req: Request, res: Response) =>
 /**
  * Place bet on crash game
  */
-router.post('/crash/bet', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.post('/crash/bet', authenticate, idempotent, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const settings = await GameSettingsService.requireActive('CRASH');
+
   // Validate input
-  const { error, value } = crashGameSchema.validate(req.body);
+  const { error, value } = crashGameSchema.validate(req.body, { context: settings });
   if (error) {
     throw new AppError(error.details[0].message, 400);
   }
 
-  const { betAmount, autoCashOut } = value;
+  const { betAmount, autoCashOut, currency } = value;
   const userId = req.user!.id;
+  CurrencyService.assertPrecision(currency, betAmount);
 
-  // Check user balance
-  const currentBalance = parseFloat(req.user!.balance);
-  if (currentBalance < betAmount) {
-    throw new AppError('Insufficient balance', 400);
+  // Rounds are run by the scheduler, bets only join the one currently taking bets
+  const gameState = crashEngine.getCurrentGameState();
+  if (!gameState || gameState.phase !== 'BETTING') {
+    throw new AppError('Bets are only accepted during the betting phase', 400);
   }
 
-  // Get or start new round
-  let gameState = crashEngine.getCurrentGameState();
-  if (!gameState || !gameState.isActive) {
-    gameState = crashEngine.startNewRound();
+  if (gameState.players.has(userId)) {
+    throw new AppError('Player already placed a bet this round', 400);
   }
 
-  // Place bet
-  crashEngine.placeBet(userId, req.user!.username, { betAmount, autoCashOut });
+  // Take the stake and record the bet first, so an unfunded bet never joins the round
+  // and a stake taken is always on record for settlement or a refund
+  const audit = AuditService.contextOf(req);
+  const { roundId } = gameState;
+  const newBalance = await CrashRoundService.placeBet({ roundId, userId, currency, betAmount, autoCashOut }, audit);
 
-  // Deduct bet from balance
-  const newBalance = await updateUserBalance(userId, -betAmount, 'BET', 'Crash game bet');
+  try {
+    if (crashEngine.getCurrentGameState()?.roundId !== roundId) {
+      throw new Error('Bets are only accepted during the betting phase');
+    }
+
+    crashEngine.placeBet(userId, req.user!.username, { betAmount, currency, autoCashOut });
+  } catch (error) {
+    await CrashRoundService.refundBet(roundId, userId, audit);
+    throw new AppError((error as Error).message, 400);
+  }
 
   res.json({
     success: true,
     data: {
       roundId: gameState.roundId,
       betAmount,
+      currency,
       autoCashOut,
       newBalance: newBalance.toString()
     }
@@ -566,33 +726,8 @@ router.post('/crash/cashout', authenticate, asyncHandler(async (req: Authenticat
   try {
     const result = crashEngine.cashOut(userId);
 
-    // Add winnings to balance
-    const newBalance = await updateUserBalance(
-      userId,
-      result.payout,
-      'WIN',
-      `Crash cash out at ${result.cashOutMultiplier}x`
-    );
-
-    // Save game history
-    await prisma.gameHistory.create({
-      data: {
-        userId,
-        gameType: 'CRASH',
-        betAmount: result.payout / result.cashOutMultiplier!,
-        payout: result.payout,
-        multiplier: result.cashOutMultiplier!,
-        isWin: true,
-        gameData: {
-          roundId: result.roundId,
-          crashPoint: result.crashPoint,
-          cashedOut: result.cashedOut,
-          cashOutMultiplier: result.cashOutMultiplier
-        },
-        seed: 'crash_seed', // This would be the actual game seed
-        nonce: Date.now()
-      }
-    });
+    // CrashSettlementService credits the payout from the engine's cash out event
+    const newBalance = await CrashSettlementService.awaitCashOut(result.roundId, userId);
 
     res.json({
       success: true,
@@ -606,12 +741,84 @@ router.post('/crash/cashout', authenticate, asyncHandler(async (req: Authenticat
   }
 }));
 
+/**
+ * Get the published details of the active crash hash chain and of the one that follows it
+ */
+router.get('/crash/chain', asyncHandler(async (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: {
+      chain: CrashChainService.getChainInfo(),
+      nextChain: await CrashChainService.getNextChainInfo()
+    }
+  });
+}));
+
+/**
+ * Get past crash rounds with their revealed hashes
+ */
+router.get('/crash/rounds', asyncHandler(async (req: Request, res: Response) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+  const { rounds, total } = await CrashChainService.getRevealedRounds(page, limit);
+
+  res.json({
+    success: true,
+    data: {
+      rounds,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    }
+  });
+}));
+
+/**
+ * Walk the crash hash chain backwards from a revealed hash and recompute each crash point
+ */
+router.post('/crash/verify-chain', asyncHandler(async (req: Request, res: Response) => {
+  // Validate input
+  const { error, value } = crashChainVerifySchema.validate(req.body);
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const { hash, gameNumber, count } = value;
+  const chain = CrashChainService.getChainInfo();
+  const salt = value.salt || chain?.salt;
+  if (!salt) {
+    throw new AppError('A salt is required until the first crash hash chain is in play', 400);
+  }
+
+  const rounds = await CrashChainService.walk(hash.toLowerCase(), salt, gameNumber, Math.min(count, gameNumber));
+  const last = rounds[rounds.length - 1];
+
+  // Only a walk that reaches game 1 can be checked against the published terminating hash
+  const terminatingHash = last.gameNumber === 1 ? ProvablyFair.hashServerSeed(last.hash) : null;
+
+  res.json({
+    success: true,
+    data: {
+      salt,
+      rounds,
+      terminatingHash,
+      matchesActiveChain: terminatingHash && chain ? terminatingHash === chain.terminatingHash : null
+    }
+  });
+}));
+
 /**
  * Get crash game statistics
  */
 router.get('/crash/stats', asyncHandler(async (req: Request, res: Response) => {
-  const stats = CrashEngine.getGameStats();
-  const strategy = CrashEngine.getOptimalStrategy();
+  const { houseEdge } = await GameSettingsService.get('CRASH');
+
+  const stats = CrashEngine.getGameStats(houseEdge);
+  const strategy = CrashEngine.getOptimalStrategy(houseEdge);
 
   res.json({
     success: true,
@@ -621,20 +828,46 @@ router.get('/crash/stats', asyncHandler(async (req: Request, res: Response) => {
 
 // ===== GENERAL ROUTES =====
 
+/**
+ * Get every game's availability and bet limits
+ */
+router.get('/settings', asyncHandler(async (req: Request, res: Response) => {
+  const settings = await GameSettingsService.getAll();
+
+  res.json({
+    success: true,
+    data: { settings }
+  });
+}));
+
+/**
+ * Get the currencies bets can be placed in
+ */
+router.get('/currencies', asyncHandler(async (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: {
+      currencies: CurrencyService.getAll()
+    }
+  });
+}));
+
 /**
  * Get user's game history
  */
 router.get('/history', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-  const userId = req.user!.id;
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
-  const gameType = req.query.gameType as string;
-
-  const where: any = { userId };
-  if (gameType && ['PLINKO', 'MINES', 'CRASH'].includes(gameType.toUpperCase())) {
-    where.gameType = gameType.toUpperCase();
+  const { error, value } = historyQuerySchema.validate(req.query, { stripUnknown: true });
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
   }
 
+  const { page, limit, gameType, currency } = value;
+  const where: Prisma.GameHistoryWhereInput = {
+    userId: req.user!.id,
+    ...(gameType && { gameType }),
+    ...(currency && { currency: CurrencyService.get(currency).code })
+  };
+
   const [games, total] = await Promise.all([
     prisma.gameHistory.findMany({
       where,
@@ -644,6 +877,7 @@ router.get('/history', authenticate, asyncHandler(async (req: AuthenticatedReque
       select: {
         id: true,
         gameType: true,
+        currency: true,
         betAmount: true,
         payout: true,
         multiplier: true,
@@ -661,7 +895,9 @@ router.get('/history', authenticate, asyncHandler(async (req: AuthenticatedReque
       games: games.map(game => ({
         ...game,
         betAmount: game.betAmount.toString(),
-        payout: game.payout.toString()
+        payout: game.payout.toString(),
+        // An unfinished Mines game only shows its settings
+        gameData: MinesGameService.redactHistory(game.gameType, game.gameData)
       })),
       pagination: {
         page,
@@ -674,13 +910,14 @@ router.get('/history', authenticate, asyncHandler(async (req: AuthenticatedReque
 }));
 
 /**
- * Get game statistics summary
+ * Get game statistics summary in one currency
  */
 router.get('/stats/summary', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const userId = req.user!.id;
+  const { code: currency } = CurrencyService.get((req.query.currency as string) || CurrencyService.DEFAULT_CURRENCY);
 
   const stats = await prisma.gameHistory.aggregate({
-    where: { userId },
+    where: { userId, currency },
     _count: { id: true },
     _sum: {
       betAmount: true,
@@ -689,7 +926,7 @@ router.get('/stats/summary', authenticate, asyncHandler(async (req: Authenticate
   });
 
   const winCount = await prisma.gameHistory.count({
-    where: { userId, isWin: true }
+    where: { userId, currency, isWin: true }
   });
 
   const totalBet = parseFloat(stats._sum.betAmount?.toString() || '0');
@@ -700,6 +937,7 @@ router.get('/stats/summary', authenticate, asyncHandler(async (req: Authenticate
   res.json({
     success: true,
     data: {
+      currency,
       totalGames: stats._count.id,
       totalBet: totalBet.toString(),
       totalPayout: totalPayout.toString(),
@@ -710,4 +948,4 @@ router.get('/stats/summary', authenticate, asyncHandler(async (req: Authenticate
   });
 }));
 
-export { router as gameRoutes };
+export { router as gameRoutes, crashScheduler };
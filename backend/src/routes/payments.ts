@@ -0,0 +1,126 @@
+import express, { Request, Response } from 'express';
+import Joi from 'joi';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { idempotent } from '../middleware/idempotency';
+import { AuditService } from '../services/audit';
+import { CurrencyService } from '../services/currencies';
+import { PaymentService } from '../services/payments';
+
+const router = express.Router();
+
+// Validation schemas
+const depositSchema = Joi.object({
+  currency: Joi.string().trim().uppercase().max(10).default(CurrencyService.DEFAULT_CURRENCY),
+  amount: Joi.number().positive().max(1000000).required()
+});
+
+const withdrawalSchema = Joi.object({
+  currency: Joi.string().trim().uppercase().max(10).default(CurrencyService.DEFAULT_CURRENCY),
+  amount: Joi.number().positive().max(1000000).required(),
+  destination: Joi.string().trim().min(3).max(255).required()
+});
+
+const paymentQuerySchema = Joi.object({
+  type: Joi.string().uppercase().valid('DEPOSIT', 'WITHDRAWAL'),
+  status: Joi.string().uppercase().valid('PENDING', 'APPROVED', 'COMPLETED', 'REJECTED', 'CANCELLED', 'FAILED'),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+/**
+ * Get the user's deposits and withdrawals
+ */
+router.get('/', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { error, value } = paymentQuerySchema.validate(req.query, { stripUnknown: true });
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const { page, limit } = value;
+  const { payments, total } = await PaymentService.list({ ...value, userId: req.user!.id });
+
+  res.json({
+    success: true,
+    data: {
+      payments,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    }
+  });
+}));
+
+/**
+ * Start a deposit; the balance is credited once the payment provider confirms it
+ */
+router.post('/deposits', authenticate, idempotent, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { error, value } = depositSchema.validate(req.body);
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const payment = await PaymentService.createDeposit(
+    req.user!.id,
+    value.currency,
+    value.amount,
+    AuditService.contextOf(req)
+  );
+
+  res.status(201).json({
+    success: true,
+    message: 'Deposit started, your balance will update once it is confirmed',
+    data: { payment: PaymentService.format(payment) }
+  });
+}));
+
+/**
+ * Request a withdrawal; the amount is held until an admin approves or rejects it
+ */
+router.post('/withdrawals', authenticate, idempotent, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { error, value } = withdrawalSchema.validate(req.body);
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+
+  const payment = await PaymentService.requestWithdrawal(
+    req.user!.id,
+    value.currency,
+    value.amount,
+    value.destination,
+    AuditService.contextOf(req)
+  );
+
+  res.status(201).json({
+    success: true,
+    message: 'Withdrawal requested, it will be paid once approved',
+    data: { payment: PaymentService.format(payment) }
+  });
+}));
+
+/**
+ * Cancel a withdrawal that is still waiting for review
+ */
+router.post('/withdrawals/:paymentId/cancel', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const payment = await PaymentService.cancelWithdrawal(req.user!.id, req.params.paymentId, AuditService.contextOf(req));
+
+  res.json({
+    success: true,
+    message: 'Withdrawal cancelled',
+    data: { payment: PaymentService.format(payment) }
+  });
+}));
+
+/**
+ * Payment provider callback reporting that a payment completed or failed; the provider signs every call
+ */
+router.post('/webhooks/:provider', asyncHandler(async (req: Request, res: Response) => {
+  await PaymentService.handleWebhook(req.params.provider, req.body, req.headers, AuditService.contextOf(req));
+
+  res.json({ success: true });
+}));
+
+export { router as paymentRoutes };
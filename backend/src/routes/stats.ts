@@ -1,13 +1,21 @@
 import express, { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../server';
 import { asyncHandler } from '../middleware/errorHandler';
+import { CurrencyService } from '../services/currencies';
 
 const router = express.Router();
 
+// Amounts are only summed within one currency, CREDITS unless ?currency= says otherwise
+const currencyOf = (req: Request) =>
+  CurrencyService.get((req.query.currency as string) || CurrencyService.DEFAULT_CURRENCY).code;
+
 /**
- * Get platform statistics
+ * Get platform statistics in one currency
  */
 router.get('/platform', asyncHandler(async (req: Request, res: Response) => {
+  const currency = currencyOf(req);
+
   // Get overall platform stats
   const [
     totalUsers,
@@ -19,11 +27,12 @@ router.get('/platform', asyncHandler(async (req: Request, res: Response) => {
     prisma.user.count(),
     
     // Total games played
-    prisma.gameHistory.count(),
+    prisma.gameHistory.count({ where: { currency } }),
     
     // Game statistics by type
     prisma.gameHistory.groupBy({
       by: ['gameType'],
+      where: { currency },
       _count: { id: true },
       _sum: {
         betAmount: true,
@@ -34,6 +43,7 @@ router.get('/platform', asyncHandler(async (req: Request, res: Response) => {
     // Recent activity (last 24 hours)
     prisma.gameHistory.count({
       where: {
+        currency,
         createdAt: {
           gte: new Date(Date.now() - 24 * 60 * 60 * 1000)
         }
@@ -63,6 +73,7 @@ router.get('/platform', asyncHandler(async (req: Request, res: Response) => {
   res.json({
     success: true,
     data: {
+      currency,
       totalUsers,
       totalGames,
       totalVolume: totalVolume.toString(),
@@ -75,9 +86,10 @@ router.get('/platform', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 /**
- * Get leaderboard
+ * Get leaderboard in one currency
  */
 router.get('/leaderboard', asyncHandler(async (req: Request, res: Response) => {
+  const currency = currencyOf(req);
   const gameType = req.query.gameType as string;
   const timeframe = req.query.timeframe as string || 'all'; // all, day, week, month
   const limit = Math.min(parseInt(req.query.limit as string) || 10, 100);
@@ -99,7 +111,7 @@ router.get('/leaderboard', asyncHandler(async (req: Request, res: Response) => {
   }
 
   // Build where clause
-  const where: any = { ...timeFilter };
+  const where: any = { ...timeFilter, currency };
   if (gameType && ['PLINKO', 'MINES', 'CRASH'].includes(gameType.toUpperCase())) {
     where.gameType = gameType.toUpperCase();
   }
@@ -139,13 +151,14 @@ router.get('/leaderboard', asyncHandler(async (req: Request, res: Response) => {
   const profitLeaderboard = await prisma.$queryRaw`
     SELECT 
       u.username,
-      SUM(gh.payout - gh.bet_amount) as profit,
+      SUM(gh.payout - gh."betAmount") as profit,
       COUNT(gh.id) as total_games
     FROM game_history gh
-    JOIN users u ON gh.user_id = u.id
-    ${gameType ? `WHERE gh.game_type = ${gameType.toUpperCase()}` : ''}
-    ${timeframe !== 'all' ? `${gameType ? 'AND' : 'WHERE'} gh.created_at >= ${timeFilter.createdAt?.gte}` : ''}
-    GROUP BY gh.user_id, u.username
+    JOIN users u ON gh."userId" = u.id
+    WHERE gh.currency = ${currency}
+    ${where.gameType ? Prisma.sql`AND gh."gameType"::text = ${where.gameType}` : Prisma.empty}
+    ${timeFilter.createdAt ? Prisma.sql`AND gh."createdAt" >= ${timeFilter.createdAt.gte}` : Prisma.empty}
+    GROUP BY gh."userId", u.username
     ORDER BY profit DESC
     LIMIT ${limit}
   ` as any[];
@@ -189,6 +202,7 @@ router.get('/leaderboard', asyncHandler(async (req: Request, res: Response) => {
       profitLeaderboard: profitLeaderboardFormatted,
       biggestWins: biggestWinsFormatted,
       filters: {
+        currency,
         gameType: gameType || 'all',
         timeframe,
         limit
@@ -212,6 +226,7 @@ router.get('/live', asyncHandler(async (req: Request, res: Response) => {
     take: 50,
     select: {
       gameType: true,
+      currency: true,
       payout: true,
       multiplier: true,
       createdAt: true,
@@ -232,9 +247,9 @@ router.get('/live', asyncHandler(async (req: Request, res: Response) => {
     _count: { userId: true }
   });
 
-  // Get games played in last hour by type
+  // Get games played in last hour by type and currency
   const hourlyGameStats = await prisma.gameHistory.groupBy({
-    by: ['gameType'],
+    by: ['gameType', 'currency'],
     where: {
       createdAt: {
         gte: new Date(Date.now() - 60 * 60 * 1000)
@@ -250,6 +265,7 @@ router.get('/live', asyncHandler(async (req: Request, res: Response) => {
   const recentGamesFormatted = recentGames.map(game => ({
     gameType: game.gameType,
     username: game.user.username,
+    currency: game.currency,
     payout: game.payout.toString(),
     multiplier: game.multiplier,
     createdAt: game.createdAt
@@ -257,6 +273,7 @@ router.get('/live', asyncHandler(async (req: Request, res: Response) => {
 
   const hourlyStatsFormatted = hourlyGameStats.map(stat => ({
     gameType: stat.gameType,
+    currency: stat.currency,
     gamesPlayed: stat._count.id,
     totalVolume: stat._sum.betAmount?.toString() || '0',
     totalPayout: stat._sum.payout?.toString() || '0'
@@ -274,10 +291,11 @@ router.get('/live', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 /**
- * Get game-specific statistics
+ * Get game-specific statistics in one currency
  */
 router.get('/games/:gameType', asyncHandler(async (req: Request, res: Response) => {
   const gameType = req.params.gameType.toUpperCase();
+  const currency = currencyOf(req);
   
   if (!['PLINKO', 'MINES', 'CRASH'].includes(gameType)) {
     return res.status(400).json({
@@ -288,7 +306,7 @@ router.get('/games/:gameType', asyncHandler(async (req: Request, res: Response)
 
   // Get game statistics
   const gameStats = await prisma.gameHistory.aggregate({
-    where: { gameType: gameType as any },
+    where: { gameType: gameType as any, currency },
     _count: { id: true },
     _sum: {
       betAmount: true,
@@ -307,6 +325,7 @@ router.get('/games/:gameType', asyncHandler(async (req: Request, res: Response)
   const recentActivity = await prisma.gameHistory.aggregate({
     where: {
       gameType: gameType as any,
+      currency,
       createdAt: {
         gte: new Date(Date.now() - 24 * 60 * 60 * 1000)
       }
@@ -331,7 +350,7 @@ router.get('/games/:gameType', asyncHandler(async (req: Request, res: Response)
       END as range,
       COUNT(*) as count
     FROM game_history 
-    WHERE game_type = ${gameType}
+    WHERE "gameType"::text = ${gameType} AND currency = ${currency}
     GROUP BY range
     ORDER BY MIN(multiplier)
   ` as any[];
@@ -345,6 +364,7 @@ router.get('/games/:gameType', asyncHandler(async (req: Request, res: Response)
     success: true,
     data: {
       gameType,
+      currency,
       overall: {
         totalGames: gameStats._count.id,
         totalBet: totalBet.toString(),
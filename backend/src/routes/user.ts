@@ -1,8 +1,13 @@
 import express from 'express';
 import Joi from 'joi';
-import { prisma } from '../server';
+import { prisma, socketService } from '../server';
 import { authenticate, AuthenticatedRequest } from '../middleware/auth';
 import { AppError, asyncHandler } from '../middleware/errorHandler';
+import { idempotent } from '../middleware/idempotency';
+import { AuditService } from '../services/audit';
+import { CurrencyService } from '../services/currencies';
+import { FaucetService } from '../services/faucet';
+import { WalletService } from '../services/wallets';
 
 const router = express.Router();
 
@@ -24,7 +29,7 @@ router.get('/profile', authenticate, asyncHandler(async (req: AuthenticatedReque
       id: true,
       email: true,
       username: true,
-      balance: true,
+      role: true,
       isActive: true,
       isVerified: true,
       createdAt: true,
@@ -41,7 +46,7 @@ router.get('/profile', authenticate, asyncHandler(async (req: AuthenticatedReque
     data: {
       user: {
         ...user,
-        balance: user.balance.toString()
+        wallets: await WalletService.list(userId)
       }
     }
   });
@@ -99,7 +104,7 @@ router.put('/profile', authenticate, asyncHandler(async (req: AuthenticatedReque
       id: true,
       email: true,
       username: true,
-      balance: true,
+      role: true,
       isActive: true,
       isVerified: true,
       createdAt: true,
@@ -107,37 +112,88 @@ router.put('/profile', authenticate, asyncHandler(async (req: AuthenticatedReque
     }
   });
 
+  await AuditService.record({
+    ...AuditService.contextOf(req),
+    action: 'user.profile_updated',
+    targetUserId: userId,
+    before: Object.fromEntries(Object.keys(updateData).map(key => [key, req.user![key as keyof typeof req.user]])),
+    after: updateData
+  });
+
   res.json({
     success: true,
     message: 'Profile updated successfully',
     data: {
       user: {
         ...updatedUser,
-        balance: updatedUser.balance.toString()
+        wallets: await WalletService.list(userId)
       }
     }
   });
 }));
 
 /**
- * Get user balance
+ * Get the user's balance in one currency
  */
 router.get('/balance', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
-  const userId = req.user!.id;
+  const { code: currency } = CurrencyService.get((req.query.currency as string) || CurrencyService.DEFAULT_CURRENCY);
+  const balance = await WalletService.getBalance(req.user!.id, currency);
 
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { balance: true }
+  res.json({
+    success: true,
+    data: {
+      currency,
+      balance: balance.toString()
+    }
   });
+}));
 
-  if (!user) {
-    throw new AppError('User not found', 404);
-  }
+/**
+ * Get the user's balance in every currency
+ */
+router.get('/wallets', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
+  res.json({
+    success: true,
+    data: {
+      wallets: await WalletService.list(req.user!.id)
+    }
+  });
+}));
 
+/**
+ * Get whether the user can claim free credits now, and when they next can
+ */
+router.get('/faucet', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
   res.json({
     success: true,
     data: {
-      balance: user.balance.toString()
+      faucet: await FaucetService.getStatus(req.user!.id, req.user!.isVerified)
+    }
+  });
+}));
+
+/**
+ * Claim free credits when the balance has run low
+ */
+router.post('/faucet', authenticate, idempotent, asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
+  const userId = req.user!.id;
+  const { amount, balance, status } = await FaucetService.claim(userId, req.user!.isVerified, AuditService.contextOf(req));
+
+  socketService.emitToUser(userId, 'balance_update', {
+    currency: status.currency,
+    balance: balance.toString(),
+    change: amount.toString(),
+    reason: 'BONUS'
+  });
+
+  res.json({
+    success: true,
+    message: 'Free credits claimed',
+    data: {
+      currency: status.currency,
+      amount: amount.toString(),
+      balance: balance.toString(),
+      faucet: status
     }
   });
 }));
@@ -150,11 +206,15 @@ router.get('/transactions', authenticate, asyncHandler(async (req: Authenticated
   const page = parseInt(req.query.page as string) || 1;
   const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
   const type = req.query.type as string;
+  const currency = req.query.currency as string;
 
   const where: any = { userId };
-  if (type && ['DEPOSIT', 'WITHDRAWAL', 'BET', 'WIN', 'BONUS', 'REFUND'].includes(type.toUpperCase())) {
+  if (type && ['DEPOSIT', 'WITHDRAWAL', 'BET', 'WIN', 'BONUS', 'REFUND', 'ADJUSTMENT'].includes(type.toUpperCase())) {
     where.type = type.toUpperCase();
   }
+  if (currency) {
+    where.currency = CurrencyService.get(currency).code;
+  }
 
   const [transactions, total] = await Promise.all([
     prisma.transaction.findMany({
@@ -165,6 +225,7 @@ router.get('/transactions', authenticate, asyncHandler(async (req: Authenticated
       select: {
         id: true,
         type: true,
+        currency: true,
         amount: true,
         balanceBefore: true,
         balanceAfter: true,
@@ -195,15 +256,16 @@ router.get('/transactions', authenticate, asyncHandler(async (req: Authenticated
 }));
 
 /**
- * Get user statistics
+ * Get user statistics in one currency
  */
 router.get('/stats', authenticate, asyncHandler(async (req: AuthenticatedRequest, res: express.Response) => {
   const userId = req.user!.id;
+  const { code: currency } = CurrencyService.get((req.query.currency as string) || CurrencyService.DEFAULT_CURRENCY);
 
   // Game statistics
   const gameStats = await prisma.gameHistory.groupBy({
     by: ['gameType'],
-    where: { userId },
+    where: { userId, currency },
     _count: { id: true },
     _sum: {
       betAmount: true,
@@ -214,13 +276,13 @@ router.get('/stats', authenticate, asyncHandler(async (req: AuthenticatedRequest
   // Win statistics
   const winStats = await prisma.gameHistory.groupBy({
     by: ['gameType'],
-    where: { userId, isWin: true },
+    where: { userId, currency, isWin: true },
     _count: { id: true }
   });
 
   // Overall statistics
   const overallStats = await prisma.gameHistory.aggregate({
-    where: { userId },
+    where: { userId, currency },
     _count: { id: true },
     _sum: {
       betAmount: true,
@@ -240,6 +302,7 @@ router.get('/stats', authenticate, asyncHandler(async (req: AuthenticatedRequest
   const recentActivity = await prisma.gameHistory.aggregate({
     where: {
       userId,
+      currency,
       createdAt: { gte: sevenDaysAgo }
     },
     _count: { id: true },
@@ -274,6 +337,7 @@ router.get('/stats', authenticate, asyncHandler(async (req: AuthenticatedRequest
   res.json({
     success: true,
     data: {
+      currency,
       overall: {
         totalGames: overallStats._count.id,
         totalBet: totalBet.toString(),
@@ -348,6 +412,13 @@ router.delete('/sessions/:sessionId', authenticate, asyncHandler(async (req: Aut
     where: { id: sessionId }
   });
 
+  await AuditService.record({
+    ...AuditService.contextOf(req),
+    action: 'auth.session_deleted',
+    targetUserId: userId,
+    entity: `Session:${sessionId}`
+  });
+
   res.json({
     success: true,
     message: 'Session deleted successfully'
@@ -371,6 +442,14 @@ router.post('/deactivate', authenticate, asyncHandler(async (req: AuthenticatedR
     where: { userId }
   });
 
+  await AuditService.record({
+    ...AuditService.contextOf(req),
+    action: 'user.deactivated',
+    targetUserId: userId,
+    before: { isActive: true },
+    after: { isActive: false }
+  });
+
   res.json({
     success: true,
     message: 'Account deactivated successfully'
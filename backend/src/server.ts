@@ -12,10 +12,24 @@ import { PrismaClient } from '@prisma/client';
 import { RedisClient } from './services/redis';
 import { errorHandler } from './middleware/errorHandler';
 import { authRoutes } from './routes/auth';
-import { gameRoutes } from './routes/games';
+import { gameRoutes, crashScheduler } from './routes/games';
 import { userRoutes } from './routes/user';
 import { statsRoutes } from './routes/stats';
+import { fairnessRoutes } from './routes/fairness';
+import { adminRoutes } from './routes/admin';
+import { paymentRoutes } from './routes/payments';
 import { SocketService } from './services/socket';
+import { CrashChainService } from './services/crashChain';
+import { CrashRoundService } from './services/crashRounds';
+import { CrashSettlementService } from './services/crashSettlement';
+import { RoleService } from './services/roles';
+import { PlinkoEngine } from './services/games/PlinkoEngine';
+import { PlinkoTableService } from './services/plinkoTables';
+import { GameSettingsService } from './services/gameSettings';
+import { CurrencyService } from './services/currencies';
+import { LedgerService } from './services/ledger';
+import { LedgerReconciliationJob } from './services/ledgerReconciliation';
+import { PaymentService } from './services/payments';
 
 // Load environment variables
 dotenv.config();
@@ -43,6 +57,9 @@ const io = new Server(server, {
 // Initialize Socket Service
 export const socketService = new SocketService(io);
 
+// Checks cached balances against the ledger in the background
+const ledgerReconciliation = new LedgerReconciliationJob();
+
 // Security middleware
 app.use(helmet({
   crossOriginResourcePolicy: { policy: "cross-origin" }
@@ -53,7 +70,8 @@ app.use(cors({
   origin: process.env.FRONTEND_URL || "http://localhost:3000",
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'x-csrf-token']
+  allowedHeaders: ['Content-Type', 'Authorization', 'x-csrf-token', 'Idempotency-Key'],
+  exposedHeaders: ['Idempotent-Replayed']
 }));
 
 // Rate limiting
@@ -117,7 +135,9 @@ app.get('/', (req, res) => {
       auth: '/api/auth',
       games: '/api/games',
       user: '/api/user',
-      stats: '/api/stats'
+      stats: '/api/stats',
+      fairness: '/api/fairness',
+      payments: '/api/payments'
     }
   });
 });
@@ -127,6 +147,9 @@ app.use('/api/auth', authRoutes);
 app.use('/api/games', gameRoutes);
 app.use('/api/user', userRoutes);
 app.use('/api/stats', statsRoutes);
+app.use('/api/fairness', fairnessRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/payments', paymentRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -143,6 +166,8 @@ app.use(errorHandler);
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('Received SIGINT, shutting down gracefully...');
+  crashScheduler.stop();
+  ledgerReconciliation.stop();
   
   server.close(async () => {
     console.log('HTTP server closed');
@@ -164,6 +189,8 @@ process.on('SIGINT', async () => {
 
 process.on('SIGTERM', async () => {
   console.log('Received SIGTERM, shutting down gracefully...');
+  crashScheduler.stop();
+  ledgerReconciliation.stop();
   
   server.close(async () => {
     try {
@@ -182,6 +209,17 @@ const PORT = process.env.PORT || 3001;
 
 async function startServer() {
   try {
+    // Refuse to start with a Plinko payout table off the target return
+    PlinkoEngine.validateTables();
+
+    // Refuse to start with a misconfigured test currency
+    const currencies = CurrencyService.load();
+    console.log(`Currencies: ${currencies.map(currency => currency.code).join(', ')}`);
+
+    // Refuse to start with an unknown payment provider
+    const paymentProvider = PaymentService.initialize();
+    console.log(`Payment provider: ${paymentProvider.name}`);
+
     // Test database connection
     await prisma.$connect();
     console.log('Database connected successfully');
@@ -189,6 +227,45 @@ async function startServer() {
     // Test Redis connection
     await redis.connect();
     console.log('Redis connected successfully');
+
+    // Apply house edges, bet limits and availability from the game settings
+    await GameSettingsService.load();
+    console.log('Game settings loaded');
+
+    // Put operator-defined Plinko tables in play
+    const customTables = await PlinkoTableService.load();
+    if (customTables > 0) {
+      console.log(`Loaded ${customTables} custom Plinko table(s)`);
+    }
+
+    // Give the operator accounts in ADMIN_EMAILS the ADMIN role
+    const promotedAdmins = await RoleService.promoteConfiguredAdmins();
+    if (promotedAdmins > 0) {
+      console.log(`Promoted ${promotedAdmins} account(s) from ADMIN_EMAILS to admin`);
+    }
+
+    // Open each currency's system accounts before any balance can change
+    await LedgerService.initialize();
+    console.log('Ledger initialized');
+
+    // Load or generate the crash hash chain before rounds can start
+    await CrashChainService.initialize();
+    console.log('Crash hash chain loaded');
+
+    // Refund bets left in rounds interrupted by the last shutdown
+    const abortedRounds = await CrashRoundService.recoverUnfinishedRounds();
+    if (abortedRounds > 0) {
+      console.log(`Closed ${abortedRounds} unfinished crash round(s)`);
+    }
+
+    // Pay cash outs whose credit failed before the last shutdown
+    const paidCashOuts = await CrashSettlementService.settleUnpaidCashOuts();
+    if (paidCashOuts > 0) {
+      console.log(`Credited ${paidCashOuts} unpaid crash cash out(s)`);
+    }
+
+    crashScheduler.start();
+    ledgerReconciliation.start();
     
     server.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
@@ -0,0 +1,281 @@
+import { Prisma } from '@prisma/client';
+import { BetHistoryInput, BetSettlementService } from '../betSettlement';
+import { CurrencyService } from '../currencies';
+import { LedgerService } from '../ledger';
+
+type Row = Record<string, any>;
+
+/**
+ * Just enough of the database for bet settlement: the tables it writes, row locks as plain
+ * reads, and transactions that put every table back when their callback throws
+ */
+const mockDb: Record<string, Row[]> = {
+  wallets: [],
+  transactions: [],
+  gameHistory: [],
+  ledgerAccounts: [],
+  ledgerJournals: [],
+  ledgerEntries: [],
+  auditLogs: []
+};
+
+function mockTable(name: string) {
+  const rows = () => mockDb[name];
+  const insert = (data: Row) => {
+    const row = { id: `${name}-${rows().length + 1}`, ...data };
+    rows().push(row);
+    return row;
+  };
+  const matches = (row: Row, where: Row) => Object.entries(where).every(([field, value]) => row[field] === value);
+
+  return {
+    create: jest.fn(async ({ data }: { data: Row }) => insert(data)),
+    createMany: jest.fn(async ({ data }: { data: Row[] }) => {
+      const created = data.filter(row => !rows().some(existing =>
+        existing.userId === row.userId && existing.currency === row.currency
+      ));
+      created.forEach(row => insert({ balance: new Prisma.Decimal(0), heldBalance: new Prisma.Decimal(0), ...row }));
+      return { count: created.length };
+    }),
+    findUnique: jest.fn(async ({ where }: { where: Row }) => rows().find(row => matches(row, where)) ?? null),
+    update: jest.fn(async ({ where, data }: { where: Row; data: Row }) =>
+      Object.assign(rows().find(row => matches(row, where))!, data)
+    ),
+    upsert: jest.fn(async ({ where, create }: { where: Row; create: Row }) =>
+      rows().find(row => matches(row, where)) ?? insert(create)
+    )
+  };
+}
+
+const mockClient = {
+  wallet: mockTable('wallets'),
+  transaction: mockTable('transactions'),
+  gameHistory: mockTable('gameHistory'),
+  ledgerAccount: mockTable('ledgerAccounts'),
+  auditLog: mockTable('auditLogs'),
+  ledgerJournal: {
+    create: jest.fn(async ({ data: { entries, ...journal } }: { data: Row }) => {
+      const row = { id: `ledgerJournals-${mockDb.ledgerJournals.length + 1}`, ...journal };
+      mockDb.ledgerJournals.push(row);
+      for (const entry of entries.create) {
+        mockDb.ledgerEntries.push({ journalId: row.id, ...entry });
+      }
+      return row;
+    })
+  },
+  $queryRaw: jest.fn(async (query: TemplateStringsArray, ...values: string[]) => {
+    const sql = query.join('?');
+
+    if (sql.includes('FROM "wallets"')) {
+      const [userId, currency] = values;
+      return mockDb.wallets.filter(row => row.userId === userId && row.currency === currency);
+    }
+
+    if (sql.includes('FROM "game_history"')) {
+      return mockDb.gameHistory.filter(row => row.id === values[0]);
+    }
+
+    throw new Error(`Unexpected query: ${sql}`);
+  }),
+  $transaction: jest.fn(async (callback: (tx: unknown) => Promise<unknown>): Promise<unknown> => {
+    const snapshot = Object.fromEntries(
+      Object.entries(mockDb).map(([name, rows]) => [name, rows.map(row => ({ ...row }))])
+    );
+
+    try {
+      return await callback(mockClient);
+    } catch (error) {
+      Object.assign(mockDb, snapshot);
+      throw error;
+    }
+  })
+};
+
+// Read lazily: the mocked module loads before this file's constants are set
+jest.mock('../../server', () => ({
+  get prisma() {
+    return mockClient;
+  }
+}));
+
+const USER_ID = 'user-1';
+const CURRENCY = 'CREDITS';
+
+function giveBalance(balance: number): void {
+  mockDb.wallets.push({
+    id: 'wallet-1',
+    userId: USER_ID,
+    currency: CURRENCY,
+    balance: new Prisma.Decimal(balance),
+    heldBalance: new Prisma.Decimal(0)
+  });
+}
+
+function bet(betAmount: number, payout: number): BetHistoryInput {
+  return {
+    gameType: 'PLINKO',
+    betAmount,
+    payout,
+    multiplier: payout / betAmount,
+    isWin: payout > betAmount,
+    gameData: {},
+    seed: 'server-seed',
+    clientSeed: 'client-seed',
+    nonce: 1
+  };
+}
+
+function walletBalance(): string {
+  return mockDb.wallets[0].balance.toString();
+}
+
+/**
+ * The wallet's ledger balance, and the sum of every entry, which is zero when each journal balances
+ */
+function ledgerTotals(): { wallet: string; all: string } {
+  const sum = (entries: Row[]) =>
+    entries.reduce((total, entry) => total.plus(entry.amount), new Prisma.Decimal(0)).toString();
+  const account = mockDb.ledgerAccounts.find(row => row.walletId === 'wallet-1');
+
+  return {
+    wallet: sum(mockDb.ledgerEntries.filter(entry => entry.accountId === account?.id)),
+    all: sum(mockDb.ledgerEntries)
+  };
+}
+
+describe('BetSettlementService', () => {
+  beforeAll(async () => {
+    CurrencyService.load();
+    await LedgerService.initialize();
+  });
+
+  beforeEach(() => {
+    for (const name of Object.keys(mockDb)) {
+      // System accounts are opened once, the way they are at startup
+      if (name !== 'ledgerAccounts') {
+        mockDb[name] = [];
+      }
+    }
+    mockDb.ledgerAccounts = mockDb.ledgerAccounts.filter(account => account.type !== 'USER_WALLET');
+  });
+
+  describe('settleBet', () => {
+    it('takes the stake, credits the payout and links both to the game history', async () => {
+      giveBalance(100);
+
+      const { history, balance } = await BetSettlementService.settleBet({
+        userId: USER_ID,
+        currency: CURRENCY,
+        stake: 10,
+        payout: 25,
+        history: { create: bet(10, 25) }
+      });
+
+      expect(balance.toString()).toBe('115');
+      expect(walletBalance()).toBe('115');
+      expect(mockDb.transactions.map(({ type, amount, gameHistoryId }) => [type, amount.toString(), gameHistoryId]))
+        .toEqual([['BET', '10', history.id], ['WIN', '25', history.id]]);
+    });
+
+    it('keeps the ledger in step with the wallet', async () => {
+      giveBalance(100);
+
+      await BetSettlementService.settleBet({
+        userId: USER_ID,
+        currency: CURRENCY,
+        stake: 10,
+        payout: 0,
+        history: { create: bet(10, 0) }
+      });
+
+      // The wallet's account opens with its balance from before the ledger, then takes the stake
+      expect(ledgerTotals()).toEqual({ wallet: '90', all: '0' });
+      expect(mockDb.ledgerJournals.map(journal => journal.type ?? null)).toEqual([null, 'BET']);
+    });
+
+    it('rounds amounts to the currency before moving them', async () => {
+      giveBalance(100);
+
+      const { balance } = await BetSettlementService.settleBet({
+        userId: USER_ID,
+        currency: CURRENCY,
+        stake: 1.005,
+        payout: 2.004,
+        history: { create: bet(1.005, 2.004) }
+      });
+
+      expect(balance.toString()).toBe('100.99');
+      expect(mockDb.gameHistory[0].betAmount.toString()).toBe('1.01');
+    });
+
+    it('writes nothing when the balance cannot cover the stake', async () => {
+      giveBalance(5);
+
+      await expect(BetSettlementService.settleBet({
+        userId: USER_ID,
+        currency: CURRENCY,
+        stake: 10,
+        payout: 0,
+        history: { create: bet(10, 0) }
+      })).rejects.toMatchObject({ statusCode: 400, message: 'Insufficient balance' });
+
+      expect(walletBalance()).toBe('5');
+      expect(mockDb.gameHistory).toHaveLength(0);
+      expect(mockDb.transactions).toHaveLength(0);
+      expect(mockDb.ledgerEntries).toHaveLength(0);
+    });
+
+    it('refuses to settle another user\'s game', async () => {
+      giveBalance(100);
+      mockDb.gameHistory.push({ id: 'game-1', userId: 'user-2' });
+
+      await expect(BetSettlementService.settleBet({
+        userId: USER_ID,
+        currency: CURRENCY,
+        stake: 0,
+        payout: 50,
+        history: { update: { id: 'game-1', data: { payout: 50 } } }
+      })).rejects.toMatchObject({ statusCode: 404 });
+
+      expect(walletBalance()).toBe('100');
+    });
+  });
+
+  describe('settleBatch', () => {
+    it('posts each ball\'s stake and payout against its own history, stakes first', async () => {
+      giveBalance(100);
+
+      const { histories, balance } = await BetSettlementService.settleBatch({
+        userId: USER_ID,
+        currency: CURRENCY,
+        histories: [bet(10, 30), bet(10, 0), bet(10, 5)]
+      });
+
+      expect(balance.toString()).toBe('105');
+      expect(mockDb.transactions.map(({ type, amount, gameHistoryId }) => [type, amount.toString(), gameHistoryId]))
+        .toEqual([
+          ['BET', '10', histories[0].id],
+          ['BET', '10', histories[1].id],
+          ['BET', '10', histories[2].id],
+          ['WIN', '30', histories[0].id],
+          ['WIN', '5', histories[2].id]
+        ]);
+      expect(ledgerTotals()).toEqual({ wallet: '105', all: '0' });
+    });
+
+    it('does not let one ball\'s winnings fund the next ball, and rolls the whole batch back', async () => {
+      giveBalance(10);
+
+      await expect(BetSettlementService.settleBatch({
+        userId: USER_ID,
+        currency: CURRENCY,
+        histories: [bet(10, 30), bet(10, 0)]
+      })).rejects.toMatchObject({ statusCode: 400 });
+
+      expect(walletBalance()).toBe('10');
+      expect(mockDb.gameHistory).toHaveLength(0);
+      expect(mockDb.transactions).toHaveLength(0);
+      expect(mockDb.ledgerEntries).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { EventEmitter } from 'events';
+import { Prisma } from '@prisma/client';
+import { prisma, socketService } from '../../server';
+import { BetSettlementService } from '../betSettlement';
+import { CrashSettlementService } from '../crashSettlement';
+import { CrashEngine } from '../games/CrashEngine';
+
+jest.mock('../../server', () => {
+  const client = {
+    crashBet: { findMany: jest.fn(), findUnique: jest.fn(), update: jest.fn() },
+    $transaction: jest.fn()
+  };
+  client.$transaction.mockImplementation(async (callback: (tx: unknown) => Promise<unknown>) => callback(client));
+
+  return { prisma: client, socketService: { emitToUser: jest.fn() } };
+});
+
+// Crash writes run one after another in production; here they simply run
+jest.mock('../crashRounds', () => ({
+  CrashRoundService: { enqueue: jest.fn((task: () => Promise<unknown>) => task()) }
+}));
+
+const crashBet = prisma.crashBet as unknown as Record<'findMany' | 'findUnique' | 'update', jest.Mock>;
+
+function round(ended: boolean) {
+  return {
+    id: 'round-1',
+    chainId: 'chain-1',
+    gameNumber: 42,
+    previousHash: 'previous-hash',
+    salt: 'salt',
+    houseEdge: 0.01,
+    crashPoint: ended ? 3.21 : null,
+    endedAt: ended ? new Date() : null
+  };
+}
+
+function unpaidBet(ended: boolean) {
+  return {
+    id: 'bet-1',
+    roundId: 'round-1',
+    userId: 'user-1',
+    currency: 'CREDITS',
+    betAmount: new Prisma.Decimal(10),
+    autoCashOut: 2,
+    cashedOut: true,
+    cashOutMultiplier: 2,
+    payout: new Prisma.Decimal(20),
+    settledAt: null,
+    round: round(ended)
+  };
+}
+
+describe('CrashSettlementService', () => {
+  let settleBet: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    settleBet = jest.spyOn(BetSettlementService, 'settleBet').mockResolvedValue({
+      history: { id: 'history-1' },
+      balance: new Prisma.Decimal(120)
+    } as Awaited<ReturnType<typeof BetSettlementService.settleBet>>);
+  });
+
+  describe('settleUnpaidCashOuts', () => {
+    it('credits a cash out left unpaid at shutdown with its round\'s crash point', async () => {
+      const bet = unpaidBet(true);
+      crashBet.findMany.mockResolvedValue([bet]);
+      crashBet.findUnique.mockResolvedValue(bet);
+
+      await expect(CrashSettlementService.settleUnpaidCashOuts()).resolves.toBe(1);
+
+      const [{ payout, history }] = settleBet.mock.calls[0];
+      expect(payout).toBe(20);
+      expect(history.create).toMatchObject({
+        multiplier: 2,
+        isWin: true,
+        gameData: { roundId: 'round-1', cashOutMultiplier: 2, autoCashOut: true, crashPoint: 3.21, houseEdge: 0.01 }
+      });
+      expect(crashBet.update).toHaveBeenCalledWith({
+        where: { id: 'bet-1' },
+        data: expect.objectContaining({ gameHistoryId: 'history-1', settledAt: expect.any(Date) })
+      });
+      expect(socketService.emitToUser).toHaveBeenCalledWith('user-1', 'balance_update', expect.objectContaining({
+        balance: '120',
+        reason: 'CRASH_CASH_OUT'
+      }));
+    });
+
+    it('leaves a cash out whose credit fails unsettled', async () => {
+      const bet = unpaidBet(true);
+      crashBet.findMany.mockResolvedValue([bet]);
+      crashBet.findUnique.mockResolvedValue(bet);
+      settleBet.mockRejectedValue(new Error('Database unavailable'));
+      const logged = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(CrashSettlementService.settleUnpaidCashOuts()).resolves.toBe(0);
+      expect(crashBet.update).not.toHaveBeenCalled();
+      expect(logged).toHaveBeenCalled();
+
+      logged.mockRestore();
+    });
+  });
+
+  it('leaves the crash point of a cash out during a running round to the round end', async () => {
+    const engine = new EventEmitter() as CrashEngine;
+    CrashSettlementService.attach(engine);
+    crashBet.findUnique.mockResolvedValue(unpaidBet(false));
+
+    engine.emit('playerCashedOut', { roundId: 'round-1', userId: 'user-1', username: 'alice', multiplier: 1.5, payout: 15 });
+
+    await expect(CrashSettlementService.awaitCashOut('round-1', 'user-1')).resolves.toEqual(new Prisma.Decimal(120));
+    expect(settleBet.mock.calls[0][0].history.create.gameData).not.toHaveProperty('crashPoint');
+  });
+});
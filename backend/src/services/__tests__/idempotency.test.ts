@@ -0,0 +1,130 @@
+import { Prisma } from '@prisma/client';
+import { IdempotencyService } from '../idempotency';
+
+interface KeyRecord {
+  id: string;
+  userId: string;
+  key: string;
+  requestHash: string;
+  statusCode: number | null;
+  response: unknown;
+  completedAt: Date | null;
+  createdAt: Date;
+}
+
+const mockKeys: KeyRecord[] = [];
+const mockCache = new Map<string, string>();
+
+const mockFindKey = (where: { userId_key: { userId: string; key: string } }) =>
+  mockKeys.find(record => record.userId === where.userId_key.userId && record.key === where.userId_key.key);
+
+jest.mock('../../server', () => ({
+  prisma: {
+    idempotencyKey: {
+      findUnique: jest.fn(async ({ where }) => mockFindKey(where) ?? null),
+      create: jest.fn(async ({ data }) => {
+        if (mockKeys.some(record => record.userId === data.userId && record.key === data.key)) {
+          throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+        }
+
+        const record: KeyRecord = {
+          id: `key-${mockKeys.length + 1}`,
+          statusCode: null,
+          response: null,
+          completedAt: null,
+          createdAt: new Date(),
+          ...data
+        };
+        mockKeys.push(record);
+        return record;
+      }),
+      update: jest.fn(async ({ where, data }) => Object.assign(mockFindKey(where)!, data)),
+      delete: jest.fn(async ({ where }) => mockKeys.splice(mockKeys.findIndex(record => record.id === where.id), 1)[0]),
+      deleteMany: jest.fn(async ({ where }) => {
+        const index = mockKeys.findIndex(record =>
+          record.userId === where.userId && record.key === where.key && record.completedAt === null
+        );
+        if (index >= 0) {
+          mockKeys.splice(index, 1);
+        }
+        return { count: index >= 0 ? 1 : 0 };
+      })
+    }
+  },
+  redis: {
+    get: jest.fn(async (key: string) => mockCache.get(key) ?? null),
+    set: jest.fn(async (key: string, value: string) => { mockCache.set(key, value); }),
+    del: jest.fn(async (key: string) => { mockCache.delete(key); })
+  }
+}));
+
+const USER_ID = 'user-1';
+const KEY = 'bet-1';
+
+describe('IdempotencyService', () => {
+  const hash = IdempotencyService.hashRequest('POST', '/api/games/plinko/play', { betAmount: 10 });
+  const otherHash = IdempotencyService.hashRequest('POST', '/api/games/plinko/play', { betAmount: 20 });
+  const stored = { statusCode: 200, body: { success: true, data: { payout: 25 } } };
+
+  beforeEach(() => {
+    mockKeys.length = 0;
+    mockCache.clear();
+  });
+
+  it('claims a new key', async () => {
+    await expect(IdempotencyService.begin(USER_ID, KEY, hash)).resolves.toBeNull();
+    expect(mockKeys).toHaveLength(1);
+  });
+
+  it('replays the stored response when a completed request is retried', async () => {
+    await IdempotencyService.begin(USER_ID, KEY, hash);
+    await IdempotencyService.complete(USER_ID, KEY, stored);
+
+    await expect(IdempotencyService.begin(USER_ID, KEY, hash)).resolves.toEqual(stored);
+    expect(mockKeys).toHaveLength(1);
+  });
+
+  it('replays from the database when the cached key is gone', async () => {
+    await IdempotencyService.begin(USER_ID, KEY, hash);
+    await IdempotencyService.complete(USER_ID, KEY, stored);
+    mockCache.clear();
+
+    await expect(IdempotencyService.begin(USER_ID, KEY, hash)).resolves.toEqual(stored);
+  });
+
+  it('answers 409 while the first request is still being processed', async () => {
+    await IdempotencyService.begin(USER_ID, KEY, hash);
+
+    await expect(IdempotencyService.begin(USER_ID, KEY, hash)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('answers 422 when the key is reused for a different request', async () => {
+    await IdempotencyService.begin(USER_ID, KEY, hash);
+    await IdempotencyService.complete(USER_ID, KEY, stored);
+
+    await expect(IdempotencyService.begin(USER_ID, KEY, otherHash)).rejects.toMatchObject({ statusCode: 422 });
+  });
+
+  it('treats a key claimed by a concurrent request as in progress', async () => {
+    const [first, second] = await Promise.allSettled([
+      IdempotencyService.begin(USER_ID, KEY, hash),
+      IdempotencyService.begin(USER_ID, KEY, hash)
+    ]);
+
+    expect(first).toEqual({ status: 'fulfilled', value: null });
+    expect(second).toMatchObject({ status: 'rejected', reason: { statusCode: 409 } });
+  });
+
+  it('lets a released key be claimed again', async () => {
+    await IdempotencyService.begin(USER_ID, KEY, hash);
+    await IdempotencyService.release(USER_ID, KEY);
+
+    await expect(IdempotencyService.begin(USER_ID, KEY, otherHash)).resolves.toBeNull();
+  });
+
+  it('keeps keys of different users apart', async () => {
+    await IdempotencyService.begin(USER_ID, KEY, hash);
+
+    await expect(IdempotencyService.begin('user-2', KEY, otherHash)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import { PaymentType, Prisma, TransactionType } from '@prisma/client';
+import { Request } from 'express';
+import { prisma } from '../server';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+export type AuditAction =
+  | `balance.${Lowercase<TransactionType>}`
+  | `payment.${Lowercase<PaymentType>}_${'requested' | 'approved' | 'rejected' | 'cancelled' | 'completed' | 'failed'}`
+  | 'auth.register'
+  | 'auth.login'
+  | 'auth.login_failed'
+  | 'auth.logout'
+  | 'auth.logout_all'
+  | 'auth.password_changed'
+  | 'auth.session_deleted'
+  | 'user.profile_updated'
+  | 'user.deactivated'
+  | 'admin.user_deactivated'
+  | 'admin.user_reactivated'
+  | 'admin.user_role_changed'
+  | 'admin.game_settings_updated'
+  | 'admin.plinko_table_saved'
+  | 'admin.plinko_table_removed'
+  | 'admin.crash_chain_salt_fixed';
+
+/**
+ * Who made a change and from where; routes build it with `AuditService.contextOf`
+ */
+export interface AuditContext {
+  actorId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface AuditEntry extends AuditContext {
+  action: AuditAction;
+  targetUserId?: string | null;
+  entity?: string | null;
+  before?: Prisma.InputJsonValue;
+  after?: Prisma.InputJsonValue;
+}
+
+export interface AuditFilters {
+  action?: string;
+  userId?: string;
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Append-only audit trail; entries can be recorded and read but never changed
+ */
+export class AuditService {
+  private static readonly MAX_USER_AGENT_LENGTH = 512;
+
+  /**
+   * The acting user, IP address and user agent of a request
+   */
+  public static contextOf(req: Request | AuthenticatedRequest): AuditContext {
+    return {
+      actorId: (req as AuthenticatedRequest).user?.id ?? null,
+      ipAddress: req.ip ?? null,
+      userAgent: req.get('user-agent')?.slice(0, this.MAX_USER_AGENT_LENGTH) ?? null
+    };
+  }
+
+  /**
+   * Record an entry; pass `tx` so the entry commits or rolls back with the change it describes
+   */
+  public static async record(entry: AuditEntry, tx?: Prisma.TransactionClient): Promise<void> {
+    const client = tx ?? prisma;
+
+    await client.auditLog.create({
+      data: {
+        action: entry.action,
+        actorId: entry.actorId ?? null,
+        targetUserId: entry.targetUserId ?? null,
+        entity: entry.entity ?? null,
+        before: entry.before,
+        after: entry.after,
+        ipAddress: entry.ipAddress ?? null,
+        userAgent: entry.userAgent ?? null
+      }
+    });
+  }
+
+  /**
+   * Entries newest first; `action` matches a prefix such as `balance` or `admin.user`,
+   * and `userId` matches either the actor or the target
+   */
+  public static async list(filters: AuditFilters) {
+    const { action, userId, from, to, page, limit } = filters;
+
+    const where: Prisma.AuditLogWhereInput = {
+      ...(action && { action: { startsWith: action } }),
+      ...(userId && { OR: [{ actorId: userId }, { targetUserId: userId }] }),
+      ...((from || to) && { createdAt: { gte: from, lte: to } })
+    };
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          actor: { select: { id: true, username: true } },
+          targetUser: { select: { id: true, username: true } }
+        }
+      }),
+      prisma.auditLog.count({ where })
+    ]);
+
+    return { entries, total };
+  }
+}
@@ -0,0 +1,256 @@
+import { GameHistory, GameType, Prisma, TransactionType } from '@prisma/client';
+import { prisma } from '../server';
+import { AppError } from '../middleware/errorHandler';
+import { AuditContext, AuditService } from './audit';
+import { LedgerService } from './ledger';
+import { CurrencyService } from './currencies';
+import { WalletService } from './wallets';
+
+export interface BetHistoryInput {
+  id?: string;
+  gameType: GameType;
+  betAmount: number | Prisma.Decimal;
+  payout: number;
+  multiplier: number;
+  isWin: boolean;
+  gameData: Prisma.InputJsonValue;
+  seed: string;
+  clientSeed: string | null;
+  nonce: number;
+  serverSeedId?: string | null;
+}
+
+export interface BetHistoryUpdate {
+  id: string;
+  data: Prisma.GameHistoryUpdateInput;
+}
+
+export interface SettleBetParams {
+  userId: string;
+  // Wallet the stake comes from and the payout goes to; recorded on the game history
+  currency: string;
+  // Taken from the balance; 0 when the stake was already taken
+  stake: number | Prisma.Decimal;
+  // Credited to the balance; 0 for a loss or a game still in progress
+  payout: number | Prisma.Decimal;
+  stakeDescription?: string;
+  payoutDescription?: string;
+  history: { create: BetHistoryInput } | { update: BetHistoryUpdate };
+  audit?: AuditContext;
+}
+
+export interface SettledBet {
+  history: GameHistory;
+  balance: Prisma.Decimal;
+}
+
+export interface SettleBatchParams {
+  userId: string;
+  currency: string;
+  // Used for every bet in the batch; each bet's stake and payout come from its history
+  stakeDescription?: string;
+  payoutDescription?: string;
+  histories: BetHistoryInput[];
+  audit?: AuditContext;
+}
+
+export interface SettledBatch {
+  histories: GameHistory[];
+  balance: Prisma.Decimal;
+}
+
+/**
+ * Moves bet money and records the game in one database transaction,
+ * with the user's wallet row locked for the duration
+ */
+export class BetSettlementService {
+  /**
+   * Take the stake, credit the payout and write the game history together;
+   * runs inside `tx` when given so callers can add their own writes
+   */
+  public static async settleBet(params: SettleBetParams, tx?: Prisma.TransactionClient): Promise<SettledBet> {
+    if (tx) {
+      return await this.settle(tx, params);
+    }
+
+    return await prisma.$transaction(async (client) => this.settle(client, params));
+  }
+
+  /**
+   * Record several bets together, each with its own stake and payout transactions,
+   * so the batch succeeds or fails as a whole
+   */
+  public static async settleBatch(params: SettleBatchParams, tx?: Prisma.TransactionClient): Promise<SettledBatch> {
+    if (tx) {
+      return await this.settleMany(tx, params);
+    }
+
+    return await prisma.$transaction(async (client) => this.settleMany(client, params));
+  }
+
+  /**
+   * Change a user's balance in one currency, recording the transaction, its ledger journal
+   * and its audit entry; locks the wallet row first and rounds to the currency's smallest unit
+   */
+  public static async adjustBalance(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    currency: string,
+    amount: number | Prisma.Decimal,
+    type: TransactionType,
+    description?: string,
+    gameHistoryId?: string,
+    audit?: AuditContext
+  ): Promise<Prisma.Decimal> {
+    const change = CurrencyService.round(currency, amount);
+    const wallet = await WalletService.lock(tx, userId, currency);
+    const balanceBefore = wallet.balance;
+    const balanceAfter = balanceBefore.plus(change);
+
+    // A debit cannot dip into the part of the balance held for pending withdrawals
+    if (balanceAfter.isNegative() || (change.isNegative() && balanceAfter.lessThan(wallet.heldBalance))) {
+      throw new AppError('Insufficient balance', 400);
+    }
+
+    await tx.wallet.update({
+      where: { id: wallet.id },
+      data: { balance: balanceAfter }
+    });
+
+    const transaction = await tx.transaction.create({
+      data: {
+        userId,
+        type,
+        currency,
+        amount: change.abs(),
+        balanceBefore,
+        balanceAfter,
+        description,
+        gameHistoryId
+      }
+    });
+
+    await LedgerService.post(tx, {
+      walletId: wallet.id,
+      currency,
+      amount: change,
+      type,
+      balanceBefore,
+      transactionId: transaction.id,
+      description
+    });
+
+    await AuditService.record({
+      ...audit,
+      action: `balance.${type.toLowerCase() as Lowercase<TransactionType>}`,
+      targetUserId: userId,
+      entity: `Transaction:${transaction.id}`,
+      before: { currency, balance: balanceBefore.toString() },
+      after: { currency, balance: balanceAfter.toString(), description: description ?? null }
+    }, tx);
+
+    return balanceAfter;
+  }
+
+  /**
+   * Change a user's balance in a transaction of its own
+   */
+  public static async adjust(
+    userId: string,
+    currency: string,
+    amount: number | Prisma.Decimal,
+    type: TransactionType,
+    description?: string,
+    audit?: AuditContext
+  ): Promise<Prisma.Decimal> {
+    return await prisma.$transaction(async (tx) =>
+      this.adjustBalance(tx, userId, currency, amount, type, description, undefined, audit)
+    );
+  }
+
+  private static async settle(tx: Prisma.TransactionClient, params: SettleBetParams): Promise<SettledBet> {
+    const { userId, currency, history } = params;
+    const stake = CurrencyService.round(currency, params.stake);
+    const payout = CurrencyService.round(currency, params.payout);
+
+    let record: GameHistory;
+
+    if ('create' in history) {
+      record = await tx.gameHistory.create({
+        data: this.historyData(userId, currency, history.create)
+      });
+    } else {
+      const [locked] = await tx.$queryRaw<{ userId: string }[]>`
+        SELECT "userId" FROM "game_history" WHERE "id" = ${history.update.id} FOR UPDATE
+      `;
+
+      if (!locked || locked.userId !== userId) {
+        throw new AppError('Game not found', 404);
+      }
+
+      record = await tx.gameHistory.update({
+        where: { id: history.update.id },
+        data: history.update.data
+      });
+    }
+
+    // Lock the wallet even when no money moves, so the returned balance is current
+    let { balance } = await WalletService.lock(tx, userId, currency);
+
+    if (stake.greaterThan(0)) {
+      balance = await this.adjustBalance(tx, userId, currency, stake.negated(), 'BET', params.stakeDescription, record.id, params.audit);
+    }
+
+    if (payout.greaterThan(0)) {
+      balance = await this.adjustBalance(tx, userId, currency, payout, 'WIN', params.payoutDescription, record.id, params.audit);
+    }
+
+    return { history: record, balance };
+  }
+
+  private static async settleMany(tx: Prisma.TransactionClient, params: SettleBatchParams): Promise<SettledBatch> {
+    const { userId, currency } = params;
+
+    // Lock first so the batch waits for, rather than races, other bets by the same user
+    let { balance } = await WalletService.lock(tx, userId, currency);
+
+    const histories: GameHistory[] = [];
+    for (const history of params.histories) {
+      histories.push(await tx.gameHistory.create({
+        data: this.historyData(userId, currency, history)
+      }));
+    }
+
+    // Every stake is taken before any payout, so winnings never fund the rest of the batch
+    for (const record of histories) {
+      if (record.betAmount.greaterThan(0)) {
+        balance = await this.adjustBalance(
+          tx, userId, currency, record.betAmount.negated(), 'BET', params.stakeDescription, record.id, params.audit
+        );
+      }
+    }
+
+    for (const record of histories) {
+      if (record.payout.greaterThan(0)) {
+        balance = await this.adjustBalance(
+          tx, userId, currency, record.payout, 'WIN', params.payoutDescription, record.id, params.audit
+        );
+      }
+    }
+
+    return { histories, balance };
+  }
+
+  /**
+   * A history record in the bet's currency, with its amounts rounded the way the wallet is
+   */
+  private static historyData(userId: string, currency: string, history: BetHistoryInput): Prisma.GameHistoryUncheckedCreateInput {
+    return {
+      ...history,
+      userId,
+      currency,
+      betAmount: CurrencyService.round(currency, history.betAmount),
+      payout: CurrencyService.round(currency, history.payout)
+    };
+  }
+}
@@ -0,0 +1,73 @@
+import { socketService } from '../server';
+import { CrashPlayerSnapshot } from './socket';
+import {
+  CrashEngine,
+  CrashRoundStartedEvent,
+  CrashMultiplierUpdateEvent,
+  CrashBetPlacedEvent,
+  CrashCashOutEvent,
+  CrashGameCrashedEvent
+} from './games/CrashEngine';
+
+/**
+ * Relays crash engine events to everyone in the crash room
+ */
+export class CrashBroadcastService {
+  /**
+   * Subscribe to a crash engine's round events
+   */
+  public static attach(engine: CrashEngine): void {
+    engine.on('roundStarted', (event: CrashRoundStartedEvent) => {
+      socketService.emitCrashEvent('crash_round_started', {
+        roundId: event.roundId,
+        gameNumber: event.gameNumber,
+        startTime: event.startTime,
+        players: this.getPlayers(engine)
+      });
+    });
+
+    engine.on('multiplierUpdate', (event: CrashMultiplierUpdateEvent) => {
+      socketService.emitCrashEvent('crash_multiplier_update', event);
+    });
+
+    engine.on('betPlaced', (event: CrashBetPlacedEvent) => {
+      socketService.emitCrashEvent('crash_players', {
+        roundId: event.roundId,
+        players: this.getPlayers(engine)
+      });
+    });
+
+    engine.on('playerCashedOut', (event: CrashCashOutEvent) => {
+      socketService.emitCrashEvent('crash_players', {
+        roundId: event.roundId,
+        players: this.getPlayers(engine)
+      });
+    });
+
+    engine.on('gameCrashed', (event: CrashGameCrashedEvent) => {
+      socketService.emitCrashEvent('crash_round_ended', {
+        roundId: event.roundId,
+        gameNumber: event.gameNumber,
+        crashPoint: event.crashPoint,
+        hash: event.hash,
+        houseEdge: event.houseEdge,
+        players: this.getPlayers(engine)
+      });
+    });
+  }
+
+  /**
+   * Public view of the round's players; auto cash-out targets stay private
+   */
+  public static getPlayers(engine: CrashEngine): CrashPlayerSnapshot[] {
+    return engine.getPlayers().map(player => ({
+      userId: player.userId,
+      username: player.username,
+      betAmount: player.betAmount,
+      currency: player.currency,
+      cashedOut: player.cashedOut,
+      cashOutMultiplier: player.cashOutMultiplier,
+      payout: player.payout
+    }));
+  }
+}
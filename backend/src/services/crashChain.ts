@@ -0,0 +1,416 @@
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { CrashHashChain } from '@prisma/client';
+import { prisma } from '../server';
+import { AppError } from '../middleware/errorHandler';
+import { CrashChainHashes, CrashChainJob } from './crashChainWorker';
+import { ProvablyFair } from './games/ProvablyFair';
+import { CrashEngine, CrashRoundSeed } from './games/CrashEngine';
+
+export interface CrashChainInfo {
+  chainId: string;
+  terminatingHash: string;
+  salt: string;
+  length: number;
+  gamesPlayed: number;
+}
+
+export interface CrashNextChainInfo {
+  chainId: string;
+  terminatingHash: string;
+  // Null until the operator fixes it, which must happen after the terminating hash is published
+  salt: string | null;
+  length: number;
+}
+
+// READY: rounds can be played. GENERATING: the chain to play next is still being hashed.
+// AWAITING_SALT: the chain to play next is waiting for the operator to fix its salt
+export type CrashChainStatus = 'READY' | 'GENERATING' | 'AWAITING_SALT';
+
+export interface CrashChainRound {
+  gameNumber: number;
+  hash: string;
+  houseEdge: number;
+  crashPoint: number;
+}
+
+interface ActiveChain {
+  id: string;
+  seed: string;
+  terminatingHash: string;
+  salt: string;
+  length: number;
+  checkpoints: string[];
+  gamesPlayed: number;
+  revealedUpTo: number;
+}
+
+/**
+ * Crash rounds come from a pre-generated hash chain: h(k+1) = sha256(h(k)).
+ * The last hash of the chain is published up front and games walk it backwards,
+ * so every revealed round hash is the sha256 preimage of the one before it.
+ * The next chain is generated in a worker thread while the active one is still
+ * being played, so switching chains never waits on millions of hashes.
+ *
+ * A chain's salt is fixed only after its terminating hash has been published, for example
+ * to the hash of a public blockchain block mined after the announcement. Since the chain
+ * was committed to before anyone could know the salt, the operator could not have picked
+ * a chain that favours the house. A chain without a salt is never put in play.
+ */
+export class CrashChainService {
+  private static readonly DEFAULT_CHAIN_LENGTH = 10000000;
+  private static readonly CHECKPOINT_INTERVAL = 10000;
+  private static readonly MAX_WALK = 1000;
+
+  private static chain: ActiveChain | null = null;
+  private static nextChain: Promise<CrashHashChain> | null = null;
+
+  /**
+   * Load the active chain and start preparing its successor; without one, the first round puts the next chain in play
+   */
+  public static async initialize(): Promise<void> {
+    const active = await prisma.crashHashChain.findFirst({
+      where: { isActive: true },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (active && active.gamesPlayed < active.length) {
+      this.load(active);
+    }
+
+    this.prepareNextChain().catch(error => console.error('Failed to generate the next crash hash chain:', error));
+  }
+
+  /**
+   * Reserve the next game of the active chain
+   */
+  public static async nextRound(): Promise<CrashRoundSeed> {
+    if (!this.chain) {
+      this.load(await this.activateNextChain());
+    }
+
+    const chain = this.getChain();
+
+    const updated = await prisma.crashHashChain.update({
+      where: { id: chain.id },
+      data: { gamesPlayed: { increment: 1 } }
+    });
+
+    chain.gamesPlayed = Math.min(updated.gamesPlayed, updated.length);
+
+    if (updated.gamesPlayed > updated.length) {
+      this.load(await this.activateNextChain());
+      return this.nextRound();
+    }
+
+    return {
+      chainId: chain.id,
+      gameNumber: updated.gamesPlayed,
+      hash: this.hashForGame(chain.checkpoints, chain.length, updated.gamesPlayed),
+      salt: chain.salt
+    };
+  }
+
+  /**
+   * Whether the next round can be reserved, or what it is waiting on when the active chain is
+   * missing or played out; a missing next chain is generated in the background
+   */
+  public static async getStatus(): Promise<CrashChainStatus> {
+    if (this.chain && this.chain.gamesPlayed < this.chain.length) {
+      return 'READY';
+    }
+
+    const next = await this.findNextChain();
+
+    if (!next) {
+      this.prepareNextChain().catch(error => console.error('Failed to generate the next crash hash chain:', error));
+      return 'GENERATING';
+    }
+
+    return next.salt === null ? 'AWAITING_SALT' : 'READY';
+  }
+
+  /**
+   * Mark a game as played so its hash may be published
+   */
+  public static revealRound(chainId: string, gameNumber: number): void {
+    if (this.chain && this.chain.id === chainId) {
+      this.chain.revealedUpTo = Math.max(this.chain.revealedUpTo, gameNumber);
+    }
+  }
+
+  /**
+   * Public details of the active chain, or null before the first chain is in play
+   */
+  public static getChainInfo(): CrashChainInfo | null {
+    const chain = this.chain;
+    if (!chain) {
+      return null;
+    }
+
+    return {
+      chainId: chain.id,
+      terminatingHash: chain.terminatingHash,
+      salt: chain.salt,
+      length: chain.length,
+      gamesPlayed: chain.revealedUpTo
+    };
+  }
+
+  /**
+   * Public details of the chain that follows the active one, or null while it is still being generated
+   */
+  public static async getNextChainInfo(): Promise<CrashNextChainInfo | null> {
+    const next = await this.findNextChain();
+
+    return next && {
+      chainId: next.id,
+      terminatingHash: next.terminatingHash,
+      salt: next.salt,
+      length: next.length
+    };
+  }
+
+  /**
+   * Fix the salt of the next chain; it can be set once, after the chain's terminating hash has been published
+   */
+  public static async setSalt(chainId: string, salt: string): Promise<CrashNextChainInfo> {
+    const { count } = await prisma.crashHashChain.updateMany({
+      where: { id: chainId, isActive: false, gamesPlayed: 0, salt: null },
+      data: { salt }
+    });
+
+    if (count === 0) {
+      throw new AppError('Only a chain that has not been played and has no salt yet can have its salt set', 400);
+    }
+
+    const next = await prisma.crashHashChain.findUniqueOrThrow({ where: { id: chainId } });
+
+    return {
+      chainId: next.id,
+      terminatingHash: next.terminatingHash,
+      salt: next.salt,
+      length: next.length
+    };
+  }
+
+  /**
+   * Get the hash of a finished game, or null while it is still unrevealed
+   */
+  public static async getRevealedHash(chainId: string, gameNumber: number): Promise<string | null> {
+    if (this.chain && this.chain.id === chainId) {
+      if (gameNumber < 1 || gameNumber > this.chain.revealedUpTo) {
+        return null;
+      }
+
+      return this.hashForGame(this.chain.checkpoints, this.chain.length, gameNumber);
+    }
+
+    const stored = await prisma.crashHashChain.findUnique({ where: { id: chainId } });
+
+    // Retired chains are fully revealed up to the last game they played
+    if (!stored || stored.isActive || gameNumber < 1 || gameNumber > Math.min(stored.gamesPlayed, stored.length)) {
+      return null;
+    }
+
+    return this.hashForGame(stored.checkpoints as string[], stored.length, gameNumber);
+  }
+
+  /**
+   * List revealed rounds of the active chain, newest first
+   */
+  public static async getRevealedRounds(page: number, limit: number): Promise<{ rounds: CrashChainRound[]; total: number }> {
+    const chain = this.chain;
+    if (!chain) {
+      return { rounds: [], total: 0 };
+    }
+
+    const newest = chain.revealedUpTo - (page - 1) * limit;
+
+    if (newest < 1) {
+      return { rounds: [], total: chain.revealedUpTo };
+    }
+
+    return {
+      rounds: await this.walk(
+        this.hashForGame(chain.checkpoints, chain.length, newest),
+        chain.salt,
+        newest,
+        Math.min(limit, newest)
+      ),
+      total: chain.revealedUpTo
+    };
+  }
+
+  /**
+   * Walk backwards through the chain from a revealed game hash, recomputing each crash point
+   * with the house edge its round was played with
+   */
+  public static async walk(hash: string, salt: string, gameNumber: number, count: number): Promise<CrashChainRound[]> {
+    const hashes: string[] = [];
+    let current = hash;
+
+    for (let i = 0; i < Math.min(count, this.MAX_WALK); i++) {
+      hashes.push(current);
+
+      // The previous game's hash is the sha256 of this one
+      current = ProvablyFair.hashServerSeed(current);
+    }
+
+    // A game the server reserved but never recorded a round for falls back to the current edge
+    const recorded = await prisma.crashRound.findMany({
+      where: { hash: { in: hashes } },
+      select: { hash: true, houseEdge: true }
+    });
+    const houseEdges = new Map(recorded.map(round => [round.hash, round.houseEdge]));
+
+    return hashes.map((roundHash, i) => {
+      const houseEdge = houseEdges.get(roundHash) ?? CrashEngine.getLimits().houseEdge;
+
+      return {
+        gameNumber: gameNumber - i,
+        hash: roundHash,
+        houseEdge,
+        crashPoint: CrashEngine.calculateCrashPoint(roundHash, salt, gameNumber - i, houseEdge)
+      };
+    });
+  }
+
+  private static getChain(): ActiveChain {
+    if (!this.chain) {
+      throw new Error('Crash hash chain has not been initialized');
+    }
+
+    return this.chain;
+  }
+
+  private static load(record: CrashHashChain): void {
+    this.chain = {
+      id: record.id,
+      seed: record.seed,
+      terminatingHash: record.terminatingHash,
+      // Only chains with a salt are ever put in play
+      salt: record.salt as string,
+      length: record.length,
+      checkpoints: record.checkpoints as string[],
+      gamesPlayed: Math.min(record.gamesPlayed, record.length),
+      // Every reserved game either finished or was abandoned by a restart
+      revealedUpTo: Math.min(record.gamesPlayed, record.length)
+    };
+  }
+
+  /**
+   * Game g uses chain position length - g, so game 1 is the preimage of the terminating hash
+   */
+  private static hashForGame(checkpoints: string[], length: number, gameNumber: number): string {
+    const position = length - gameNumber;
+    const index = Math.floor(position / this.CHECKPOINT_INTERVAL);
+    let hash = checkpoints[index];
+
+    for (let i = index * this.CHECKPOINT_INTERVAL; i < position; i++) {
+      hash = ProvablyFair.hashServerSeed(hash);
+    }
+
+    return hash;
+  }
+
+  /**
+   * Retire the active chain and put the prepared next one in play, then start preparing the one after it
+   */
+  private static async activateNextChain(): Promise<CrashHashChain> {
+    const prepared = await this.prepareNextChain();
+
+    // The salt is fixed after the chain was generated, so check the stored chain rather than the prepared one
+    const next = await prisma.crashHashChain.findUniqueOrThrow({ where: { id: prepared.id } });
+    if (next.salt === null) {
+      throw new Error(`Crash hash chain ${next.id} has no salt yet; publish its terminating hash, then fix its salt`);
+    }
+
+    this.nextChain = null;
+
+    const activated = await prisma.$transaction(async (tx) => {
+      await tx.crashHashChain.updateMany({
+        where: { isActive: true },
+        data: { isActive: false }
+      });
+
+      return await tx.crashHashChain.update({
+        where: { id: next.id },
+        data: { isActive: true }
+      });
+    });
+
+    this.prepareNextChain().catch(error => console.error('Failed to generate the next crash hash chain:', error));
+    return activated;
+  }
+
+  /**
+   * Get the chain that follows the active one, generating it if there is none yet.
+   * Chains are only retired once played out, so an inactive chain with no games played is one waiting its turn
+   */
+  private static prepareNextChain(): Promise<CrashHashChain> {
+    if (!this.nextChain) {
+      this.nextChain = (async () => await this.findNextChain() ?? await this.createChain())().catch(error => {
+        this.nextChain = null;
+        throw error;
+      });
+    }
+
+    return this.nextChain;
+  }
+
+  private static async findNextChain(): Promise<CrashHashChain | null> {
+    return await prisma.crashHashChain.findFirst({
+      where: { isActive: false, gamesPlayed: 0 },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Generate a chain off the event loop and store it, inactive and without a salt, as the next chain
+   */
+  private static async createChain(): Promise<CrashHashChain> {
+    const length = parseInt(process.env.CRASH_CHAIN_LENGTH || '') || this.DEFAULT_CHAIN_LENGTH;
+    const seed = ProvablyFair.generateServerSeed();
+
+    console.log(`Generating crash hash chain of ${length} games...`);
+
+    const { terminatingHash, checkpoints } = await this.hashChain({
+      seed,
+      length,
+      checkpointInterval: this.CHECKPOINT_INTERVAL
+    });
+
+    const chain = await prisma.crashHashChain.create({
+      data: {
+        seed,
+        terminatingHash,
+        length,
+        checkpoints
+      }
+    });
+
+    console.log(`Crash hash chain ${chain.id} generated; publish its terminating hash ${terminatingHash}, then fix its salt`);
+    return chain;
+  }
+
+  private static hashChain(job: CrashChainJob): Promise<CrashChainHashes> {
+    // Under ts-node the worker is the TypeScript source and needs ts-node to load it too
+    const file = path.join(__dirname, `crashChainWorker${path.extname(__filename)}`);
+
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(file, {
+        workerData: job,
+        execArgv: file.endsWith('.ts') ? ['--require', 'ts-node/register'] : undefined
+      });
+
+      worker.once('message', resolve);
+      worker.once('error', reject);
+      worker.once('exit', code => {
+        if (code !== 0) {
+          reject(new Error(`Crash hash chain worker exited with code ${code}`));
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,37 @@
+import { parentPort, workerData } from 'worker_threads';
+import { ProvablyFair } from './games/ProvablyFair';
+
+export interface CrashChainJob {
+  seed: string;
+  length: number;
+  checkpointInterval: number;
+}
+
+export interface CrashChainHashes {
+  terminatingHash: string;
+  checkpoints: string[];
+}
+
+/**
+ * Hash a chain forward from its seed, keeping every checkpointInterval-th hash.
+ * Run in a worker thread by CrashChainService, since a full chain takes millions of hashes
+ */
+function hashChain({ seed, length, checkpointInterval }: CrashChainJob): CrashChainHashes {
+  // Position 0 is the secret seed itself
+  const checkpoints: string[] = [seed];
+  let hash = seed;
+
+  for (let position = 1; position <= length; position++) {
+    hash = ProvablyFair.hashServerSeed(hash);
+
+    if (position % checkpointInterval === 0) {
+      checkpoints.push(hash);
+    }
+  }
+
+  return { terminatingHash: hash, checkpoints };
+}
+
+if (parentPort) {
+  parentPort.postMessage(hashChain(workerData as CrashChainJob));
+}
@@ -0,0 +1,184 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../server';
+import { AuditContext } from './audit';
+import { CrashChainService } from './crashChain';
+import { BetSettlementService } from './betSettlement';
+import {
+  CrashEngine,
+  CrashRoundOpenedEvent,
+  CrashRoundStartedEvent,
+  CrashGameCrashedEvent
+} from './games/CrashEngine';
+
+export interface CrashBetInput {
+  roundId: string;
+  userId: string;
+  currency: string;
+  betAmount: number;
+  autoCashOut?: number;
+}
+
+/**
+ * Persists crash rounds from the engine's events, and every player's bet together with its stake,
+ * so a round can be audited and its bets refunded after a restart
+ */
+export class CrashRoundService {
+  // Writes for a round must land in event order, e.g. a cash out after its bet
+  private static queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Subscribe to a crash engine's round events
+   */
+  public static attach(engine: CrashEngine): void {
+    engine.on('roundOpened', (event: CrashRoundOpenedEvent) => this.enqueue(() => this.recordRound(event)));
+    engine.on('roundStarted', (event: CrashRoundStartedEvent) => this.enqueue(() => this.recordStart(event)));
+    engine.on('gameCrashed', (event: CrashGameCrashedEvent) => this.enqueue(() => this.recordCrash(event)));
+  }
+
+  /**
+   * Run a write after every crash write queued before it
+   */
+  public static enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+
+    this.queue = result.then(
+      () => undefined,
+      error => console.error('Failed to persist crash round event:', error)
+    );
+
+    return result;
+  }
+
+  private static async recordRound(event: CrashRoundOpenedEvent): Promise<void> {
+    await prisma.crashRound.create({
+      data: {
+        id: event.roundId,
+        chainId: event.chainId,
+        gameNumber: event.gameNumber,
+        previousHash: event.previousHash,
+        salt: event.salt,
+        houseEdge: event.houseEdge
+      }
+    });
+  }
+
+  private static async recordStart(event: CrashRoundStartedEvent): Promise<void> {
+    await prisma.crashRound.update({
+      where: { id: event.roundId },
+      data: { startedAt: new Date(event.startTime) }
+    });
+  }
+
+  /**
+   * Take the stake and record the bet in one transaction, before it joins the round in the engine;
+   * queued behind the round's own record, which the bet refers to
+   */
+  public static async placeBet(bet: CrashBetInput, audit?: AuditContext): Promise<Prisma.Decimal> {
+    return await this.enqueue(() => prisma.$transaction(async (tx) => {
+      const balance = await BetSettlementService.adjustBalance(
+        tx, bet.userId, bet.currency, -bet.betAmount, 'BET', 'Crash game bet', undefined, audit
+      );
+
+      await tx.crashBet.create({
+        data: {
+          roundId: bet.roundId,
+          userId: bet.userId,
+          currency: bet.currency,
+          betAmount: bet.betAmount,
+          autoCashOut: bet.autoCashOut
+        }
+      });
+
+      await tx.crashRound.update({
+        where: { id: bet.roundId },
+        data: { playerCount: { increment: 1 } }
+      });
+
+      return balance;
+    }));
+  }
+
+  /**
+   * Return the stake of a recorded bet the engine did not accept
+   */
+  public static async refundBet(roundId: string, userId: string, audit?: AuditContext): Promise<void> {
+    await this.enqueue(() => prisma.$transaction(async (tx) => {
+      const bet = await tx.crashBet.findUniqueOrThrow({
+        where: { roundId_userId: { roundId, userId } }
+      });
+
+      await BetSettlementService.adjustBalance(
+        tx, userId, bet.currency, bet.betAmount, 'REFUND', 'Crash bet rejected', undefined, audit
+      );
+
+      await tx.crashBet.update({
+        where: { id: bet.id },
+        data: { isRefunded: true, settledAt: new Date() }
+      });
+
+      await tx.crashRound.update({
+        where: { id: roundId },
+        data: { playerCount: { decrement: 1 } }
+      });
+    }));
+  }
+
+  /**
+   * Reveal the round once it has crashed; its bets are settled by CrashSettlementService
+   */
+  private static async recordCrash(event: CrashGameCrashedEvent): Promise<void> {
+    await prisma.crashRound.update({
+      where: { id: event.roundId },
+      data: {
+        hash: event.hash,
+        crashPoint: event.crashPoint,
+        endedAt: new Date()
+      }
+    });
+  }
+
+  /**
+   * Close rounds that were still running when the server stopped and refund their unsettled bets
+   */
+  public static async recoverUnfinishedRounds(): Promise<number> {
+    const rounds = await prisma.crashRound.findMany({
+      where: { endedAt: null },
+      include: { bets: { where: { settledAt: null } } }
+    });
+
+    for (const round of rounds) {
+      // Reserved chain games count as revealed after a restart, so the round can still be audited
+      const hash = await CrashChainService.getRevealedHash(round.chainId, round.gameNumber);
+
+      await prisma.$transaction(async (tx) => {
+        for (const bet of round.bets) {
+          await BetSettlementService.adjustBalance(
+            tx,
+            bet.userId,
+            bet.currency,
+            bet.betAmount,
+            'REFUND',
+            `Crash round ${round.gameNumber} aborted`
+          );
+
+          await tx.crashBet.update({
+            where: { id: bet.id },
+            data: { isRefunded: true, settledAt: new Date() }
+          });
+        }
+
+        await tx.crashRound.update({
+          where: { id: round.id },
+          data: {
+            hash,
+            crashPoint: hash ? CrashEngine.calculateCrashPoint(hash, round.salt, round.gameNumber, round.houseEdge) : null,
+            isAborted: true,
+            endedAt: new Date()
+          }
+        });
+      });
+    }
+
+    return rounds.length;
+  }
+}
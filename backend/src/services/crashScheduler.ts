@@ -0,0 +1,152 @@
+import { once } from 'events';
+import { socketService } from '../server';
+import { CrashEngine, CrashPhase, CrashGameCrashedEvent } from './games/CrashEngine';
+import { CrashChainService, CrashChainStatus } from './crashChain';
+import { GameSettingsService } from './gameSettings';
+
+export interface CrashPhaseState {
+  phase: CrashPhase;
+  roundId: string | null;
+  gameNumber: number | null;
+  phaseEndsAt: number | null;
+  // Anything but READY means rounds are paused until the hash chain can be played
+  chainStatus: CrashChainStatus;
+}
+
+/**
+ * Runs crash rounds back to back: BETTING countdown, RUNNING until the crash,
+ * then a CRASHED cooldown before the next round opens
+ */
+export class CrashScheduler {
+  private static readonly BETTING_DURATION = 10000; // 10 seconds to place bets
+  private static readonly COOLDOWN_DURATION = 5000; // 5 seconds showing the crash point
+  private static readonly RETRY_DELAY = 5000;
+
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private state: CrashPhaseState = {
+    phase: 'CRASHED',
+    roundId: null,
+    gameNumber: null,
+    phaseEndsAt: null,
+    chainStatus: 'READY'
+  };
+
+  constructor(private engine: CrashEngine) {}
+
+  /**
+   * Start running rounds
+   */
+  public start(): void {
+    if (this.running) return;
+
+    this.running = true;
+    this.loop();
+  }
+
+  /**
+   * Stop scheduling new rounds; a running round still finishes
+   */
+  public stop(): void {
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Get the current phase and when it ends
+   */
+  public getPhaseState(): CrashPhaseState {
+    return { ...this.state };
+  }
+
+  private async loop(): Promise<void> {
+    while (this.running) {
+      try {
+        // Wait for a playable chain without treating it as a failure; it can take until an operator acts
+        if (!await this.checkChain()) {
+          await this.wait(CrashScheduler.RETRY_DELAY);
+          continue;
+        }
+
+        await this.runRound();
+      } catch (error) {
+        console.error('Crash round failed:', error);
+        await this.wait(CrashScheduler.RETRY_DELAY);
+      }
+    }
+  }
+
+  private async runRound(): Promise<void> {
+    // Pick up settings changes before the round's crash point is derived
+    await GameSettingsService.get('CRASH');
+
+    const round = await this.engine.openRound();
+    this.setPhase('BETTING', round.roundId, round.gameNumber, Date.now() + CrashScheduler.BETTING_DURATION);
+    await this.wait(CrashScheduler.BETTING_DURATION);
+
+    // Subscribe before starting so an instant 1.00x crash is not missed
+    const crashed = once(this.engine, 'gameCrashed') as Promise<[CrashGameCrashedEvent]>;
+    this.engine.startRound();
+    this.setPhase('RUNNING', round.roundId, round.gameNumber, null);
+
+    const [event] = await crashed;
+    this.setPhase('CRASHED', round.roundId, round.gameNumber, Date.now() + CrashScheduler.COOLDOWN_DURATION, {
+      crashPoint: event.crashPoint,
+      hash: event.hash
+    });
+    await this.wait(CrashScheduler.COOLDOWN_DURATION);
+  }
+
+  /**
+   * Record whether the hash chain can be played, logging only when that changes
+   */
+  private async checkChain(): Promise<boolean> {
+    const status = await CrashChainService.getStatus();
+
+    if (status !== this.state.chainStatus) {
+      if (status === 'AWAITING_SALT') {
+        const next = await CrashChainService.getNextChainInfo();
+        console.warn(
+          `Crash rounds are paused: hash chain ${next?.chainId} has no salt yet. Publish its terminating hash ` +
+          `${next?.terminatingHash}, then set its salt with PUT /api/admin/crash/chains/:chainId/salt`
+        );
+      } else if (status === 'GENERATING') {
+        console.log('Crash rounds are paused until the next hash chain has been generated');
+      } else {
+        console.log('Crash hash chain is ready, resuming rounds');
+      }
+
+      this.state = { ...this.state, chainStatus: status };
+    }
+
+    return status === 'READY';
+  }
+
+  private setPhase(
+    phase: CrashPhase,
+    roundId: string,
+    gameNumber: number,
+    phaseEndsAt: number | null,
+    extra: { crashPoint?: number; hash?: string } = {}
+  ): void {
+    this.state = { phase, roundId, gameNumber, phaseEndsAt, chainStatus: this.state.chainStatus };
+
+    socketService.emitCrashEvent('crash_phase', {
+      ...this.state,
+      ...extra
+    });
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        resolve();
+      }, ms);
+    });
+  }
+}
@@ -0,0 +1,256 @@
+import { Prisma } from '@prisma/client';
+import { prisma, socketService } from '../server';
+import { CrashRoundService } from './crashRounds';
+import { BetSettlementService } from './betSettlement';
+import { CrashEngine, CrashCashOutEvent, CrashGameCrashedEvent } from './games/CrashEngine';
+
+type CrashCashOut = Pick<CrashCashOutEvent, 'roundId' | 'userId' | 'multiplier' | 'payout' | 'auto'>;
+
+/**
+ * Settles crash bets from the engine's events: every cash out, manual or automatic,
+ * is credited together with its history, and bets still riding at the crash are recorded as losses.
+ * A cash out whose credit fails is never recorded as a loss; it is retried when the round ends
+ * and otherwise left unsettled, marked as cashed out, until `settleUnpaidCashOuts` pays it
+ */
+export class CrashSettlementService {
+  // Settlements of manual cash outs, so the route can respond with the new balance
+  private static pending: Map<string, Promise<Prisma.Decimal>> = new Map();
+
+  /**
+   * Subscribe to a crash engine's cash out and crash events
+   */
+  public static attach(engine: CrashEngine): void {
+    engine.on('playerCashedOut', (event: CrashCashOutEvent) => {
+      const key = this.key(event.roundId, event.userId);
+      const settlement = CrashRoundService.enqueue(() => this.settleCashOut(event));
+
+      this.pending.set(key, settlement);
+      settlement.catch(() => undefined).finally(() => this.pending.delete(key));
+    });
+
+    engine.on('gameCrashed', (event: CrashGameCrashedEvent) => CrashRoundService.enqueue(() => this.settleRound(event)));
+  }
+
+  /**
+   * Wait for a cash out to be credited and get the user's new balance
+   */
+  public static async awaitCashOut(roundId: string, userId: string): Promise<Prisma.Decimal> {
+    const settlement = this.pending.get(this.key(roundId, userId));
+
+    if (!settlement) {
+      throw new Error('Cash out is not being settled');
+    }
+
+    return await settlement;
+  }
+
+  /**
+   * Credit cash outs that could not be paid when their round ended; called once at startup
+   */
+  public static async settleUnpaidCashOuts(): Promise<number> {
+    const bets = await prisma.crashBet.findMany({
+      where: { cashedOut: true, settledAt: null, isRefunded: false }
+    });
+
+    let settled = 0;
+    for (const bet of bets) {
+      try {
+        await CrashRoundService.enqueue(() => this.settleCashOut({
+          roundId: bet.roundId,
+          userId: bet.userId,
+          multiplier: bet.cashOutMultiplier!,
+          payout: bet.payout.toNumber(),
+          auto: bet.autoCashOut !== null && bet.autoCashOut === bet.cashOutMultiplier
+        }));
+        settled++;
+      } catch (error) {
+        console.error(`Failed to credit crash cash out of bet ${bet.id}:`, error);
+      }
+    }
+
+    return settled;
+  }
+
+  private static key(roundId: string, userId: string): string {
+    return `${roundId}:${userId}`;
+  }
+
+  /**
+   * Credit a cash out and record the win. The history gets the round's crash point straight away
+   * when the round is already over, e.g. when credited at startup; otherwise `settleRound` fills it in
+   */
+  private static async settleCashOut(event: CrashCashOut): Promise<Prisma.Decimal> {
+    const settled = await prisma.$transaction(async (tx) => {
+      const bet = await tx.crashBet.findUnique({
+        where: { roundId_userId: { roundId: event.roundId, userId: event.userId } },
+        include: { round: true }
+      });
+
+      if (!bet) {
+        throw new Error(`Crash bet not found for user ${event.userId} in round ${event.roundId}`);
+      }
+
+      if (bet.settledAt) {
+        throw new Error(`Crash bet ${bet.id} is already settled`);
+      }
+
+      const { history, balance } = await BetSettlementService.settleBet({
+        userId: event.userId,
+        currency: bet.currency,
+        stake: 0,
+        payout: event.payout,
+        payoutDescription: `Crash ${event.auto ? 'auto ' : ''}cash out at ${event.multiplier}x`,
+        history: {
+          create: {
+            gameType: 'CRASH',
+            betAmount: bet.betAmount,
+            payout: event.payout,
+            multiplier: event.multiplier,
+            isWin: true,
+            gameData: {
+              roundId: event.roundId,
+              cashedOut: true,
+              cashOutMultiplier: event.multiplier,
+              autoCashOut: event.auto || false,
+              chainId: bet.round.chainId,
+              gameNumber: bet.round.gameNumber,
+              houseEdge: bet.round.houseEdge,
+              ...(bet.round.endedAt && bet.round.crashPoint !== null && { crashPoint: bet.round.crashPoint })
+            },
+            // The round hash is committed by its sha256, which is the previous game's hash
+            seed: bet.round.previousHash,
+            clientSeed: bet.round.salt,
+            nonce: bet.round.gameNumber
+          }
+        }
+      }, tx);
+
+      await tx.crashBet.update({
+        where: { id: bet.id },
+        data: {
+          cashedOut: true,
+          cashOutMultiplier: event.multiplier,
+          payout: event.payout,
+          gameHistoryId: history.id,
+          settledAt: new Date()
+        }
+      });
+
+      return { balance, currency: bet.currency };
+    });
+
+    socketService.emitToUser(event.userId, 'balance_update', {
+      currency: settled.currency,
+      balance: settled.balance.toString(),
+      change: event.payout.toString(),
+      reason: 'CRASH_CASH_OUT'
+    });
+
+    return settled.balance;
+  }
+
+  /**
+   * Record every unsettled bet of a crashed round as a loss and complete the winners' history
+   */
+  private static async settleRound(event: CrashGameCrashedEvent): Promise<void> {
+    const results = new Map(event.results.map(({ userId, result }) => [userId, result]));
+
+    // Give cash outs whose credit failed when they happened another attempt before the losses are recorded
+    const unpaid = await prisma.crashBet.findMany({
+      where: { roundId: event.roundId, settledAt: null, isRefunded: false }
+    });
+
+    for (const bet of unpaid) {
+      const result = results.get(bet.userId);
+      if (!result?.cashedOut) {
+        continue;
+      }
+
+      const cashOut = {
+        roundId: event.roundId,
+        userId: bet.userId,
+        multiplier: result.cashOutMultiplier!,
+        payout: result.payout,
+        auto: bet.autoCashOut !== null && bet.autoCashOut === result.cashOutMultiplier
+      };
+
+      try {
+        await this.settleCashOut(cashOut);
+      } catch (error) {
+        console.error(`Failed to credit crash cash out of bet ${bet.id}, left for reconciliation:`, error);
+
+        await prisma.crashBet.update({
+          where: { id: bet.id },
+          data: { cashedOut: true, cashOutMultiplier: cashOut.multiplier, payout: cashOut.payout }
+        });
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const round = await tx.crashRound.findUnique({
+        where: { id: event.roundId },
+        include: { bets: { include: { gameHistory: true } } }
+      });
+
+      if (!round) {
+        throw new Error(`Crash round ${event.roundId} not found`);
+      }
+
+      for (const bet of round.bets) {
+        // Refunded bets never joined the round, and a cash out still waiting for its credit is not a loss
+        if (bet.isRefunded || (!bet.gameHistory && results.get(bet.userId)?.cashedOut)) {
+          continue;
+        }
+
+        if (bet.gameHistory) {
+          await tx.gameHistory.update({
+            where: { id: bet.gameHistory.id },
+            data: {
+              gameData: {
+                ...(bet.gameHistory.gameData as Record<string, any>),
+                crashPoint: event.crashPoint
+              }
+            }
+          });
+          continue;
+        }
+
+        // The stake was taken when the bet was placed, so a loss moves no money
+        const { history } = await BetSettlementService.settleBet({
+          userId: bet.userId,
+          currency: bet.currency,
+          stake: 0,
+          payout: 0,
+          history: {
+            create: {
+              gameType: 'CRASH',
+              betAmount: bet.betAmount,
+              payout: 0,
+              multiplier: 0,
+              isWin: false,
+              gameData: {
+                roundId: round.id,
+                crashPoint: event.crashPoint,
+                cashedOut: false,
+                chainId: round.chainId,
+                gameNumber: round.gameNumber,
+                houseEdge: round.houseEdge
+              },
+              seed: round.previousHash,
+              clientSeed: round.salt,
+              nonce: round.gameNumber
+            }
+          }
+        }, tx);
+
+        await tx.crashBet.update({
+          where: { id: bet.id },
+          data: {
+            gameHistoryId: history.id,
+            settledAt: new Date()
+          }
+        });
+      }
+    });
+  }
+}
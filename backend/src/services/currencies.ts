@@ -0,0 +1,96 @@
+import { Prisma } from '@prisma/client';
+import { AppError } from '../middleware/errorHandler';
+
+export interface Currency {
+  code: string;
+  name: string;
+  decimals: number;
+  // Paid from the bonus pool to every new account
+  welcomeBonus: string;
+}
+
+/**
+ * The currencies players can hold and bet in: play-money credits, plus the test currencies
+ * configured in TEST_CURRENCIES as `CODE:DECIMALS[:WELCOME_BONUS]`, e.g. "TBTC:8:0.01,TETH:6"
+ */
+export class CurrencyService {
+  public static readonly DEFAULT_CURRENCY = 'CREDITS';
+
+  // Money columns are Decimal(20, 8)
+  private static readonly MAX_DECIMALS = 8;
+  private static readonly CODE_PATTERN = /^[A-Z][A-Z0-9]{1,9}$/;
+
+  private static currencies = new Map<string, Currency>();
+
+  /**
+   * Read the configured currencies; called once at startup, throws on an invalid entry
+   */
+  public static load(): Currency[] {
+    const currencies = new Map<string, Currency>([
+      [this.DEFAULT_CURRENCY, { code: this.DEFAULT_CURRENCY, name: 'Credits', decimals: 2, welcomeBonus: '1000' }]
+    ]);
+
+    for (const entry of (process.env.TEST_CURRENCIES || '').split(',').map(value => value.trim()).filter(Boolean)) {
+      const [code, decimals, welcomeBonus = '0'] = entry.split(':').map(value => value.trim());
+      const currency: Currency = { code: code.toUpperCase(), name: code.toUpperCase(), decimals: Number(decimals), welcomeBonus };
+
+      if (!this.CODE_PATTERN.test(currency.code) || currencies.has(currency.code)) {
+        throw new Error(`Invalid or duplicate currency code in TEST_CURRENCIES: ${entry}`);
+      }
+
+      if (!Number.isInteger(currency.decimals) || currency.decimals < 0 || currency.decimals > this.MAX_DECIMALS) {
+        throw new Error(`Currency ${currency.code} must have 0 to ${this.MAX_DECIMALS} decimals`);
+      }
+
+      const bonus = new Prisma.Decimal(welcomeBonus);
+      if (bonus.isNegative() || bonus.decimalPlaces() > currency.decimals) {
+        throw new Error(`Invalid welcome bonus for currency ${currency.code}: ${welcomeBonus}`);
+      }
+
+      currencies.set(currency.code, currency);
+    }
+
+    this.currencies = currencies;
+
+    return this.getAll();
+  }
+
+  public static getAll(): Currency[] {
+    return [...this.currencies.values()];
+  }
+
+  public static getCodes(): string[] {
+    return [...this.currencies.keys()];
+  }
+
+  /**
+   * Get a configured currency, rejecting the request for any other code
+   */
+  public static get(code: string): Currency {
+    const currency = this.currencies.get(code.toUpperCase());
+
+    if (!currency) {
+      throw new AppError(`Unsupported currency: ${code}`, 400);
+    }
+
+    return currency;
+  }
+
+  /**
+   * Round an amount to the currency's smallest unit
+   */
+  public static round(code: string, amount: number | Prisma.Decimal): Prisma.Decimal {
+    return new Prisma.Decimal(amount).toDecimalPlaces(this.get(code).decimals, Prisma.Decimal.ROUND_HALF_UP);
+  }
+
+  /**
+   * Reject an amount finer than the currency's smallest unit
+   */
+  public static assertPrecision(code: string, amount: number): void {
+    const { decimals } = this.get(code);
+
+    if (new Prisma.Decimal(amount).decimalPlaces() > decimals) {
+      throw new AppError(`${code} amounts can have at most ${decimals} decimal places`, 400);
+    }
+  }
+}
@@ -0,0 +1,397 @@
+import { GameType, Prisma, ServerSeed } from '@prisma/client';
+import { prisma } from '../server';
+import { AppError } from '../middleware/errorHandler';
+import { ProvablyFair } from './games/ProvablyFair';
+import { PlinkoEngine } from './games/PlinkoEngine';
+import { MinesEngine, MinesGameState } from './games/MinesEngine';
+import { CrashEngine } from './games/CrashEngine';
+import { DEFAULT_GAME_LIMITS } from './games/GameLimits';
+import { CrashChainService } from './crashChain';
+
+export interface BetSeed {
+  serverSeedId: string;
+  serverSeed: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+}
+
+export interface PublicSeedPair {
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+  createdAt: Date;
+}
+
+export interface RevealedSeedPair extends PublicSeedPair {
+  serverSeed: string;
+  revealedAt: Date | null;
+}
+
+export interface VerifyParams {
+  gameType: GameType;
+  serverSeed: string;
+  clientSeed: string;
+  nonce: number;
+  rows?: number;
+  risk?: 'low' | 'medium' | 'high';
+  gridSize?: number;
+  mineCount?: number;
+  houseEdge?: number;
+}
+
+export interface VerificationOutcome {
+  serverSeedHash: string;
+  ballPath?: number[];
+  finalSlot?: number;
+  multiplier?: number;
+  minePositions?: number[];
+  crashPoint?: number;
+}
+
+export interface BetVerification {
+  bet: {
+    id: string;
+    gameType: GameType;
+    betAmount: string;
+    payout: string;
+    multiplier: number;
+    isWin: boolean;
+    gameData: Prisma.JsonValue;
+    serverSeedHash: string;
+    clientSeed: string | null;
+    nonce: number;
+    serverSeed: string | null;
+    createdAt: Date;
+  };
+  outcome: VerificationOutcome | null;
+  verified: boolean | null;
+}
+
+export class FairnessService {
+  /**
+   * Strip the secret server seed from an active pair
+   */
+  public static toPublic(seed: ServerSeed): PublicSeedPair {
+    return {
+      serverSeedHash: seed.seedHash,
+      clientSeed: seed.clientSeed,
+      nonce: seed.nonce,
+      createdAt: seed.createdAt
+    };
+  }
+
+  /**
+   * Expose a rotated-out pair including its server seed
+   */
+  public static toRevealed(seed: ServerSeed): RevealedSeedPair {
+    return {
+      ...this.toPublic(seed),
+      serverSeed: seed.seed,
+      revealedAt: seed.revealedAt
+    };
+  }
+
+  /**
+   * Commit a fresh server seed for a user
+   */
+  private static async createSeed(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    clientSeed: string
+  ): Promise<ServerSeed> {
+    const seed = ProvablyFair.generateServerSeed();
+
+    return await tx.serverSeed.create({
+      data: {
+        userId,
+        seed,
+        seedHash: ProvablyFair.hashServerSeed(seed),
+        clientSeed
+      }
+    });
+  }
+
+  /**
+   * Get the user's active seed pair, committing one on first use
+   */
+  public static async getActiveSeed(userId: string, tx: Prisma.TransactionClient = prisma): Promise<ServerSeed> {
+    const active = await tx.serverSeed.findFirst({
+      where: { userId, isActive: true },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (active) {
+      return active;
+    }
+
+    return await this.createSeed(tx, userId, ProvablyFair.generateClientSeed());
+  }
+
+  /**
+   * Reserve the next nonce on the user's active seed pair for a bet, or `count`
+   * consecutive nonces for a batch; the returned nonce is the first of them
+   */
+  public static async nextBet(userId: string, count = 1): Promise<BetSeed> {
+    return await prisma.$transaction(async (tx) => {
+      const active = await this.getActiveSeed(userId, tx);
+
+      // The increment is a single UPDATE, so concurrent bets never share a nonce
+      const updated = await tx.serverSeed.update({
+        where: { id: active.id },
+        data: { nonce: { increment: count } }
+      });
+
+      return {
+        serverSeedId: updated.id,
+        serverSeed: updated.seed,
+        serverSeedHash: updated.seedHash,
+        clientSeed: updated.clientSeed,
+        nonce: updated.nonce - count
+      };
+    });
+  }
+
+  /**
+   * Change the client seed used for the user's upcoming bets
+   */
+  public static async setClientSeed(userId: string, clientSeed: string): Promise<ServerSeed> {
+    return await prisma.$transaction(async (tx) => {
+      const active = await this.getActiveSeed(userId, tx);
+
+      return await tx.serverSeed.update({
+        where: { id: active.id },
+        data: { clientSeed }
+      });
+    });
+  }
+
+  /**
+   * Reveal the active server seed and commit a new one
+   */
+  public static async rotate(
+    userId: string,
+    clientSeed?: string
+  ): Promise<{ previous: RevealedSeedPair; current: PublicSeedPair }> {
+    return await prisma.$transaction(async (tx) => {
+      const active = await this.getActiveSeed(userId, tx);
+
+      // Revealing the seed would expose the mine layout of an unfinished game
+      const openMinesGames = await tx.gameHistory.count({
+        where: {
+          userId,
+          gameType: 'MINES',
+          serverSeedId: active.id,
+          gameData: { path: ['isCompleted'], equals: false }
+        }
+      });
+
+      if (openMinesGames > 0) {
+        throw new AppError('Finish your active Mines game before rotating seeds', 400);
+      }
+
+      const revealed = await tx.serverSeed.update({
+        where: { id: active.id },
+        data: { isActive: false, revealedAt: new Date() }
+      });
+
+      const next = await this.createSeed(tx, userId, clientSeed || active.clientSeed);
+
+      return {
+        previous: this.toRevealed(revealed),
+        current: this.toPublic(next)
+      };
+    });
+  }
+
+  /**
+   * List the user's rotated-out seed pairs
+   */
+  public static async getRevealedSeeds(
+    userId: string,
+    page: number,
+    limit: number
+  ): Promise<{ seeds: RevealedSeedPair[]; total: number }> {
+    const where = { userId, isActive: false };
+
+    const [seeds, total] = await Promise.all([
+      prisma.serverSeed.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.serverSeed.count({ where })
+    ]);
+
+    return {
+      seeds: seeds.map(seed => this.toRevealed(seed)),
+      total
+    };
+  }
+
+  /**
+   * Recompute a game outcome from its seeds and parameters
+   */
+  public static computeOutcome(params: VerifyParams): VerificationOutcome {
+    const { gameType, serverSeed, clientSeed, nonce } = params;
+    const serverSeedHash = ProvablyFair.hashServerSeed(serverSeed);
+
+    try {
+      switch (gameType) {
+        case 'PLINKO': {
+          const result = PlinkoEngine.replayGame(
+            { rows: params.rows!, risk: params.risk!, betAmount: 1 },
+            serverSeed,
+            clientSeed,
+            nonce
+          );
+
+          return {
+            serverSeedHash,
+            ballPath: result.ballPath,
+            finalSlot: result.finalSlot,
+            multiplier: result.multiplier
+          };
+        }
+        case 'MINES':
+          return {
+            serverSeedHash,
+            minePositions: MinesEngine.generateMinePositions(params.gridSize!, params.mineCount!, serverSeed, clientSeed, nonce)
+          };
+        case 'CRASH':
+          return {
+            serverSeedHash,
+            crashPoint: CrashEngine.calculateCrashPoint(serverSeed, clientSeed, nonce, params.houseEdge)
+          };
+        default:
+          throw new Error('Invalid game type');
+      }
+    } catch (error) {
+      throw new AppError((error as Error).message, 400);
+    }
+  }
+
+  /**
+   * Look up one of the user's bets and verify it once its server seed is revealed
+   */
+  public static async getBetVerification(userId: string, betId: string): Promise<BetVerification> {
+    const record = await prisma.gameHistory.findUnique({
+      where: { id: betId },
+      include: { serverSeed: true }
+    });
+
+    if (!record || record.userId !== userId) {
+      throw new AppError('Bet not found', 404);
+    }
+
+    const gameData = record.gameData as Record<string, any>;
+
+    // Only rotated-out seeds may be shown, otherwise future bets become predictable
+    const serverSeed = record.gameType === 'CRASH'
+      ? await CrashChainService.getRevealedHash(gameData.chainId, gameData.gameNumber)
+      : record.serverSeed && !record.serverSeed.isActive ? record.serverSeed.seed : null;
+
+    const bet = {
+      id: record.id,
+      gameType: record.gameType,
+      betAmount: record.betAmount.toString(),
+      payout: record.payout.toString(),
+      multiplier: record.multiplier,
+      isWin: record.isWin,
+      gameData: record.gameData,
+      serverSeedHash: record.seed,
+      clientSeed: record.clientSeed,
+      nonce: record.nonce,
+      serverSeed,
+      createdAt: record.createdAt
+    };
+
+    if (!serverSeed || !record.clientSeed) {
+      return { bet, outcome: null, verified: null };
+    }
+
+    const outcome = this.computeOutcome({
+      gameType: record.gameType,
+      serverSeed,
+      clientSeed: record.clientSeed,
+      nonce: record.nonce,
+      rows: gameData.rows,
+      risk: gameData.risk,
+      gridSize: gameData.gridSize,
+      mineCount: gameData.mineCount,
+      houseEdge: gameData.houseEdge
+    });
+
+    return {
+      bet,
+      outcome,
+      verified: outcome.serverSeedHash === record.seed && this.matchesRecord(record.gameType, gameData, bet, serverSeed, outcome)
+    };
+  }
+
+  /**
+   * Check a recorded bet against the engines' own verification routines
+   */
+  private static matchesRecord(
+    gameType: GameType,
+    gameData: Record<string, any>,
+    bet: BetVerification['bet'],
+    serverSeed: string,
+    outcome: VerificationOutcome
+  ): boolean {
+    const betAmount = parseFloat(bet.betAmount);
+
+    switch (gameType) {
+      case 'PLINKO':
+        return PlinkoEngine.verifyResult(
+          { rows: gameData.rows, risk: gameData.risk, betAmount, multipliers: gameData.multipliers },
+          serverSeed,
+          {
+            ballPath: gameData.ballPath,
+            finalSlot: gameData.finalSlot,
+            multiplier: bet.multiplier,
+            payout: parseFloat(bet.payout),
+            isWin: bet.isWin,
+            serverSeedHash: bet.serverSeedHash,
+            clientSeed: bet.clientSeed!,
+            nonce: bet.nonce
+          }
+        );
+      case 'MINES': {
+        const minePositions = outcome.minePositions!;
+        const revealedCells: number[] = gameData.revealedCells || [];
+        const hitMine = revealedCells.some(cell => minePositions.includes(cell));
+
+        // A game that hit a mine must be recorded as a loss
+        if (hitMine && bet.isWin) {
+          return false;
+        }
+
+        const gameState: MinesGameState = {
+          gameId: bet.id,
+          gridSize: gameData.gridSize,
+          gridShape: gameData.gridShape,
+          mineCount: gameData.mineCount,
+          betAmount,
+          revealedCells,
+          minePositions,
+          isCompleted: gameData.isCompleted,
+          isWin: bet.isWin,
+          currentMultiplier: gameData.currentMultiplier,
+          totalPayout: parseFloat(bet.payout),
+          houseEdge: gameData.houseEdge ?? DEFAULT_GAME_LIMITS.houseEdge,
+          serverSeed,
+          clientSeed: bet.clientSeed!,
+          nonce: bet.nonce
+        };
+
+        return MinesEngine.verifyGame(gameState);
+      }
+      case 'CRASH':
+        return CrashEngine.verifyResult(serverSeed, bet.clientSeed!, bet.nonce, gameData.crashPoint, gameData.houseEdge);
+      default:
+        return false;
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import { Prisma } from '@prisma/client';
+import { prisma, redis } from '../server';
+import { AppError } from '../middleware/errorHandler';
+import { AuditContext } from './audit';
+import { BetSettlementService } from './betSettlement';
+import { CurrencyService } from './currencies';
+import { WalletService } from './wallets';
+
+export interface FaucetStatus {
+  currency: string;
+  amount: string;
+  balanceThreshold: string;
+  claimsToday: number;
+  maxClaimsPerDay: number;
+  // When the cooldown started by the last claim ends; null when none is running
+  nextClaimAt: string | null;
+  eligible: boolean;
+  // Why the user cannot claim right now
+  reason: string | null;
+}
+
+export interface FaucetClaim {
+  amount: Prisma.Decimal;
+  balance: Prisma.Decimal;
+  status: FaucetStatus;
+}
+
+interface FaucetConfig {
+  amount: Prisma.Decimal;
+  balanceThreshold: Prisma.Decimal;
+  cooldownSeconds: number;
+  maxClaimsPerDay: number;
+}
+
+/**
+ * Free play-money credits for players who have run out, paid from the bonus pool.
+ * The cooldown between claims and the count of claims per UTC day are kept in Redis
+ */
+export class FaucetService {
+  private static readonly CURRENCY = CurrencyService.DEFAULT_CURRENCY;
+  private static readonly DESCRIPTION = 'Faucet claim';
+  private static readonly DAY_SECONDS = 24 * 60 * 60;
+
+  private static readonly DEFAULT_AMOUNT = 100;
+  private static readonly DEFAULT_BALANCE_THRESHOLD = 10;
+  private static readonly DEFAULT_COOLDOWN_MINUTES = 60;
+  private static readonly DEFAULT_MAX_CLAIMS_PER_DAY = 3;
+
+  /**
+   * Whether the user can claim now, and if not, why and when they next can
+   */
+  public static async getStatus(userId: string, isVerified: boolean): Promise<FaucetStatus> {
+    const config = this.getConfig();
+
+    const [wallet, cooldownSeconds, claimsToday] = await Promise.all([
+      prisma.wallet.findUnique({ where: { userId_currency: { userId, currency: this.CURRENCY } } }),
+      redis.ttl(this.cooldownKey(userId)),
+      this.getClaimsToday(userId)
+    ]);
+
+    const available = wallet ? wallet.balance.minus(wallet.heldBalance) : new Prisma.Decimal(0);
+    const reason = !isVerified
+      ? 'Verify your email address to claim free credits'
+      : claimsToday >= config.maxClaimsPerDay
+        ? 'You have reached the daily limit of free credit claims'
+        : cooldownSeconds > 0
+          ? 'Free credits are on cooldown'
+          : available.greaterThanOrEqualTo(config.balanceThreshold)
+            ? `Free credits are only available below a balance of ${config.balanceThreshold.toString()} ${this.CURRENCY}`
+            : null;
+
+    return {
+      currency: this.CURRENCY,
+      amount: config.amount.toString(),
+      balanceThreshold: config.balanceThreshold.toString(),
+      claimsToday,
+      maxClaimsPerDay: config.maxClaimsPerDay,
+      nextClaimAt: cooldownSeconds > 0 ? new Date(Date.now() + cooldownSeconds * 1000).toISOString() : null,
+      eligible: reason === null,
+      reason
+    };
+  }
+
+  /**
+   * Credit the faucet amount as a bonus and start the cooldown; throws when the user is not eligible
+   */
+  public static async claim(userId: string, isVerified: boolean, audit?: AuditContext): Promise<FaucetClaim> {
+    const config = this.getConfig();
+
+    if (!isVerified) {
+      throw new AppError('Verify your email address to claim free credits', 403);
+    }
+
+    if (await this.getClaimsToday(userId) >= config.maxClaimsPerDay) {
+      throw new AppError('You have reached the daily limit of free credit claims', 429);
+    }
+
+    // Starting the cooldown before paying means concurrent claims cannot both get through
+    const started = await redis.setIfAbsent(this.cooldownKey(userId), new Date().toISOString(), config.cooldownSeconds);
+    if (!started) {
+      throw new AppError('Free credits are on cooldown', 429);
+    }
+
+    let balance: Prisma.Decimal;
+    try {
+      balance = await prisma.$transaction(async (tx) => {
+        const wallet = await WalletService.lock(tx, userId, this.CURRENCY);
+
+        if (wallet.balance.minus(wallet.heldBalance).greaterThanOrEqualTo(config.balanceThreshold)) {
+          throw new AppError(
+            `Free credits are only available below a balance of ${config.balanceThreshold.toString()} ${this.CURRENCY}`,
+            400
+          );
+        }
+
+        return await BetSettlementService.adjustBalance(
+          tx, userId, this.CURRENCY, config.amount, 'BONUS', this.DESCRIPTION, undefined, audit
+        );
+      });
+    } catch (error) {
+      // A claim that paid nothing does not count against the user
+      await redis.del(this.cooldownKey(userId));
+      throw error;
+    }
+
+    await redis.increment(this.claimsKey(userId), this.DAY_SECONDS);
+
+    return {
+      amount: config.amount,
+      balance,
+      status: await this.getStatus(userId, isVerified)
+    };
+  }
+
+  private static async getClaimsToday(userId: string): Promise<number> {
+    return parseInt(await redis.get(this.claimsKey(userId)) || '0');
+  }
+
+  private static getConfig(): FaucetConfig {
+    const minutes = parseFloat(process.env.FAUCET_COOLDOWN_MINUTES || '') || this.DEFAULT_COOLDOWN_MINUTES;
+
+    return {
+      amount: CurrencyService.round(this.CURRENCY, parseFloat(process.env.FAUCET_AMOUNT || '') || this.DEFAULT_AMOUNT),
+      balanceThreshold: new Prisma.Decimal(
+        parseFloat(process.env.FAUCET_BALANCE_THRESHOLD || '') || this.DEFAULT_BALANCE_THRESHOLD
+      ),
+      cooldownSeconds: Math.max(Math.round(minutes * 60), 1),
+      maxClaimsPerDay: parseInt(process.env.FAUCET_MAX_CLAIMS_PER_DAY || '') || this.DEFAULT_MAX_CLAIMS_PER_DAY
+    };
+  }
+
+  private static cooldownKey(userId: string): string {
+    return `faucet:cooldown:${userId}`;
+  }
+
+  // One counter per UTC day; it expires a day after the last claim
+  private static claimsKey(userId: string): string {
+    return `faucet:claims:${userId}:${new Date().toISOString().slice(0, 10)}`;
+  }
+}
@@ -0,0 +1,182 @@
+import { GameSettings, GameType, Prisma } from '@prisma/client';
+import { prisma, redis } from '../server';
+import { AppError } from '../middleware/errorHandler';
+import { AuditContext, AuditService } from './audit';
+import { DEFAULT_GAME_LIMITS, GameLimits } from './games/GameLimits';
+import { PlinkoEngine } from './games/PlinkoEngine';
+import { MinesEngine } from './games/MinesEngine';
+import { CrashEngine } from './games/CrashEngine';
+
+export interface GameSettingsValues extends GameLimits {
+  gameType: GameType;
+  isActive: boolean;
+}
+
+export type GameSettingsChanges = Partial<GameLimits> & { isActive?: boolean };
+
+/**
+ * Per-game house edge, bet limits and availability from the game_settings table,
+ * cached in Redis and pushed into the game engines whenever they are read
+ */
+export class GameSettingsService {
+  private static readonly CACHE_TTL = 60; // Seconds before another server's change is picked up
+  private static readonly GAME_TYPES: GameType[] = ['PLINKO', 'MINES', 'CRASH'];
+  private static readonly GAME_NAMES: Record<GameType, string> = {
+    PLINKO: 'Plinko',
+    MINES: 'Mines',
+    CRASH: 'Crash'
+  };
+
+  /**
+   * Get a game's current settings
+   */
+  public static async get(gameType: GameType): Promise<GameSettingsValues> {
+    let settings = await this.readCache(gameType);
+
+    if (!settings) {
+      const record = await prisma.gameSettings.findUnique({ where: { gameType } });
+      settings = this.fromRecord(gameType, record);
+      await this.cache(settings);
+    }
+
+    this.apply(settings);
+
+    return settings;
+  }
+
+  /**
+   * Get every game's current settings
+   */
+  public static async getAll(): Promise<GameSettingsValues[]> {
+    return await Promise.all(this.GAME_TYPES.map(gameType => this.get(gameType)));
+  }
+
+  /**
+   * Get a game's settings, rejecting the request when the game is disabled
+   */
+  public static async requireActive(gameType: GameType): Promise<GameSettingsValues> {
+    const settings = await this.get(gameType);
+
+    if (!settings.isActive) {
+      throw new AppError(`${this.GAME_NAMES[gameType]} is currently disabled`, 403);
+    }
+
+    return settings;
+  }
+
+  /**
+   * Change a game's settings, keeping any other keys stored alongside them; the audit entry commits with the change
+   */
+  public static async update(gameType: GameType, changes: GameSettingsChanges, audit?: AuditContext): Promise<GameSettingsValues> {
+    const settings = await prisma.$transaction(async (tx) => {
+      const record = await tx.gameSettings.findUnique({ where: { gameType } });
+      const current = this.fromRecord(gameType, record);
+      const next = { ...current, ...changes };
+
+      // Plinko pays from its payout tables, so its return is changed by editing those
+      if (gameType === 'PLINKO' && next.houseEdge !== current.houseEdge) {
+        throw new AppError('The Plinko house edge is set by its payout tables; edit the tables instead', 400);
+      }
+
+      if (next.minBet > next.maxBet) {
+        throw new AppError('Minimum bet cannot be greater than maximum bet', 400);
+      }
+
+      const stored = {
+        ...(record?.settings as Prisma.JsonObject | undefined),
+        house_edge: next.houseEdge,
+        min_bet: next.minBet,
+        max_bet: next.maxBet
+      } as Prisma.InputJsonObject;
+
+      const saved = await tx.gameSettings.upsert({
+        where: { gameType },
+        create: { gameType, settings: stored, isActive: next.isActive },
+        update: { settings: stored, isActive: next.isActive }
+      });
+
+      const updated = this.fromRecord(gameType, saved);
+
+      await AuditService.record({
+        ...audit,
+        action: 'admin.game_settings_updated',
+        entity: `GameSettings:${gameType}`,
+        before: { ...current },
+        after: { ...updated }
+      }, tx);
+
+      return updated;
+    });
+
+    await this.cache(settings);
+    this.apply(settings);
+
+    return settings;
+  }
+
+  /**
+   * Push every game's settings into its engine; called once at startup
+   */
+  public static async load(): Promise<void> {
+    await this.getAll();
+  }
+
+  /**
+   * Stored settings use the snake_case keys of the seed data; anything missing falls
+   * back to the <GAME>_HOUSE_EDGE environment variable and the built-in defaults
+   */
+  private static fromRecord(gameType: GameType, record: GameSettings | null): GameSettingsValues {
+    const stored = (record?.settings ?? {}) as Record<string, any>;
+    const envHouseEdge = parseFloat(process.env[`${gameType}_HOUSE_EDGE`] || '');
+
+    return {
+      gameType,
+      houseEdge: stored.house_edge ?? (isNaN(envHouseEdge) ? DEFAULT_GAME_LIMITS.houseEdge : envHouseEdge),
+      minBet: stored.min_bet ?? DEFAULT_GAME_LIMITS.minBet,
+      maxBet: stored.max_bet ?? DEFAULT_GAME_LIMITS.maxBet,
+      isActive: record?.isActive ?? true
+    };
+  }
+
+  private static apply(settings: GameSettingsValues): void {
+    const limits: GameLimits = {
+      houseEdge: settings.houseEdge,
+      minBet: settings.minBet,
+      maxBet: settings.maxBet
+    };
+
+    switch (settings.gameType) {
+      case 'PLINKO':
+        PlinkoEngine.configure(limits);
+        break;
+      case 'MINES':
+        MinesEngine.configure(limits);
+        break;
+      case 'CRASH':
+        CrashEngine.configure(limits);
+        break;
+    }
+  }
+
+  private static async cache(settings: GameSettingsValues): Promise<void> {
+    try {
+      await redis.set(this.cacheKey(settings.gameType), JSON.stringify(settings), this.CACHE_TTL);
+    } catch (error) {
+      console.error('Failed to cache game settings in Redis:', error);
+    }
+  }
+
+  private static async readCache(gameType: GameType): Promise<GameSettingsValues | null> {
+    try {
+      const cached = await redis.get(this.cacheKey(gameType));
+      return cached ? JSON.parse(cached) as GameSettingsValues : null;
+    } catch (error) {
+      console.error('Failed to read game settings from Redis:', error);
+      return null;
+    }
+  }
+
+  private static cacheKey(gameType: GameType): string {
+    return `game_settings:${gameType}`;
+  }
+}
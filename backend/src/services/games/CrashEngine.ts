@@ -1,27 +1,50 @@
 import crypto from 'crypto';
 import { EventEmitter } from 'events';
+import { ProvablyFair } from './ProvablyFair';
+import { DEFAULT_GAME_LIMITS, GameLimits } from './GameLimits';
 
 export interface CrashConfig {
   betAmount: number;
+  currency: string;
   autoCashOut?: number; // Auto cash out at this multiplier
 }
 
+export type CrashPhase = 'BETTING' | 'RUNNING' | 'CRASHED';
+
 export interface CrashGameState {
   roundId: string;
+  phase: CrashPhase;
   startTime: number;
   currentMultiplier: number;
   crashPoint: number;
   isActive: boolean;
   isCrashed: boolean;
   players: Map<string, CrashPlayer>;
-  seed: string;
-  nonce: number;
+  chainId: string;
+  gameNumber: number;
+  hash: string;
+  previousHash: string;
+  salt: string;
+  houseEdge: number;
+}
+
+export interface CrashRoundSeed {
+  chainId: string;
+  gameNumber: number;
+  hash: string;
+  salt: string;
+}
+
+export interface CrashSeedProvider {
+  nextRound(): Promise<CrashRoundSeed>;
+  revealRound(chainId: string, gameNumber: number): void;
 }
 
 export interface CrashPlayer {
   userId: string;
   username: string;
   betAmount: number;
+  currency: string;
   autoCashOut?: number;
   cashedOut: boolean;
   cashOutMultiplier?: number;
@@ -33,42 +56,91 @@ export interface CrashResult {
   crashPoint: number;
   cashedOut: boolean;
   cashOutMultiplier?: number;
+  currency: string;
   payout: number;
   profit: number;
 }
 
+export interface CrashRoundOpenedEvent {
+  roundId: string;
+  chainId: string;
+  gameNumber: number;
+  previousHash: string;
+  salt: string;
+  houseEdge: number;
+}
+
+export interface CrashRoundStartedEvent {
+  roundId: string;
+  startTime: number;
+  gameNumber: number;
+}
+
+export interface CrashMultiplierUpdateEvent {
+  roundId: string;
+  multiplier: number;
+  elapsed: number;
+}
+
+export interface CrashBetPlacedEvent {
+  roundId: string;
+  userId: string;
+  username: string;
+  betAmount: number;
+  currency: string;
+  autoCashOut?: number;
+}
+
+export interface CrashCashOutEvent {
+  roundId: string;
+  userId: string;
+  username: string;
+  multiplier: number;
+  payout: number;
+  auto?: boolean;
+}
+
+export interface CrashGameCrashedEvent {
+  roundId: string;
+  crashPoint: number;
+  gameNumber: number;
+  hash: string;
+  salt: string;
+  houseEdge: number;
+  results: Array<{ userId: string; result: CrashResult }>;
+}
+
 export class CrashEngine extends EventEmitter {
-  private static readonly HOUSE_EDGE = 0.01; // 1% house edge
   private static readonly MIN_MULTIPLIER = 1.00;
   private static readonly MAX_MULTIPLIER = 1000000; // 1M max multiplier
-  private static readonly GAME_DURATION = 20000; // 20 seconds max game duration
   private static readonly MULTIPLIER_GROWTH_RATE = 0.1; // 10% per 100ms
 
+  private static limits: GameLimits = DEFAULT_GAME_LIMITS;
+
   private gameState: CrashGameState | null = null;
   private gameInterval: NodeJS.Timeout | null = null;
-  private roundCounter = 0;
 
-  /**
-   * Generate cryptographically secure random number
-   */
-  private static generateRandom(seed: string, nonce: number): number {
-    const hmac = crypto.createHmac('sha256', seed);
-    hmac.update(`${nonce}`);
-    const hash = hmac.digest('hex');
-    
-    const randomInt = parseInt(hash.substring(0, 8), 16);
-    return randomInt / 0xffffffff;
+  constructor(private seedProvider: CrashSeedProvider) {
+    super();
   }
 
   /**
    * Calculate crash point using exponential distribution
+   * For chain rounds the server seed is the round hash, the client seed the chain salt and the nonce the game number;
+   * rounds record the house edge they were played with, which defaults to the current one
    */
-  private static calculateCrashPoint(seed: string, nonce: number): number {
-    const random = this.generateRandom(seed, nonce);
+  public static calculateCrashPoint(
+    serverSeed: string,
+    clientSeed: string,
+    nonce: number,
+    houseEdge: number = this.limits.houseEdge
+  ): number {
+    // Flip [0, 1) to (0, 1] so the logarithm below never sees zero
+    const random = 1 - ProvablyFair.generateFloat(serverSeed, clientSeed, nonce, 0);
     
     // Use exponential distribution with house edge
     // Formula: -ln(random) / lambda, where lambda controls the distribution
-    const lambda = 1 / (1 - this.HOUSE_EDGE);
+    const lambda = 1 / (1 - houseEdge);
     const crashPoint = Math.max(
       this.MIN_MULTIPLIER,
       Math.min(
@@ -100,8 +172,9 @@ export class CrashEngine extends EventEmitter {
   private static validateConfig(config: CrashConfig): void {
     const { betAmount, autoCashOut } = config;
 
-    if (betAmount <= 0 || betAmount > 10000) {
-      throw new Error('Bet amount must be between 0.01 and 10000');
+    const { minBet, maxBet } = this.limits;
+    if (betAmount < minBet || betAmount > maxBet) {
+      throw new Error(`Bet amount must be between ${minBet} and ${maxBet}`);
     }
 
     if (autoCashOut !== undefined) {
@@ -112,35 +185,77 @@ export class CrashEngine extends EventEmitter {
   }
 
   /**
-   * Start a new crash game round
+   * Apply the operator's current settings; a round in progress keeps its house edge
    */
-  public startNewRound(): CrashGameState {
-    if (this.gameState && this.gameState.isActive) {
-      throw new Error('Game is already active');
+  public static configure(limits: GameLimits): void {
+    this.limits = limits;
+  }
+
+  public static getLimits(): GameLimits {
+    return this.limits;
+  }
+
+  /**
+   * Open a new round for betting
+   */
+  public async openRound(): Promise<CrashGameState> {
+    if (this.gameState && this.gameState.phase !== 'CRASHED') {
+      throw new Error('Previous round has not finished');
     }
 
-    this.roundCounter++;
-    const seed = this.generateSeed();
-    const nonce = this.roundCounter;
+    // Take the next hash from the pre-generated chain
+    const { chainId, gameNumber, hash, salt } = await this.seedProvider.nextRound();
     
-    const crashPoint = CrashEngine.calculateCrashPoint(seed, nonce);
+    const { houseEdge } = CrashEngine.limits;
+    const crashPoint = CrashEngine.calculateCrashPoint(hash, salt, gameNumber, houseEdge);
     
     this.gameState = {
       roundId: crypto.randomUUID(),
-      startTime: Date.now(),
+      phase: 'BETTING',
+      startTime: 0,
       currentMultiplier: CrashEngine.MIN_MULTIPLIER,
       crashPoint,
-      isActive: true,
+      isActive: false,
       isCrashed: false,
       players: new Map(),
-      seed,
-      nonce
+      chainId,
+      gameNumber,
+      hash,
+      previousHash: ProvablyFair.hashServerSeed(hash),
+      salt,
+      houseEdge
     };
 
+    // The previous hash is already public, so it doubles as this round's commitment
+    this.emit('roundOpened', {
+      roundId: this.gameState.roundId,
+      chainId,
+      gameNumber,
+      previousHash: this.gameState.previousHash,
+      salt,
+      houseEdge
+    } satisfies CrashRoundOpenedEvent);
+
+    return this.gameState;
+  }
+
+  /**
+   * Close betting and start the multiplier climbing
+   */
+  public startRound(): CrashGameState {
+    if (!this.gameState || this.gameState.phase !== 'BETTING') {
+      throw new Error('No round is open for betting');
+    }
+
+    this.gameState.phase = 'RUNNING';
+    this.gameState.isActive = true;
+    this.gameState.startTime = Date.now();
+
     this.emit('roundStarted', {
       roundId: this.gameState.roundId,
-      startTime: this.gameState.startTime
-    });
+      startTime: this.gameState.startTime,
+      gameNumber: this.gameState.gameNumber
+    } satisfies CrashRoundStartedEvent);
 
     this.startGameLoop();
     return this.gameState;
@@ -152,8 +267,8 @@ export class CrashEngine extends EventEmitter {
   public placeBet(userId: string, username: string, config: CrashConfig): void {
     CrashEngine.validateConfig(config);
 
-    if (!this.gameState || !this.gameState.isActive || this.gameState.isCrashed) {
-      throw new Error('No active game to place bet on');
+    if (!this.gameState || this.gameState.phase !== 'BETTING') {
+      throw new Error('Bets are only accepted during the betting phase');
     }
 
     if (this.gameState.players.has(userId)) {
@@ -164,6 +279,7 @@ export class CrashEngine extends EventEmitter {
       userId,
       username,
       betAmount: config.betAmount,
+      currency: config.currency,
       autoCashOut: config.autoCashOut,
       cashedOut: false,
       payout: 0
@@ -176,8 +292,9 @@ export class CrashEngine extends EventEmitter {
       userId,
       username,
       betAmount: config.betAmount,
+      currency: config.currency,
       autoCashOut: config.autoCashOut
-    });
+    } satisfies CrashBetPlacedEvent);
   }
 
   /**
@@ -207,6 +324,7 @@ export class CrashEngine extends EventEmitter {
       crashPoint: this.gameState.crashPoint,
       cashedOut: true,
       cashOutMultiplier: this.gameState.currentMultiplier,
+      currency: player.currency,
       payout: player.payout,
       profit: player.payout - player.betAmount
     };
@@ -217,7 +335,7 @@ export class CrashEngine extends EventEmitter {
       username: player.username,
       multiplier: this.gameState.currentMultiplier,
       payout: player.payout
-    });
+    } satisfies CrashCashOutEvent);
 
     return result;
   }
@@ -237,28 +355,26 @@ export class CrashEngine extends EventEmitter {
       // Update current multiplier
       this.gameState.currentMultiplier = CrashEngine.calculateCurrentMultiplier(this.gameState.startTime);
 
+      // Check if we've reached the crash point; a tick can jump past it, so the round stops there
+      const crashed = this.gameState.currentMultiplier >= this.gameState.crashPoint;
+      if (crashed) {
+        this.gameState.currentMultiplier = this.gameState.crashPoint;
+      }
+
       // Check for auto cash outs
       this.processAutoCashOuts();
 
-      // Check if we've reached the crash point
-      if (this.gameState.currentMultiplier >= this.gameState.crashPoint) {
+      if (crashed) {
         this.crashGame();
         return;
       }
 
-      // Check for maximum game duration
-      const elapsed = Date.now() - this.gameState.startTime;
-      if (elapsed >= CrashEngine.GAME_DURATION) {
-        this.crashGame();
-        return;
-      }
-
-      // Emit multiplier update
+      // Emit multiplier update; the round runs until its chain crash point, however long that takes
       this.emit('multiplierUpdate', {
         roundId: this.gameState.roundId,
         multiplier: this.gameState.currentMultiplier,
-        elapsed
-      });
+        elapsed: Date.now() - this.gameState.startTime
+      } satisfies CrashMultiplierUpdateEvent);
 
     }, 100); // Update every 100ms
   }
@@ -270,8 +386,10 @@ export class CrashEngine extends EventEmitter {
     if (!this.gameState) return;
 
     this.gameState.players.forEach((player, userId) => {
+      // Targets above the crash point were never reached, however far the last tick jumped
       if (!player.cashedOut && 
           player.autoCashOut && 
+          player.autoCashOut <= this.gameState!.crashPoint &&
           this.gameState!.currentMultiplier >= player.autoCashOut) {
         
         player.cashedOut = true;
@@ -285,7 +403,7 @@ export class CrashEngine extends EventEmitter {
           multiplier: player.autoCashOut,
           payout: player.payout,
           auto: true
-        });
+        } satisfies CrashCashOutEvent);
       }
     });
   }
@@ -296,6 +414,7 @@ export class CrashEngine extends EventEmitter {
   private crashGame(): void {
     if (!this.gameState) return;
 
+    this.gameState.phase = 'CRASHED';
     this.gameState.isCrashed = true;
     this.gameState.isActive = false;
     this.stopGameLoop();
@@ -309,6 +428,7 @@ export class CrashEngine extends EventEmitter {
         crashPoint: this.gameState!.crashPoint,
         cashedOut: player.cashedOut,
         cashOutMultiplier: player.cashOutMultiplier,
+        currency: player.currency,
         payout: player.cashedOut ? player.payout : 0,
         profit: player.cashedOut ? player.payout - player.betAmount : -player.betAmount
       };
@@ -316,11 +436,18 @@ export class CrashEngine extends EventEmitter {
       results.push({ userId, result });
     });
 
+    // Reveal the round hash now that the round is over
+    this.seedProvider.revealRound(this.gameState.chainId, this.gameState.gameNumber);
+
     this.emit('gameCrashed', {
       roundId: this.gameState.roundId,
       crashPoint: this.gameState.crashPoint,
+      gameNumber: this.gameState.gameNumber,
+      hash: this.gameState.hash,
+      salt: this.gameState.salt,
+      houseEdge: this.gameState.houseEdge,
       results
-    });
+    } satisfies CrashGameCrashedEvent);
   }
 
   /**
@@ -341,9 +468,16 @@ export class CrashEngine extends EventEmitter {
   }
 
   /**
-   * Get game statistics
+   * Get the players in the current round
+   */
+  public getPlayers(): CrashPlayer[] {
+    return this.gameState ? Array.from(this.gameState.players.values()) : [];
+  }
+
+  /**
+   * Get game statistics, at the current house edge unless one is given
    */
-  public static getGameStats(): {
+  public static getGameStats(houseEdge: number = this.limits.houseEdge): {
     houseEdge: number;
     averageCrashPoint: number;
     minMultiplier: number;
@@ -351,11 +485,11 @@ export class CrashEngine extends EventEmitter {
     expectedReturn: number;
   } {
     // Theoretical average crash point with house edge
-    const averageCrashPoint = 1 / (1 - this.HOUSE_EDGE);
-    const expectedReturn = 1 - this.HOUSE_EDGE;
+    const averageCrashPoint = 1 / (1 - houseEdge);
+    const expectedReturn = 1 - houseEdge;
 
     return {
-      houseEdge: this.HOUSE_EDGE * 100,
+      houseEdge: houseEdge * 100,
       averageCrashPoint,
       minMultiplier: this.MIN_MULTIPLIER,
       maxMultiplier: this.MAX_MULTIPLIER,
@@ -363,19 +497,18 @@ export class CrashEngine extends EventEmitter {
     };
   }
 
-  /**
-   * Generate cryptographically secure seed
-   */
-  public generateSeed(): string {
-    return crypto.randomBytes(32).toString('hex');
-  }
-
   /**
    * Verify game result for provably fair gaming
    */
-  public static verifyResult(seed: string, nonce: number, claimedCrashPoint: number): boolean {
+  public static verifyResult(
+    serverSeed: string,
+    clientSeed: string,
+    nonce: number,
+    claimedCrashPoint: number,
+    houseEdge?: number
+  ): boolean {
     try {
-      const calculatedCrashPoint = this.calculateCrashPoint(seed, nonce);
+      const calculatedCrashPoint = this.calculateCrashPoint(serverSeed, clientSeed, nonce, houseEdge);
       return Math.abs(calculatedCrashPoint - claimedCrashPoint) < 0.01;
     } catch (error) {
       return false;
@@ -385,26 +518,26 @@ export class CrashEngine extends EventEmitter {
   /**
    * Calculate probability of crash at specific multiplier
    */
-  public static calculateCrashProbability(multiplier: number): number {
+  public static calculateCrashProbability(multiplier: number, houseEdge: number = this.limits.houseEdge): number {
     if (multiplier < this.MIN_MULTIPLIER) return 0;
     if (multiplier >= this.MAX_MULTIPLIER) return 1;
 
     // Exponential distribution CDF
-    const lambda = 1 / (1 - this.HOUSE_EDGE);
+    const lambda = 1 / (1 - houseEdge);
     return 1 - Math.exp(-lambda * (multiplier - 1));
   }
 
   /**
    * Get optimal cash out strategy
    */
-  public static getOptimalStrategy(): {
+  public static getOptimalStrategy(houseEdge: number = this.limits.houseEdge): {
     recommendedCashOut: number;
     expectedValue: number;
     winProbability: number;
   } {
     // Kelly criterion for optimal betting
-    const optimalMultiplier = 1 / (1 - this.HOUSE_EDGE);
-    const winProbability = 1 - this.calculateCrashProbability(optimalMultiplier);
+    const optimalMultiplier = 1 / (1 - houseEdge);
+    const winProbability = 1 - this.calculateCrashProbability(optimalMultiplier, houseEdge);
     const expectedValue = winProbability * optimalMultiplier - (1 - winProbability);
 
     return {
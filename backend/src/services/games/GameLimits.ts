@@ -0,0 +1,14 @@
+/**
+ * Operator-controlled limits each game engine validates against
+ */
+export interface GameLimits {
+  houseEdge: number; // Fraction of each bet kept by the house, e.g. 0.01 for 1%
+  minBet: number;
+  maxBet: number;
+}
+
+export const DEFAULT_GAME_LIMITS: GameLimits = {
+  houseEdge: 0.01,
+  minBet: 0.01,
+  maxBet: 10000
+};
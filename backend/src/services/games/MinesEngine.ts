@@ -1,14 +1,23 @@
 import crypto from 'crypto';
+import { ProvablyFair } from './ProvablyFair';
+import { DEFAULT_GAME_LIMITS, GameLimits } from './GameLimits';
+
+export interface MinesGridShape {
+  rows: number;
+  columns: number;
+}
 
 export interface MinesConfig {
   gridSize: number;
   mineCount: number;
   betAmount: number;
+  gridShape?: MinesGridShape; // Defaults to a square grid of gridSize cells
 }
 
 export interface MinesGameState {
   gameId: string;
   gridSize: number;
+  gridShape: MinesGridShape;
   mineCount: number;
   betAmount: number;
   revealedCells: number[];
@@ -17,7 +26,9 @@ export interface MinesGameState {
   isWin: boolean;
   currentMultiplier: number;
   totalPayout: number;
-  seed: string;
+  houseEdge: number; // Fixed when the game starts so later settings changes do not affect it
+  serverSeed: string;
+  clientSeed: string;
   nonce: number;
 }
 
@@ -30,28 +41,37 @@ export interface MinesRevealResult {
   isWin: boolean;
 }
 
+export interface MinesBatchResult {
+  reveals: MinesRevealResult[];
+  cashedOut: boolean;
+  isWin: boolean;
+  payout: number;
+}
+
+export type MinesPattern = 'corners' | 'diagonal' | 'cross' | 'border';
+
 export class MinesEngine {
-  private static readonly HOUSE_EDGE = 0.01; // 1% house edge
-  private static readonly MAX_GRID_SIZE = 25; // 5x5 grid
+  private static readonly MIN_GRID_SIZE = 9; // 3x3 grid
+  private static readonly MAX_GRID_SIZE = 100; // 10x10 grid
+  public static readonly MIN_SIDE = 3;
+  public static readonly MAX_SIDE = 10;
   private static readonly MIN_MINES = 1;
-  private static readonly MAX_MINES = 24;
+  private static readonly MAX_MULTIPLIER = 1000000;
 
-  /**
-   * Generate cryptographically secure random number
-   */
-  private static generateRandom(seed: string, nonce: number): number {
-    const hmac = crypto.createHmac('sha256', seed);
-    hmac.update(`${nonce}`);
-    const hash = hmac.digest('hex');
-    
-    const randomInt = parseInt(hash.substring(0, 8), 16);
-    return randomInt / 0xffffffff;
-  }
+  private static limits: GameLimits = DEFAULT_GAME_LIMITS;
+
+  public static readonly PATTERNS: MinesPattern[] = ['corners', 'diagonal', 'cross', 'border'];
 
   /**
    * Generate mine positions using Fisher-Yates shuffle with provably fair randomness
    */
-  private static generateMinePositions(gridSize: number, mineCount: number, seed: string, nonce: number): number[] {
+  public static generateMinePositions(
+    gridSize: number,
+    mineCount: number,
+    serverSeed: string,
+    clientSeed: string,
+    nonce: number
+  ): number[] {
     if (mineCount >= gridSize) {
       throw new Error('Mine count cannot be greater than or equal to grid size');
     }
@@ -61,7 +81,7 @@ export class MinesEngine {
     
     // Shuffle using Fisher-Yates with provably fair randomness
     for (let i = gridSize - 1; i > 0; i--) {
-      const random = this.generateRandom(seed, nonce + i);
+      const random = ProvablyFair.generateFloat(serverSeed, clientSeed, nonce, i);
       const j = Math.floor(random * (i + 1));
       [positions[i], positions[j]] = [positions[j], positions[i]];
     }
@@ -76,7 +96,8 @@ export class MinesEngine {
   private static calculateMultiplier(
     revealedSafeCells: number,
     totalCells: number,
-    mineCount: number
+    mineCount: number,
+    houseEdge: number
   ): number {
     if (revealedSafeCells === 0) {
       return 1;
@@ -98,12 +119,15 @@ export class MinesEngine {
       const remainingTotalCells = totalCells - i;
       const probability = remainingSafeCells / remainingTotalCells;
       
-      // Apply house edge
-      const adjustedProbability = probability * (1 - this.HOUSE_EDGE);
-      multiplier *= (1 / adjustedProbability);
+      multiplier *= (1 / probability);
     }
 
-    return Math.round(multiplier * 100) / 100; // Round to 2 decimal places
+    // Apply house edge once to the fair odds, so every cash out returns 1 - houseEdge
+    multiplier *= 1 - houseEdge;
+
+    // Rounding down keeps the return within the edge; the small offset absorbs floating point error on exact values.
+    // Large grids can reach astronomical odds, so payouts are capped
+    return Math.min(Math.floor(multiplier * 100 + 1e-9) / 100, this.MAX_MULTIPLIER); // 2 decimal places
   }
 
   /**
@@ -112,34 +136,68 @@ export class MinesEngine {
   private static validateConfig(config: MinesConfig): void {
     const { gridSize, mineCount, betAmount } = config;
 
-    if (gridSize < 9 || gridSize > this.MAX_GRID_SIZE) {
-      throw new Error(`Grid size must be between 9 and ${this.MAX_GRID_SIZE}`);
+    if (gridSize < this.MIN_GRID_SIZE || gridSize > this.MAX_GRID_SIZE) {
+      throw new Error(`Grid size must be between ${this.MIN_GRID_SIZE} and ${this.MAX_GRID_SIZE}`);
     }
 
-    if (mineCount < this.MIN_MINES || mineCount > this.MAX_MINES || mineCount >= gridSize) {
-      throw new Error(`Mine count must be between ${this.MIN_MINES} and ${Math.min(this.MAX_MINES, gridSize - 1)}`);
+    // Throws for a shape that does not fit the grid
+    this.getGridShape(gridSize, config.gridShape);
+
+    if (mineCount < this.MIN_MINES || mineCount >= gridSize) {
+      throw new Error(`Mine count must be between ${this.MIN_MINES} and ${gridSize - 1}`);
     }
 
-    if (betAmount <= 0 || betAmount > 10000) {
-      throw new Error('Bet amount must be between 0.01 and 10000');
+    const { minBet, maxBet } = this.limits;
+    if (betAmount < minBet || betAmount > maxBet) {
+      throw new Error(`Bet amount must be between ${minBet} and ${maxBet}`);
     }
   }
 
+  /**
+   * Apply the operator's current settings
+   */
+  public static configure(limits: GameLimits): void {
+    this.limits = limits;
+  }
+
+  public static getLimits(): GameLimits {
+    return this.limits;
+  }
+
+  /**
+   * Resolve the rows and columns of a grid, defaulting to a square one
+   */
+  public static getGridShape(gridSize: number, gridShape?: MinesGridShape): MinesGridShape {
+    const shape = gridShape || { rows: Math.sqrt(gridSize), columns: Math.sqrt(gridSize) };
+    const { rows, columns } = shape;
+
+    if (!Number.isInteger(rows) || !Number.isInteger(columns) || rows * columns !== gridSize) {
+      throw new Error(gridShape ? 'Grid shape does not match grid size' : 'Grid size must be a square number unless rows and columns are given');
+    }
+
+    if (rows < this.MIN_SIDE || rows > this.MAX_SIDE || columns < this.MIN_SIDE || columns > this.MAX_SIDE) {
+      throw new Error(`Grid rows and columns must be between ${this.MIN_SIDE} and ${this.MAX_SIDE}`);
+    }
+
+    return { rows, columns };
+  }
+
   /**
    * Start a new Mines game
    */
-  public static startGame(config: MinesConfig, seed: string, nonce: number): MinesGameState {
+  public static startGame(config: MinesConfig, serverSeed: string, clientSeed: string, nonce: number): MinesGameState {
     this.validateConfig(config);
 
     const { gridSize, mineCount, betAmount } = config;
     const gameId = crypto.randomUUID();
 
     // Generate mine positions
-    const minePositions = this.generateMinePositions(gridSize, mineCount, seed, nonce);
+    const minePositions = this.generateMinePositions(gridSize, mineCount, serverSeed, clientSeed, nonce);
 
     return {
       gameId,
       gridSize,
+      gridShape: this.getGridShape(gridSize, config.gridShape),
       mineCount,
       betAmount,
       revealedCells: [],
@@ -148,7 +206,9 @@ export class MinesEngine {
       isWin: false,
       currentMultiplier: 1,
       totalPayout: 0,
-      seed,
+      houseEdge: this.limits.houseEdge,
+      serverSeed,
+      clientSeed,
       nonce
     };
   }
@@ -197,7 +257,8 @@ export class MinesEngine {
       const newMultiplier = this.calculateMultiplier(
         safeCellsRevealed,
         gameState.gridSize,
-        gameState.mineCount
+        gameState.mineCount,
+        gameState.houseEdge
       );
 
       gameState.currentMultiplier = newMultiplier;
@@ -222,6 +283,83 @@ export class MinesEngine {
     }
   }
 
+  /**
+   * Reveal cells in order, stopping at the first mine; if every cell is safe the game is cashed out
+   */
+  public static revealBatch(gameState: MinesGameState, cells: number[]): MinesBatchResult {
+    if (cells.length === 0) {
+      throw new Error('Pick at least one cell');
+    }
+
+    if (new Set(cells).size !== cells.length) {
+      throw new Error('Each cell can only be picked once');
+    }
+
+    // Check every pick before revealing any, so a bad pick leaves the game untouched
+    for (const cell of cells) {
+      if (!Number.isInteger(cell) || cell < 0 || cell >= gameState.gridSize) {
+        throw new Error('Invalid cell index');
+      }
+
+      if (gameState.revealedCells.includes(cell)) {
+        throw new Error('Cell already revealed');
+      }
+    }
+
+    const reveals: MinesRevealResult[] = [];
+
+    for (const cell of cells) {
+      const result = this.revealCell(gameState, cell);
+      reveals.push(result);
+
+      if (result.gameCompleted) {
+        break;
+      }
+    }
+
+    const cashedOut = !gameState.isCompleted;
+    if (cashedOut) {
+      this.cashOut(gameState);
+    }
+
+    return {
+      reveals,
+      cashedOut,
+      isWin: gameState.isWin,
+      payout: gameState.isWin ? gameState.totalPayout : 0
+    };
+  }
+
+  /**
+   * Get the cells of a preset pick pattern, in reveal order
+   */
+  public static getPattern(pattern: MinesPattern, gridShape: MinesGridShape): number[] {
+    const { rows, columns } = gridShape;
+    const last = columns - 1;
+    const cells: number[] = [];
+
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const onBorder = row === 0 || row === rows - 1 || column === 0 || column === last;
+        const onCross = row === Math.floor(rows / 2) || column === Math.floor(columns / 2);
+
+        const picked = {
+          corners: (row === 0 || row === rows - 1) && (column === 0 || column === last),
+          // Corner to corner, stretched across a rectangular grid
+          diagonal: column === Math.round(rows > 1 ? row * last / (rows - 1) : 0),
+          cross: onCross,
+          border: onBorder
+        }[pattern];
+
+        if (picked) {
+          cells.push(row * columns + column);
+        }
+      }
+    }
+
+    return cells;
+  }
+
   /**
    * Cash out the current game
    */
@@ -241,21 +379,29 @@ export class MinesEngine {
   }
 
   /**
-   * Get game statistics for a configuration
+   * Get game statistics for a configuration, at the current house edge unless one is given
    */
-  public static getGameStats(gridSize: number, mineCount: number) {
+  public static getGameStats(
+    gridSize: number,
+    mineCount: number,
+    gridShape?: MinesGridShape,
+    houseEdge: number = this.limits.houseEdge
+  ) {
     if (mineCount >= gridSize || mineCount < 1) {
       throw new Error('Invalid mine configuration');
     }
 
+    // Odds only depend on the number of cells, the shape is reported for display
+    const shape = this.getGridShape(gridSize, gridShape);
+
     const safeCells = gridSize - mineCount;
-    const maxMultiplier = this.calculateMultiplier(safeCells, gridSize, mineCount);
+    const maxMultiplier = this.calculateMultiplier(safeCells, gridSize, mineCount, houseEdge);
     
     // Calculate multipliers for each step
     const multipliers: { step: number; multiplier: number; probability: number }[] = [];
     
     for (let step = 1; step <= safeCells; step++) {
-      const multiplier = this.calculateMultiplier(step, gridSize, mineCount);
+      const multiplier = this.calculateMultiplier(step, gridSize, mineCount, houseEdge);
       
       // Calculate probability of reaching this step
       let probability = 1;
@@ -277,26 +423,20 @@ export class MinesEngine {
       return sum + (item.probability * item.multiplier);
     }, 0) / safeCells; // Average across all possible outcomes
 
-    const houseEdge = Math.max(0, (1 - expectedReturn) * 100);
+    const effectiveHouseEdge = Math.max(0, (1 - expectedReturn) * 100);
 
     return {
       gridSize,
+      gridShape: shape,
       mineCount,
       safeCells,
       maxMultiplier,
       expectedReturn,
-      houseEdge,
+      houseEdge: effectiveHouseEdge,
       multipliers
     };
   }
 
-  /**
-   * Generate cryptographically secure seed
-   */
-  public static generateSeed(): string {
-    return crypto.randomBytes(32).toString('hex');
-  }
-
   /**
    * Verify game result for provably fair gaming
    */
@@ -306,7 +446,8 @@ export class MinesEngine {
       const verifyMines = this.generateMinePositions(
         gameState.gridSize,
         gameState.mineCount,
-        gameState.seed,
+        gameState.serverSeed,
+        gameState.clientSeed,
         gameState.nonce
       );
 
@@ -323,7 +464,8 @@ export class MinesEngine {
       const expectedMultiplier = this.calculateMultiplier(
         safeCellsRevealed,
         gameState.gridSize,
-        gameState.mineCount
+        gameState.mineCount,
+        gameState.houseEdge
       );
 
       return Math.abs(gameState.currentMultiplier - expectedMultiplier) < 0.01;
@@ -335,12 +477,17 @@ export class MinesEngine {
   /**
    * Get optimal strategy recommendation
    */
-  public static getOptimalStrategy(gridSize: number, mineCount: number): {
+  public static getOptimalStrategy(
+    gridSize: number,
+    mineCount: number,
+    gridShape?: MinesGridShape,
+    houseEdge: number = this.limits.houseEdge
+  ): {
     recommendedCashOutStep: number;
     expectedValue: number;
     riskLevel: 'low' | 'medium' | 'high';
   } {
-    const stats = this.getGameStats(gridSize, mineCount);
+    const stats = this.getGameStats(gridSize, mineCount, gridShape, houseEdge);
     const safeCells = gridSize - mineCount;
     
     // Find step with best risk/reward ratio
@@ -1,9 +1,12 @@
-import crypto from 'crypto';
+import { ProvablyFair } from './ProvablyFair';
+import { DEFAULT_GAME_LIMITS, GameLimits } from './GameLimits';
 
 export interface PlinkoConfig {
   rows: number;
   risk: 'low' | 'medium' | 'high';
   betAmount: number;
+  // Payout table to use instead of the live one, e.g. when verifying an older bet
+  multipliers?: number[];
 }
 
 export interface PlinkoResult {
@@ -12,55 +15,78 @@ export interface PlinkoResult {
   multiplier: number;
   payout: number;
   isWin: boolean;
-  seed: string;
+  serverSeedHash: string;
+  clientSeed: string;
   nonce: number;
 }
 
+export interface PlinkoBatchResult {
+  balls: PlinkoResult[];
+  totalBet: number;
+  totalPayout: number;
+  profit: number;
+}
+
+export type PlinkoPayoutTables = Partial<Record<PlinkoConfig['risk'], Record<number, number[]>>>;
+
 export class PlinkoEngine {
-  private static readonly MULTIPLIERS = {
+  private static readonly MULTIPLIERS: Record<'low' | 'medium' | 'high', Record<number, number[]>> = {
     low: {
       8: [5.6, 2.1, 1.1, 1, 0.5, 1, 1.1, 2.1, 5.6],
-      12: [8.4, 3, 1.9, 1.2, 1, 0.7, 0.7, 1, 1.2, 1.9, 3, 8.4],
+      9: [5.6, 2, 1.6, 1, 0.7, 0.7, 1, 1.6, 2, 5.6],
+      10: [8.9, 3, 1.4, 1.1, 1, 0.5, 1, 1.1, 1.4, 3, 8.9],
+      11: [8.4, 3, 1.9, 1.3, 1, 0.7, 0.7, 1, 1.3, 1.9, 3, 8.4],
+      12: [10, 3, 1.6, 1.4, 1.1, 1, 0.5, 1, 1.1, 1.4, 1.6, 3, 10],
+      13: [8.1, 4, 3, 1.9, 1.2, 0.9, 0.7, 0.7, 0.9, 1.2, 1.9, 3, 4, 8.1],
+      14: [7.1, 4, 1.9, 1.4, 1.3, 1.1, 1, 0.5, 1, 1.1, 1.3, 1.4, 1.9, 4, 7.1],
+      15: [15, 8, 3, 2, 1.5, 1.1, 1, 0.7, 0.7, 1, 1.1, 1.5, 2, 3, 8, 15],
       16: [16, 9, 2, 1.4, 1.4, 1.2, 1.1, 1, 0.5, 1, 1.1, 1.2, 1.4, 1.4, 2, 9, 16]
     },
     medium: {
       8: [13, 3, 1.3, 0.7, 0.4, 0.7, 1.3, 3, 13],
-      12: [24, 5, 2, 1.4, 0.6, 0.4, 0.4, 0.6, 1.4, 2, 5, 24],
-      16: [33, 11, 4, 2, 1.1, 0.6, 0.3, 0.2, 0.2, 0.3, 0.6, 1.1, 2, 4, 11, 33]
+      9: [18, 4, 1.7, 0.9, 0.5, 0.5, 0.9, 1.7, 4, 18],
+      10: [22, 5, 2, 1.4, 0.6, 0.4, 0.6, 1.4, 2, 5, 22],
+      11: [24, 6, 3, 1.8, 0.7, 0.5, 0.5, 0.7, 1.8, 3, 6, 24],
+      12: [33, 11, 4, 2, 1.1, 0.6, 0.3, 0.6, 1.1, 2, 4, 11, 33],
+      13: [43, 13, 6, 3, 1.3, 0.7, 0.4, 0.4, 0.7, 1.3, 3, 6, 13, 43],
+      14: [58, 15, 7, 4, 1.9, 1, 0.5, 0.2, 0.5, 1, 1.9, 4, 7, 15, 58],
+      15: [88, 18, 11, 5, 3, 1.3, 0.5, 0.3, 0.3, 0.5, 1.3, 3, 5, 11, 18, 88],
+      16: [110, 41, 10, 5, 3, 1.5, 1, 0.5, 0.3, 0.5, 1, 1.5, 3, 5, 10, 41, 110]
     },
     high: {
       8: [29, 4, 1.5, 0.3, 0.2, 0.3, 1.5, 4, 29],
-      12: [43, 7, 2, 0.6, 0.2, 0.1, 0.1, 0.2, 0.6, 2, 7, 43],
-      16: [58, 15, 7, 2, 0.7, 0.2, 0.1, 0.1, 0.1, 0.1, 0.2, 0.7, 2, 7, 15, 58]
+      9: [43, 7, 2, 0.6, 0.2, 0.2, 0.6, 2, 7, 43],
+      10: [76, 10, 3, 0.9, 0.3, 0.2, 0.3, 0.9, 3, 10, 76],
+      11: [120, 14, 5.2, 1.4, 0.4, 0.2, 0.2, 0.4, 1.4, 5.2, 14, 120],
+      12: [170, 24, 8.1, 2, 0.7, 0.2, 0.2, 0.2, 0.7, 2, 8.1, 24, 170],
+      13: [260, 37, 11, 4, 1, 0.2, 0.2, 0.2, 0.2, 1, 4, 11, 37, 260],
+      14: [420, 56, 18, 5, 1.9, 0.3, 0.2, 0.2, 0.2, 0.3, 1.9, 5, 18, 56, 420],
+      15: [620, 83, 27, 8, 3, 0.5, 0.2, 0.2, 0.2, 0.2, 0.5, 3, 8, 27, 83, 620],
+      16: [1000, 130, 26, 9, 4, 2, 0.2, 0.2, 0.2, 0.2, 0.2, 2, 4, 9, 26, 130, 1000]
     }
   };
 
-  private static readonly HOUSE_EDGE = 0.01; // 1% house edge
+  public static readonly MIN_ROWS = 8;
+  public static readonly MAX_ROWS = 16;
+  public static readonly MAX_BALLS = 100;
 
-  /**
-   * Generate a provably fair random number using HMAC-SHA256
-   */
-  private static generateRandom(seed: string, nonce: number): number {
-    const hmac = crypto.createHmac('sha256', seed);
-    hmac.update(`${nonce}`);
-    const hash = hmac.digest('hex');
-    
-    // Convert first 8 characters of hash to integer
-    const randomInt = parseInt(hash.substring(0, 8), 16);
-    
-    // Convert to float between 0 and 1
-    return randomInt / 0xffffffff;
-  }
+  private static readonly HOUSE_EDGE = 0.01; // 1% house edge the built-in tables are designed for
+  private static readonly RTP_TOLERANCE = 0.005; // Allowed drift of a table's return from 1 - HOUSE_EDGE
+
+  private static limits: GameLimits = DEFAULT_GAME_LIMITS;
+
+  // Operator-defined tables, which take precedence over the built-in ones
+  private static customTables: PlinkoPayoutTables = {};
 
   /**
-   * Simulate ball path through Plinko board
+   * Simulate ball path through Plinko board, one cursor per row
    */
-  private static simulateBallPath(rows: number, seed: string, nonce: number): number[] {
+  private static simulateBallPath(rows: number, serverSeed: string, clientSeed: string, nonce: number): number[] {
     const path: number[] = [];
     let position = 0;
 
     for (let row = 0; row < rows; row++) {
-      const random = this.generateRandom(seed, nonce + row);
+      const random = ProvablyFair.generateFloat(serverSeed, clientSeed, nonce, row);
       
       // Ball bounces left (0) or right (1)
       const direction = random < 0.5 ? 0 : 1;
@@ -82,33 +108,47 @@ export class PlinkoEngine {
   }
 
   /**
-   * Get multiplier for specific slot
+   * Get the payout table currently in play for a board
    */
-  private static getMultiplier(rows: number, risk: 'low' | 'medium' | 'high', slot: number): number {
-    const multipliers = this.MULTIPLIERS[risk][rows as keyof typeof this.MULTIPLIERS[typeof risk]];
-    
+  public static getMultipliers(rows: number, risk: 'low' | 'medium' | 'high'): number[] {
+    const multipliers = this.customTables[risk]?.[rows] ?? this.MULTIPLIERS[risk]?.[rows];
+
     if (!multipliers) {
       throw new Error(`Invalid configuration: ${rows} rows with ${risk} risk`);
     }
 
-    return multipliers[slot] || 0;
+    return multipliers;
   }
 
   /**
-   * Calculate expected return for validation
+   * Get the built-in payout table for a board
    */
-  private static calculateExpectedReturn(rows: number, risk: 'low' | 'medium' | 'high'): number {
-    const multipliers = this.MULTIPLIERS[risk][rows as keyof typeof this.MULTIPLIERS[typeof risk]];
-    
-    if (!multipliers) {
-      return 0;
-    }
+  public static getDefaultMultipliers(rows: number, risk: 'low' | 'medium' | 'high'): number[] | undefined {
+    return this.MULTIPLIERS[risk]?.[rows];
+  }
 
+  /**
+   * Replace the operator-defined payout tables
+   */
+  public static setCustomTables(tables: PlinkoPayoutTables): void {
+    this.customTables = tables;
+  }
+
+  /**
+   * Check whether a board is using an operator-defined table
+   */
+  public static isCustomTable(rows: number, risk: 'low' | 'medium' | 'high'): boolean {
+    return this.customTables[risk]?.[rows] !== undefined;
+  }
+
+  /**
+   * Calculate the expected return of any payout table for a board with `rows` rows
+   */
+  public static calculateTableReturn(rows: number, multipliers: number[]): number {
     // Calculate probability for each slot (binomial distribution)
-    const totalSlots = multipliers.length;
     let expectedReturn = 0;
 
-    for (let slot = 0; slot < totalSlots; slot++) {
+    for (let slot = 0; slot < multipliers.length; slot++) {
       // Binomial probability: C(n,k) * p^k * (1-p)^(n-k)
       // where n = rows, k = slot, p = 0.5
       const probability = this.binomialProbability(rows, slot, 0.5);
@@ -118,10 +158,38 @@ export class PlinkoEngine {
     return expectedReturn;
   }
 
+  /**
+   * Calculate expected return of a built-in payout table, rejecting tables that are
+   * malformed or whose return is outside tolerance of the target
+   */
+  private static calculateExpectedReturn(rows: number, risk: 'low' | 'medium' | 'high'): number {
+    const multipliers = this.getDefaultMultipliers(rows, risk);
+
+    if (!multipliers) {
+      throw new Error(`Invalid configuration: ${rows} rows with ${risk} risk`);
+    }
+
+    if (multipliers.length !== rows + 1) {
+      throw new Error(`Plinko table for ${rows} rows with ${risk} risk has ${multipliers.length} slots, expected ${rows + 1}`);
+    }
+
+    const expectedReturn = this.calculateTableReturn(rows, multipliers);
+
+    const targetReturn = 1 - this.HOUSE_EDGE;
+
+    if (Math.abs(expectedReturn - targetReturn) > this.RTP_TOLERANCE) {
+      throw new Error(
+        `Plinko table for ${rows} rows with ${risk} risk returns ${expectedReturn.toFixed(4)}, target is ${targetReturn}`
+      );
+    }
+
+    return expectedReturn;
+  }
+
   /**
    * Calculate binomial probability
    */
-  private static binomialProbability(n: number, k: number, p: number): number {
+  public static binomialProbability(n: number, k: number, p: number): number {
     const coefficient = this.binomialCoefficient(n, k);
     return coefficient * Math.pow(p, k) * Math.pow(1 - p, n - k);
   }
@@ -144,45 +212,75 @@ export class PlinkoEngine {
    * Validate game configuration
    */
   private static validateConfig(config: PlinkoConfig): void {
-    const { rows, risk, betAmount } = config;
+    const { betAmount } = config;
+
+    this.validateBoard(config);
 
-    if (![8, 12, 16].includes(rows)) {
-      throw new Error('Invalid rows count. Must be 8, 12, or 16.');
+    const { minBet, maxBet } = this.limits;
+    if (betAmount < minBet || betAmount > maxBet) {
+      throw new Error(`Invalid bet amount. Must be between ${minBet} and ${maxBet}.`);
+    }
+  }
+
+  private static validateBoard({ rows, risk }: PlinkoConfig): void {
+    if (!Number.isInteger(rows) || rows < this.MIN_ROWS || rows > this.MAX_ROWS) {
+      throw new Error(`Invalid rows count. Must be between ${this.MIN_ROWS} and ${this.MAX_ROWS}.`);
     }
 
     if (!['low', 'medium', 'high'].includes(risk)) {
       throw new Error('Invalid risk level. Must be low, medium, or high.');
     }
+  }
 
-    if (betAmount <= 0 || betAmount > 10000) {
-      throw new Error('Invalid bet amount. Must be between 0.01 and 10000.');
-    }
+  /**
+   * Apply the operator's current settings
+   */
+  public static configure(limits: GameLimits): void {
+    this.limits = limits;
+  }
 
-    // Validate expected return is close to (1 - house edge)
-    const expectedReturn = this.calculateExpectedReturn(rows, risk);
-    const targetReturn = 1 - this.HOUSE_EDGE;
-    
-    if (Math.abs(expectedReturn - targetReturn) > 0.05) {
-      console.warn(`Expected return ${expectedReturn} differs significantly from target ${targetReturn}`);
+  public static getLimits(): GameLimits {
+    return this.limits;
+  }
+
+  /**
+   * Check every built-in payout table against the target return; called once at startup
+   * so a bad table stops the server instead of paying out
+   */
+  public static validateTables(): void {
+    for (const risk of ['low', 'medium', 'high'] as const) {
+      for (let rows = this.MIN_ROWS; rows <= this.MAX_ROWS; rows++) {
+        this.calculateExpectedReturn(rows, risk);
+      }
     }
   }
 
   /**
    * Play a single Plinko game
    */
-  public static playGame(config: PlinkoConfig, seed: string, nonce: number): PlinkoResult {
+  public static playGame(config: PlinkoConfig, serverSeed: string, clientSeed: string, nonce: number): PlinkoResult {
     this.validateConfig(config);
 
+    return this.replayGame(config, serverSeed, clientSeed, nonce);
+  }
+
+  /**
+   * Recompute a game from its seeds; bet limits only apply to new bets, so they are not checked here
+   */
+  public static replayGame(config: PlinkoConfig, serverSeed: string, clientSeed: string, nonce: number): PlinkoResult {
+    this.validateBoard(config);
+
     const { rows, risk, betAmount } = config;
+    const multipliers = config.multipliers ?? this.getMultipliers(rows, risk);
 
     // Simulate ball path
-    const ballPath = this.simulateBallPath(rows, seed, nonce);
+    const ballPath = this.simulateBallPath(rows, serverSeed, clientSeed, nonce);
     
     // Calculate final slot
     const finalSlot = this.calculateFinalSlot(ballPath);
     
     // Get multiplier
-    const multiplier = this.getMultiplier(rows, risk, finalSlot);
+    const multiplier = multipliers[finalSlot] || 0;
     
     // Calculate payout
     const payout = betAmount * multiplier;
@@ -194,24 +292,51 @@ export class PlinkoEngine {
       multiplier,
       payout,
       isWin,
-      seed,
+      serverSeedHash: ProvablyFair.hashServerSeed(serverSeed),
+      clientSeed,
       nonce
     };
   }
 
+  /**
+   * Drop several balls at one stake each; ball i uses nonce `firstNonce + i`,
+   * so every ball verifies like a single game
+   */
+  public static playBatch(
+    config: PlinkoConfig,
+    ballCount: number,
+    serverSeed: string,
+    clientSeed: string,
+    firstNonce: number
+  ): PlinkoBatchResult {
+    if (!Number.isInteger(ballCount) || ballCount < 1 || ballCount > this.MAX_BALLS) {
+      throw new Error(`Invalid ball count. Must be between 1 and ${this.MAX_BALLS}.`);
+    }
+
+    const balls = Array.from({ length: ballCount }, (_, index) =>
+      this.playGame(config, serverSeed, clientSeed, firstNonce + index)
+    );
+
+    const totalBet = config.betAmount * ballCount;
+    const totalPayout = balls.reduce((sum, ball) => sum + ball.payout, 0);
+
+    return {
+      balls,
+      totalBet,
+      totalPayout,
+      profit: totalPayout - totalBet
+    };
+  }
+
   /**
    * Get game statistics
    */
   public static getGameStats(rows: number, risk: 'low' | 'medium' | 'high') {
-    const multipliers = this.MULTIPLIERS[risk][rows as keyof typeof this.MULTIPLIERS[typeof risk]];
-    
-    if (!multipliers) {
-      throw new Error(`Invalid configuration: ${rows} rows with ${risk} risk`);
-    }
+    const multipliers = this.getMultipliers(rows, risk);
 
     const maxMultiplier = Math.max(...multipliers);
     const minMultiplier = Math.min(...multipliers);
-    const expectedReturn = this.calculateExpectedReturn(rows, risk);
+    const expectedReturn = this.calculateTableReturn(rows, multipliers);
     const houseEdge = (1 - expectedReturn) * 100;
 
     // Calculate probability distribution
@@ -230,25 +355,20 @@ export class PlinkoEngine {
       expectedReturn,
       houseEdge,
       probabilities,
-      totalSlots: multipliers.length
+      totalSlots: multipliers.length,
+      isCustom: this.isCustomTable(rows, risk)
     };
   }
 
-  /**
-   * Generate cryptographically secure seed
-   */
-  public static generateSeed(): string {
-    return crypto.randomBytes(32).toString('hex');
-  }
-
   /**
    * Verify game result for provably fair gaming
    */
-  public static verifyResult(config: PlinkoConfig, result: PlinkoResult): boolean {
+  public static verifyResult(config: PlinkoConfig, serverSeed: string, result: PlinkoResult): boolean {
     try {
-      const recalculated = this.playGame(config, result.seed, result.nonce);
+      const recalculated = this.replayGame(config, serverSeed, result.clientSeed, result.nonce);
       
       return (
+        recalculated.serverSeedHash === result.serverSeedHash &&
         JSON.stringify(recalculated.ballPath) === JSON.stringify(result.ballPath) &&
         recalculated.finalSlot === result.finalSlot &&
         recalculated.multiplier === result.multiplier &&
@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+
+export class ProvablyFair {
+  /**
+   * Generate cryptographically secure server seed
+   */
+  public static generateServerSeed(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Generate default client seed for new players
+   */
+  public static generateClientSeed(): string {
+    return crypto.randomBytes(16).toString('hex');
+  }
+
+  /**
+   * Hash server seed so it can be published before it is used
+   */
+  public static hashServerSeed(serverSeed: string): string {
+    return crypto.createHash('sha256').update(serverSeed).digest('hex');
+  }
+
+  /**
+   * Generate a provably fair float in [0, 1) from HMAC(serverSeed, clientSeed:nonce:cursor)
+   */
+  public static generateFloat(serverSeed: string, clientSeed: string, nonce: number, cursor: number): number {
+    const hmac = crypto.createHmac('sha256', serverSeed);
+    hmac.update(`${clientSeed}:${nonce}:${cursor}`);
+    const hash = hmac.digest('hex');
+
+    // First 4 bytes of the hash divided by 2^32 so the result never reaches 1
+    const randomInt = parseInt(hash.substring(0, 8), 16);
+    return randomInt / 0x100000000;
+  }
+}
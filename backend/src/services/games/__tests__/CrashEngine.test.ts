@@ -0,0 +1,103 @@
+import { CrashCashOutEvent, CrashEngine, CrashGameCrashedEvent, CrashRoundSeed, CrashSeedProvider } from '../CrashEngine';
+import { DEFAULT_GAME_LIMITS } from '../GameLimits';
+
+const CHAIN_ID = 'chain-1';
+const HASH = 'a'.repeat(64);
+
+/**
+ * A round seed whose crash point falls in [min, max), found by trying salts in order
+ */
+function seedCrashingBetween(min: number, max: number): CrashRoundSeed {
+  for (let attempt = 0; attempt < 10000; attempt++) {
+    const salt = `salt-${attempt}`;
+    const crashPoint = CrashEngine.calculateCrashPoint(HASH, salt, 1, DEFAULT_GAME_LIMITS.houseEdge);
+
+    if (crashPoint >= min && crashPoint < max) {
+      return { chainId: CHAIN_ID, gameNumber: 1, hash: HASH, salt };
+    }
+  }
+
+  throw new Error(`No seed crashes between ${min} and ${max}`);
+}
+
+function seedProvider(seed: CrashRoundSeed): CrashSeedProvider {
+  return {
+    nextRound: jest.fn().mockResolvedValue(seed),
+    revealRound: jest.fn()
+  };
+}
+
+describe('CrashEngine auto cash-out', () => {
+  let engine: CrashEngine;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    CrashEngine.configure(DEFAULT_GAME_LIMITS);
+  });
+
+  afterEach(() => {
+    engine.destroy();
+    jest.useRealTimers();
+  });
+
+  it('cashes out a target the multiplier reached before the crash', async () => {
+    engine = new CrashEngine(seedProvider(seedCrashingBetween(2, 3)));
+    const { crashPoint } = await engine.openRound();
+
+    engine.placeBet('user-1', 'alice', { betAmount: 10, currency: 'CREDITS', autoCashOut: 1.5 });
+    engine.startRound();
+
+    const crashed = new Promise<CrashGameCrashedEvent>(resolve => engine.once('gameCrashed', resolve));
+    jest.advanceTimersByTime(60_000);
+    const { results } = await crashed;
+
+    expect(crashPoint).toBeGreaterThan(1.5);
+    expect(results).toEqual([{
+      userId: 'user-1',
+      result: expect.objectContaining({ cashedOut: true, cashOutMultiplier: 1.5, payout: 15, profit: 5 })
+    }]);
+  });
+
+  it('does not cash out a target above the crash point when a tick jumps past both', async () => {
+    engine = new CrashEngine(seedProvider(seedCrashingBetween(1.5, 2)));
+    const { crashPoint } = await engine.openRound();
+
+    engine.placeBet('below', 'alice', { betAmount: 10, currency: 'CREDITS', autoCashOut: 1.2 });
+    engine.placeBet('above', 'bob', { betAmount: 10, currency: 'CREDITS', autoCashOut: crashPoint + 0.5 });
+    engine.startRound();
+
+    const events: string[] = [];
+    engine.on('playerCashedOut', (event: CrashCashOutEvent) => events.push(`cashOut:${event.userId}`));
+    const crashed = new Promise<CrashGameCrashedEvent>(resolve => engine.once('gameCrashed', (event) => {
+      events.push('crash');
+      resolve(event);
+    }));
+
+    // The clock moves on a minute without a tick, so the next tick lands far above both targets
+    jest.setSystemTime(Date.now() + 60_000);
+    jest.advanceTimersByTime(100);
+    const { results } = await crashed;
+
+    expect(events).toEqual(['cashOut:below', 'crash']);
+    expect(engine.getCurrentGameState()?.currentMultiplier).toBe(crashPoint);
+
+    const byUser = Object.fromEntries(results.map(({ userId, result }) => [userId, result]));
+    expect(byUser.below).toMatchObject({ cashedOut: true, cashOutMultiplier: 1.2, payout: 12 });
+    expect(byUser.above).toMatchObject({ cashedOut: false, payout: 0, profit: -10 });
+  });
+
+  it('refuses a manual cash-out once the round has crashed', async () => {
+    engine = new CrashEngine(seedProvider(seedCrashingBetween(1.5, 2)));
+    await engine.openRound();
+
+    engine.placeBet('user-1', 'alice', { betAmount: 10, currency: 'CREDITS' });
+    engine.startRound();
+
+    const crashed = new Promise<CrashGameCrashedEvent>(resolve => engine.once('gameCrashed', resolve));
+    jest.advanceTimersByTime(60_000);
+    const { results } = await crashed;
+
+    expect(() => engine.cashOut('user-1')).toThrow('No active game to cash out from');
+    expect(results[0].result).toMatchObject({ cashedOut: false, payout: 0 });
+  });
+});
@@ -0,0 +1,40 @@
+import { MinesEngine } from '../MinesEngine';
+
+const HOUSE_EDGES = [0, 0.01, 0.05, 0.2];
+const GRIDS = [9, 25, 64, 100];
+
+function mineCounts(gridSize: number): number[] {
+  return [1, 3, Math.floor(gridSize / 2), gridSize - 1];
+}
+
+describe('MinesEngine payouts', () => {
+  it.each(HOUSE_EDGES)('returns at most 1 - houseEdge at every cash-out step with a %p edge', (houseEdge) => {
+    for (const gridSize of GRIDS) {
+      for (const mineCount of mineCounts(gridSize)) {
+        const { multipliers } = MinesEngine.getGameStats(gridSize, mineCount, undefined, houseEdge);
+
+        for (const { step, multiplier, probability } of multipliers) {
+          const rtp = probability * multiplier;
+
+          // Rounding to cents may only cost the player, never pay them more than the edge allows
+          expect({ gridSize, mineCount, step, rtp: rtp <= 1 - houseEdge + 1e-9 }).toEqual({ gridSize, mineCount, step, rtp: true });
+        }
+      }
+    }
+  });
+
+  it('pays less as the house edge rises', () => {
+    const payouts = HOUSE_EDGES.map(houseEdge => MinesEngine.getGameStats(25, 1, undefined, houseEdge).maxMultiplier);
+
+    expect([...payouts].sort((a, b) => b - a)).toEqual(payouts);
+    expect(new Set(payouts).size).toBe(payouts.length);
+  });
+
+  it('pays the fair odds less the edge once, however many cells are revealed', () => {
+    const { multipliers } = MinesEngine.getGameStats(25, 1, undefined, 0.01);
+
+    // 25 cells with 1 mine: the first reveal is fair at 25/24, the last at 25
+    expect(multipliers[0].multiplier).toBe(1.03);
+    expect(multipliers[multipliers.length - 1].multiplier).toBe(24.75);
+  });
+});
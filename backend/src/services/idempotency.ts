@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma, redis } from '../server';
+import { AppError } from '../middleware/errorHandler';
+
+export interface StoredResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+interface CachedKey {
+  requestHash: string;
+  response: StoredResponse | null;
+}
+
+/**
+ * Remembers bet requests by their Idempotency-Key so a retry replays the
+ * original response instead of placing the bet again
+ */
+export class IdempotencyService {
+  private static readonly TTL_SECONDS = 24 * 60 * 60; // Keys can be retried for a day
+  private static readonly MAX_KEY_LENGTH = 255;
+
+  /**
+   * Fingerprint a request so a reused key can be matched against its original
+   */
+  public static hashRequest(method: string, path: string, body: unknown): string {
+    return crypto
+      .createHash('sha256')
+      .update(`${method} ${path} ${JSON.stringify(body ?? {})}`)
+      .digest('hex');
+  }
+
+  /**
+   * Claim a key for a new request, or get the stored response of the request that used it first
+   */
+  public static async begin(userId: string, key: string, requestHash: string): Promise<StoredResponse | null> {
+    if (key.length === 0 || key.length > this.MAX_KEY_LENGTH) {
+      throw new AppError(`Idempotency-Key must be 1-${this.MAX_KEY_LENGTH} characters`, 400);
+    }
+
+    const existing = await this.find(userId, key);
+
+    if (existing) {
+      return this.replay(existing, requestHash);
+    }
+
+    try {
+      await prisma.idempotencyKey.create({
+        data: { userId, key, requestHash }
+      });
+    } catch (error) {
+      // Another request claimed the key between the lookup and the insert
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const claimed = await this.find(userId, key);
+
+        if (claimed) {
+          return this.replay(claimed, requestHash);
+        }
+      }
+
+      throw error;
+    }
+
+    await this.cache(userId, key, { requestHash, response: null });
+
+    return null;
+  }
+
+  /**
+   * Store the response of a completed request for later retries
+   */
+  public static async complete(userId: string, key: string, response: StoredResponse): Promise<void> {
+    const record = await prisma.idempotencyKey.update({
+      where: { userId_key: { userId, key } },
+      data: {
+        statusCode: response.statusCode,
+        response: response.body as Prisma.InputJsonValue,
+        completedAt: new Date()
+      }
+    });
+
+    await this.cache(userId, key, { requestHash: record.requestHash, response });
+  }
+
+  /**
+   * Release a key whose request failed, so the client can retry it
+   */
+  public static async release(userId: string, key: string): Promise<void> {
+    await prisma.idempotencyKey.deleteMany({
+      where: { userId, key, completedAt: null }
+    });
+
+    await this.uncache(userId, key);
+  }
+
+  private static replay(existing: CachedKey, requestHash: string): StoredResponse {
+    if (existing.requestHash !== requestHash) {
+      // 409 is kept for a request still in progress, which a client may retry
+      throw new AppError('Idempotency-Key was already used with a different request', 422);
+    }
+
+    if (!existing.response) {
+      throw new AppError('A request with this Idempotency-Key is still being processed', 409);
+    }
+
+    return existing.response;
+  }
+
+  /**
+   * Look a key up in Redis, falling back to the database when it is not cached
+   */
+  private static async find(userId: string, key: string): Promise<CachedKey | null> {
+    try {
+      const cached = await redis.get(this.redisKey(userId, key));
+
+      if (cached) {
+        return JSON.parse(cached) as CachedKey;
+      }
+    } catch (error) {
+      console.error('Failed to read idempotency key from Redis:', error);
+    }
+
+    const record = await prisma.idempotencyKey.findUnique({
+      where: { userId_key: { userId, key } }
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    // Expired keys are forgotten, the same as once Redis drops them
+    if (Date.now() - record.createdAt.getTime() > this.TTL_SECONDS * 1000) {
+      await prisma.idempotencyKey.delete({ where: { id: record.id } });
+      return null;
+    }
+
+    return {
+      requestHash: record.requestHash,
+      response: record.completedAt && record.statusCode !== null
+        ? { statusCode: record.statusCode, body: record.response }
+        : null
+    };
+  }
+
+  private static async cache(userId: string, key: string, value: CachedKey): Promise<void> {
+    try {
+      await redis.set(this.redisKey(userId, key), JSON.stringify(value), this.TTL_SECONDS);
+    } catch (error) {
+      console.error('Failed to cache idempotency key in Redis:', error);
+    }
+  }
+
+  private static async uncache(userId: string, key: string): Promise<void> {
+    try {
+      await redis.del(this.redisKey(userId, key));
+    } catch (error) {
+      console.error('Failed to remove idempotency key from Redis:', error);
+    }
+  }
+
+  private static redisKey(userId: string, key: string): string {
+    return `idempotency:${userId}:${key}`;
+  }
+}
@@ -0,0 +1,314 @@
+import { LedgerAccount, LedgerAccountType, Prisma, TransactionType } from '@prisma/client';
+import { prisma } from '../server';
+import { CurrencyService } from './currencies';
+
+export interface LedgerPosting {
+  walletId: string;
+  currency: string;
+  // Signed change to the wallet
+  amount: number | Prisma.Decimal;
+  type: TransactionType;
+  // Wallet balance before this change, used to open a wallet whose balance predates the ledger
+  balanceBefore: Prisma.Decimal;
+  transactionId?: string;
+  description?: string;
+}
+
+export interface TrialBalance {
+  currency: string;
+  // Sum of every entry in the currency; anything but zero means an unbalanced journal
+  balance: string;
+}
+
+export interface ReconciliationResult {
+  walletsOpened: number;
+  flagged: number;
+  resolved: number;
+  trialBalances: TrialBalance[];
+}
+
+type SystemAccountType = Exclude<LedgerAccountType, 'USER_WALLET'>;
+
+/**
+ * Posts every balance change as a balanced journal between a user's wallet and the house bankroll,
+ * bonus pool or payment clearing account of the same currency, and checks the cached `Wallet.balance` against it
+ */
+export class LedgerService {
+  private static readonly SYSTEM_ACCOUNT_KEYS: Record<SystemAccountType, string> = {
+    HOUSE_BANKROLL: 'house_bankroll',
+    BONUS_POOL: 'bonus_pool',
+    PAYMENT_CLEARING: 'payment_clearing'
+  };
+
+  // Where the other side of each kind of balance change is booked
+  private static readonly COUNTERPARTY: Record<TransactionType, SystemAccountType> = {
+    // Money paid in or out through a payment provider
+    DEPOSIT: 'PAYMENT_CLEARING',
+    WITHDRAWAL: 'PAYMENT_CLEARING',
+    BET: 'HOUSE_BANKROLL',
+    WIN: 'HOUSE_BANKROLL',
+    REFUND: 'HOUSE_BANKROLL',
+    ADJUSTMENT: 'HOUSE_BANKROLL',
+    BONUS: 'BONUS_POOL'
+  };
+
+  private static readonly OPEN_BATCH_SIZE = 100;
+
+  private static systemAccounts = new Map<string, LedgerAccount>();
+  private static reconciling: Promise<ReconciliationResult> | null = null;
+
+  /**
+   * Create the system accounts of every configured currency if needed; called once at startup
+   */
+  public static async initialize(): Promise<void> {
+    for (const currency of CurrencyService.getCodes()) {
+      for (const [type, prefix] of Object.entries(this.SYSTEM_ACCOUNT_KEYS) as [SystemAccountType, string][]) {
+        const key = `${prefix}:${currency}`;
+        const account = await prisma.ledgerAccount.upsert({
+          where: { key },
+          create: { key, type, currency },
+          update: {}
+        });
+
+        this.systemAccounts.set(key, account);
+      }
+    }
+  }
+
+  /**
+   * Post a change to a user's wallet; call inside the transaction that changes
+   * `Wallet.balance`, with the wallet row locked
+   */
+  public static async post(tx: Prisma.TransactionClient, posting: LedgerPosting): Promise<void> {
+    const wallet = await this.getWalletAccount(tx, posting.walletId, posting.currency, posting.balanceBefore);
+    const counterparty = this.getSystemAccount(this.COUNTERPARTY[posting.type], posting.currency);
+
+    await this.postJournal(tx, wallet, counterparty, posting.amount, {
+      type: posting.type,
+      description: posting.description,
+      transactionId: posting.transactionId
+    });
+  }
+
+  /**
+   * A wallet's balance as the sum of its ledger entries
+   */
+  public static async getWalletBalance(walletId: string, tx?: Prisma.TransactionClient): Promise<Prisma.Decimal> {
+    const client = tx ?? prisma;
+    const account = await client.ledgerAccount.findUnique({ where: { walletId } });
+
+    // An empty wallet has no ledger account until its first balance change
+    return account ? await this.sumEntries(client, account.id) : new Prisma.Decimal(0);
+  }
+
+  /**
+   * Balances of every system account, with each currency's trial balance
+   */
+  public static async getSystemBalances() {
+    const accounts = await prisma.ledgerAccount.findMany({
+      where: { type: { not: 'USER_WALLET' } },
+      orderBy: [{ currency: 'asc' }, { type: 'asc' }]
+    });
+
+    const balances = await Promise.all(accounts.map(async account => ({
+      key: account.key,
+      type: account.type,
+      currency: account.currency,
+      balance: (await this.sumEntries(prisma, account.id)).toString()
+    })));
+
+    return {
+      accounts: balances,
+      trialBalances: await this.getTrialBalances()
+    };
+  }
+
+  /**
+   * Open ledger accounts for wallets that hold a balance but have none, then flag every wallet
+   * whose cached balance differs from its ledger account and resolve flags that no longer apply;
+   * a call made while a run is in progress gets that run's result
+   */
+  public static async reconcile(): Promise<ReconciliationResult> {
+    if (!this.reconciling) {
+      this.reconciling = this.runReconciliation().finally(() => {
+        this.reconciling = null;
+      });
+    }
+
+    return await this.reconciling;
+  }
+
+  private static async runReconciliation(): Promise<ReconciliationResult> {
+    const walletsOpened = await this.openMissingWallets();
+    const checkedAt = new Date();
+
+    // One statement, so the balances and entries come from the same snapshot;
+    // a wallet without a ledger account must still be empty
+    const mismatches = await prisma.$queryRaw<{ walletId: string; cached: Prisma.Decimal; ledger: Prisma.Decimal }[]>`
+      SELECT w."id" AS "walletId", w."balance" AS "cached", COALESCE(SUM(e."amount"), 0) AS "ledger"
+      FROM "wallets" w
+      LEFT JOIN "ledger_accounts" a ON a."walletId" = w."id"
+      LEFT JOIN "ledger_entries" e ON e."accountId" = a."id"
+      GROUP BY w."id", w."balance"
+      HAVING w."balance" <> COALESCE(SUM(e."amount"), 0)
+    `;
+
+    let flagged = 0;
+
+    for (const mismatch of mismatches) {
+      const open = await prisma.ledgerDiscrepancy.findFirst({
+        where: { walletId: mismatch.walletId, resolvedAt: null }
+      });
+
+      const values = {
+        cachedBalance: new Prisma.Decimal(mismatch.cached),
+        ledgerBalance: new Prisma.Decimal(mismatch.ledger),
+        checkedAt
+      };
+
+      if (open) {
+        await prisma.ledgerDiscrepancy.update({ where: { id: open.id }, data: values });
+      } else {
+        await prisma.ledgerDiscrepancy.create({ data: { walletId: mismatch.walletId, ...values } });
+        flagged++;
+        console.warn(
+          `Ledger mismatch for wallet ${mismatch.walletId}: cached ${values.cachedBalance}, ledger ${values.ledgerBalance}`
+        );
+      }
+    }
+
+    const { count: resolved } = await prisma.ledgerDiscrepancy.updateMany({
+      where: {
+        resolvedAt: null,
+        walletId: { notIn: mismatches.map(mismatch => mismatch.walletId) }
+      },
+      data: { resolvedAt: checkedAt, checkedAt }
+    });
+
+    const trialBalances = await this.getTrialBalances();
+
+    for (const trialBalance of trialBalances) {
+      if (!new Prisma.Decimal(trialBalance.balance).isZero()) {
+        console.error(`Ledger is out of balance by ${trialBalance.balance} ${trialBalance.currency}`);
+      }
+    }
+
+    return { walletsOpened, flagged, resolved, trialBalances };
+  }
+
+  /**
+   * Open a ledger account for every wallet whose balance was carried over from before the ledger,
+   * e.g. by the data migration from `User.balance`, and has not changed since
+   */
+  private static async openMissingWallets(): Promise<number> {
+    let opened = 0;
+
+    for (;;) {
+      const wallets = await prisma.wallet.findMany({
+        where: { ledgerAccount: null, balance: { not: 0 } },
+        select: { id: true },
+        take: this.OPEN_BATCH_SIZE
+      });
+
+      if (wallets.length === 0) {
+        return opened;
+      }
+
+      for (const { id } of wallets) {
+        await prisma.$transaction(async (tx) => {
+          const [wallet] = await tx.$queryRaw<{ currency: string; balance: Prisma.Decimal }[]>`
+            SELECT "currency", "balance" FROM "wallets" WHERE "id" = ${id} FOR UPDATE
+          `;
+
+          if (wallet) {
+            await this.getWalletAccount(tx, id, wallet.currency, new Prisma.Decimal(wallet.balance));
+          }
+        });
+        opened++;
+      }
+    }
+  }
+
+  private static async getTrialBalances(): Promise<TrialBalance[]> {
+    const totals = await prisma.$queryRaw<{ currency: string; balance: Prisma.Decimal }[]>`
+      SELECT a."currency", COALESCE(SUM(e."amount"), 0) AS "balance"
+      FROM "ledger_accounts" a
+      LEFT JOIN "ledger_entries" e ON e."accountId" = a."id"
+      GROUP BY a."currency"
+      ORDER BY a."currency"
+    `;
+
+    return totals.map(total => ({ currency: total.currency, balance: new Prisma.Decimal(total.balance).toString() }));
+  }
+
+  /**
+   * Get a wallet's ledger account, opening it with the wallet's current balance (booked
+   * against the house bankroll) if it had one before the ledger existed
+   */
+  private static async getWalletAccount(
+    tx: Prisma.TransactionClient,
+    walletId: string,
+    currency: string,
+    balance: Prisma.Decimal
+  ): Promise<LedgerAccount> {
+    const existing = await tx.ledgerAccount.findUnique({ where: { walletId } });
+    if (existing) {
+      return existing;
+    }
+
+    const account = await tx.ledgerAccount.create({
+      data: { key: `wallet:${walletId}`, type: 'USER_WALLET', currency, walletId }
+    });
+
+    if (!balance.isZero()) {
+      const house = this.getSystemAccount('HOUSE_BANKROLL', currency);
+      await this.postJournal(tx, account, house, balance, { description: 'Opening balance' });
+    }
+
+    return account;
+  }
+
+  private static getSystemAccount(type: SystemAccountType, currency: string): LedgerAccount {
+    const account = this.systemAccounts.get(`${this.SYSTEM_ACCOUNT_KEYS[type]}:${currency}`);
+
+    if (!account) {
+      throw new Error(`Ledger has no ${type} account for ${currency}`);
+    }
+
+    return account;
+  }
+
+  /**
+   * Move `amount` into `account` from `counterparty` as one journal of two entries
+   */
+  private static async postJournal(
+    tx: Prisma.TransactionClient,
+    account: LedgerAccount,
+    counterparty: LedgerAccount,
+    amount: number | Prisma.Decimal,
+    journal: { type?: TransactionType; description?: string; transactionId?: string }
+  ): Promise<void> {
+    const value = new Prisma.Decimal(amount);
+
+    await tx.ledgerJournal.create({
+      data: {
+        ...journal,
+        entries: {
+          create: [
+            { accountId: account.id, amount: value },
+            { accountId: counterparty.id, amount: value.negated() }
+          ]
+        }
+      }
+    });
+  }
+
+  private static async sumEntries(client: Prisma.TransactionClient, accountId: string): Promise<Prisma.Decimal> {
+    const total = await client.ledgerEntry.aggregate({
+      where: { accountId },
+      _sum: { amount: true }
+    });
+
+    return total._sum.amount ?? new Prisma.Decimal(0);
+  }
+}
@@ -0,0 +1,42 @@
+import { LedgerService } from './ledger';
+
+/**
+ * Runs the ledger reconciliation on a fixed interval
+ */
+export class LedgerReconciliationJob {
+  private static readonly DEFAULT_INTERVAL_MINUTES = 15;
+
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Reconcile now and then on every interval
+   */
+  public start(): void {
+    if (this.timer) return;
+
+    const minutes = parseFloat(process.env.LEDGER_RECONCILE_INTERVAL_MINUTES || '')
+      || LedgerReconciliationJob.DEFAULT_INTERVAL_MINUTES;
+
+    this.timer = setInterval(() => this.run(), minutes * 60 * 1000);
+    this.run();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async run(): Promise<void> {
+    try {
+      const result = await LedgerService.reconcile();
+
+      if (result.flagged > 0 || result.resolved > 0) {
+        console.log(`Ledger reconciled: ${result.flagged} new mismatch(es), ${result.resolved} resolved`);
+      }
+    } catch (error) {
+      console.error('Ledger reconciliation failed:', error);
+    }
+  }
+}
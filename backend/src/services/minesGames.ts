@@ -0,0 +1,224 @@
+import { ActiveMinesGame, GameType, Prisma, ServerSeed } from '@prisma/client';
+import { prisma, redis } from '../server';
+import { AppError } from '../middleware/errorHandler';
+import { MinesGameState, MinesGridShape } from './games/MinesEngine';
+
+export interface ActiveMinesState extends MinesGameState {
+  userId: string;
+  currency: string;
+  serverSeedId: string;
+}
+
+export interface PublicMinesState {
+  gameId: string;
+  gridSize: number;
+  gridShape: MinesGridShape;
+  mineCount: number;
+  betAmount: number;
+  currency: string;
+  revealedCells: number[];
+  isCompleted: boolean;
+  isWin: boolean;
+  currentMultiplier: number;
+  totalPayout: number;
+  minePositions?: number[];
+}
+
+/**
+ * Holds unfinished Mines games on the server: Redis serves them, and the
+ * active_mines_games table takes over when the cache misses
+ */
+export class MinesGameService {
+  private static readonly CACHE_TTL = 3600; // 1 hour
+
+  /**
+   * Store a new game; runs inside the transaction that takes its stake
+   */
+  public static async create(tx: Prisma.TransactionClient, state: ActiveMinesState): Promise<void> {
+    await tx.activeMinesGame.create({
+      data: {
+        id: state.gameId,
+        userId: state.userId,
+        serverSeedId: state.serverSeedId,
+        clientSeed: state.clientSeed,
+        nonce: state.nonce,
+        gridSize: state.gridSize,
+        rows: state.gridShape.rows,
+        columns: state.gridShape.columns,
+        mineCount: state.mineCount,
+        currency: state.currency,
+        betAmount: state.betAmount,
+        minePositions: state.minePositions,
+        revealedCells: state.revealedCells,
+        currentMultiplier: state.currentMultiplier,
+        houseEdge: state.houseEdge
+      }
+    });
+  }
+
+  /**
+   * Get one of the user's unfinished games
+   */
+  public static async get(userId: string, gameId: string): Promise<ActiveMinesState> {
+    let state = await this.readCache(gameId);
+
+    if (!state) {
+      const record = await prisma.activeMinesGame.findUnique({
+        where: { id: gameId },
+        include: { serverSeed: true }
+      });
+
+      if (record) {
+        state = this.fromRecord(record);
+        await this.cache(state);
+      }
+    }
+
+    if (!state || state.userId !== userId) {
+      throw new AppError('Game not found or already completed', 404);
+    }
+
+    return state;
+  }
+
+  /**
+   * Get the user's most recent unfinished game, if any
+   */
+  public static async findActive(userId: string): Promise<ActiveMinesState | null> {
+    const record = await prisma.activeMinesGame.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      include: { serverSeed: true }
+    });
+
+    return record ? this.fromRecord(record) : null;
+  }
+
+  /**
+   * Write a move to the table, or remove the game once it is over. `previousCells` is what
+   * the move was played against, so a concurrent move on the same game is rejected.
+   */
+  public static async save(
+    tx: Prisma.TransactionClient,
+    state: ActiveMinesState,
+    previousCells: number[]
+  ): Promise<void> {
+    const where = { id: state.gameId, revealedCells: { equals: previousCells } };
+
+    const { count } = state.isCompleted
+      ? await tx.activeMinesGame.deleteMany({ where })
+      : await tx.activeMinesGame.updateMany({
+          where,
+          data: {
+            revealedCells: state.revealedCells,
+            currentMultiplier: state.currentMultiplier
+          }
+        });
+
+    if (count === 0) {
+      throw new AppError('Game was updated by another request, please retry', 409);
+    }
+  }
+
+  /**
+   * Bring the cache in line with a saved move
+   */
+  public static async sync(state: ActiveMinesState): Promise<void> {
+    if (!state.isCompleted) {
+      await this.cache(state);
+      return;
+    }
+
+    try {
+      await redis.deleteCachedGameState(this.cacheKey(state.gameId));
+    } catch (error) {
+      console.error('Failed to evict Mines game from Redis:', error);
+    }
+  }
+
+  /**
+   * The state the player may see: mine positions only once the game is over
+   */
+  public static toPublic(state: ActiveMinesState): PublicMinesState {
+    return {
+      gameId: state.gameId,
+      gridSize: state.gridSize,
+      gridShape: state.gridShape,
+      mineCount: state.mineCount,
+      betAmount: state.betAmount,
+      currency: state.currency,
+      revealedCells: state.revealedCells,
+      isCompleted: state.isCompleted,
+      isWin: state.isWin,
+      currentMultiplier: state.currentMultiplier,
+      totalPayout: state.totalPayout,
+      ...(state.isCompleted && { minePositions: state.minePositions })
+    };
+  }
+
+  /**
+   * Strip a history record's game data down to its settings while the game is unresolved
+   */
+  public static redactHistory(gameType: GameType, gameData: Prisma.JsonValue): Prisma.JsonValue {
+    const data = gameData as Record<string, any>;
+
+    if (gameType !== 'MINES' || data?.isCompleted) {
+      return gameData;
+    }
+
+    return {
+      gridSize: data.gridSize,
+      gridShape: data.gridShape,
+      mineCount: data.mineCount,
+      houseEdge: data.houseEdge,
+      isCompleted: false
+    };
+  }
+
+  private static async cache(state: ActiveMinesState): Promise<void> {
+    try {
+      await redis.cacheGameState(this.cacheKey(state.gameId), state, this.CACHE_TTL);
+    } catch (error) {
+      console.error('Failed to cache Mines game in Redis:', error);
+    }
+  }
+
+  private static async readCache(gameId: string): Promise<ActiveMinesState | null> {
+    try {
+      return await redis.getCachedGameState(this.cacheKey(gameId));
+    } catch (error) {
+      console.error('Failed to read Mines game from Redis:', error);
+      return null;
+    }
+  }
+
+  private static cacheKey(gameId: string): string {
+    return `mines:${gameId}`;
+  }
+
+  private static fromRecord(record: ActiveMinesGame & { serverSeed: ServerSeed }): ActiveMinesState {
+    const betAmount = parseFloat(record.betAmount.toString());
+    const revealedCells = record.revealedCells as number[];
+
+    return {
+      gameId: record.id,
+      userId: record.userId,
+      currency: record.currency,
+      serverSeedId: record.serverSeedId,
+      gridSize: record.gridSize,
+      gridShape: { rows: record.rows, columns: record.columns },
+      mineCount: record.mineCount,
+      betAmount,
+      revealedCells,
+      minePositions: record.minePositions as number[],
+      isCompleted: false,
+      isWin: false,
+      currentMultiplier: record.currentMultiplier,
+      totalPayout: revealedCells.length > 0 ? betAmount * record.currentMultiplier : 0,
+      houseEdge: record.houseEdge,
+      serverSeed: record.serverSeed.seed,
+      clientSeed: record.clientSeed,
+      nonce: record.nonce
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { PaymentProvider, PaymentWebhookEvent, ProviderPayment } from './PaymentProvider';
+
+export interface MockPaymentConfig {
+  // The platform's own webhook endpoint for this provider
+  webhookUrl: string;
+  // Shared secret the webhook calls are signed with
+  secret: string;
+  // How long the simulated network takes to settle a payment
+  confirmDelayMs: number;
+  // Share of payments, from 0 to 1, that the simulated network declines
+  failureRate: number;
+}
+
+/**
+ * Stand-in for a real payment network in development and testing. Accepts every payment,
+ * then settles it after a delay by calling the platform's webhook the way a real provider would
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  public readonly name = 'mock';
+
+  private static readonly SIGNATURE_HEADER = 'x-mock-signature';
+  private static readonly DELIVERY_ATTEMPTS = 5;
+  private static readonly RETRY_DELAY_MS = 1000;
+
+  constructor(private config: MockPaymentConfig) {}
+
+  public async createDeposit(payment: ProviderPayment): Promise<string> {
+    return this.accept(payment);
+  }
+
+  public async sendWithdrawal(payment: ProviderPayment): Promise<string> {
+    return this.accept(payment);
+  }
+
+  public parseWebhook(body: unknown, headers: IncomingHttpHeaders): PaymentWebhookEvent {
+    const signature = headers[MockPaymentProvider.SIGNATURE_HEADER];
+    const expected = this.sign(JSON.stringify(body));
+
+    if (
+      typeof signature !== 'string' ||
+      signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    const event = body as Partial<PaymentWebhookEvent>;
+
+    if (typeof event.reference !== 'string' || (event.outcome !== 'COMPLETED' && event.outcome !== 'FAILED')) {
+      throw new Error('Malformed webhook event');
+    }
+
+    return {
+      reference: event.reference,
+      outcome: event.outcome,
+      reason: typeof event.reason === 'string' ? event.reason : undefined
+    };
+  }
+
+  /**
+   * Hand out a reference and schedule the webhook call that settles the payment.
+   * The call can arrive before the platform has stored the reference, so it is retried
+   * the way a real provider retries a webhook that was not acknowledged
+   */
+  private accept(payment: ProviderPayment): string {
+    const reference = `mock_${crypto.randomUUID()}`;
+    const event: PaymentWebhookEvent = Math.random() < this.config.failureRate
+      ? { reference, outcome: 'FAILED', reason: 'Declined by the mock payment network' }
+      : { reference, outcome: 'COMPLETED' };
+
+    setTimeout(() => {
+      this.deliverWithRetry(event).catch(error => {
+        console.error(`Mock payment webhook for ${payment.type.toLowerCase()} ${payment.id} failed:`, error);
+      });
+    }, this.config.confirmDelayMs);
+
+    return reference;
+  }
+
+  private async deliverWithRetry(event: PaymentWebhookEvent): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.deliver(event);
+      } catch (error) {
+        if (attempt >= MockPaymentProvider.DELIVERY_ATTEMPTS) {
+          throw error;
+        }
+
+        // Back off 1s, 2s, 4s, ... between attempts
+        await new Promise(resolve => setTimeout(resolve, MockPaymentProvider.RETRY_DELAY_MS * 2 ** (attempt - 1)));
+      }
+    }
+  }
+
+  private async deliver(event: PaymentWebhookEvent): Promise<void> {
+    const body = JSON.stringify(event);
+
+    const response = await fetch(this.config.webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [MockPaymentProvider.SIGNATURE_HEADER]: this.sign(body)
+      },
+      body
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+  }
+
+  private sign(body: string): string {
+    return crypto.createHmac('sha256', this.config.secret).update(body).digest('hex');
+  }
+}
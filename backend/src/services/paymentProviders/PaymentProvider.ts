@@ -0,0 +1,46 @@
+import { IncomingHttpHeaders } from 'http';
+import { PaymentType } from '@prisma/client';
+
+/**
+ * What a provider is told about a payment it should move
+ */
+export interface ProviderPayment {
+  id: string;
+  type: PaymentType;
+  currency: string;
+  amount: string;
+  // Where a withdrawal is paid to; null for deposits
+  destination: string | null;
+}
+
+/**
+ * A provider's report that a payment it accepted has settled one way or the other
+ */
+export interface PaymentWebhookEvent {
+  reference: string;
+  outcome: 'COMPLETED' | 'FAILED';
+  reason?: string;
+}
+
+/**
+ * Moves money in and out of the platform. Providers accept a payment straight away and report
+ * its outcome later by calling POST /api/payments/webhooks/:name
+ */
+export interface PaymentProvider {
+  readonly name: string;
+
+  /**
+   * Start collecting a deposit; resolves with the provider's reference for it
+   */
+  createDeposit(payment: ProviderPayment): Promise<string>;
+
+  /**
+   * Start paying out an approved withdrawal; resolves with the provider's reference for it
+   */
+  sendWithdrawal(payment: ProviderPayment): Promise<string>;
+
+  /**
+   * Check that a webhook call came from the provider and read the event; throws if it did not
+   */
+  parseWebhook(body: unknown, headers: IncomingHttpHeaders): PaymentWebhookEvent;
+}
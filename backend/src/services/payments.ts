@@ -0,0 +1,412 @@
+import crypto from 'crypto';
+import { Payment, PaymentStatus, PaymentType, Prisma } from '@prisma/client';
+import { IncomingHttpHeaders } from 'http';
+import { prisma, socketService } from '../server';
+import { AppError } from '../middleware/errorHandler';
+import { AuditContext, AuditService } from './audit';
+import { BetSettlementService } from './betSettlement';
+import { CurrencyService } from './currencies';
+import { WalletService } from './wallets';
+import { PaymentProvider, PaymentWebhookEvent } from './paymentProviders/PaymentProvider';
+import { MockPaymentProvider } from './paymentProviders/MockPaymentProvider';
+
+export interface PaymentFilters {
+  userId?: string;
+  type?: PaymentType;
+  status?: PaymentStatus;
+  page: number;
+  limit: number;
+}
+
+type ReviewDecision = Extract<PaymentStatus, 'APPROVED' | 'REJECTED'>;
+
+interface BalanceMove {
+  balance: Prisma.Decimal;
+  change: Prisma.Decimal;
+}
+
+/**
+ * Deposits and withdrawals through a payment provider. A deposit is credited once the provider
+ * confirms it; a withdrawal holds its amount until an admin reviews it, is debited on approval
+ * and handed to the provider, and is returned to the wallet if the provider fails to pay it
+ */
+export class PaymentService {
+  private static providers = new Map<string, PaymentProvider>();
+  private static provider: PaymentProvider | null = null;
+
+  /**
+   * Set up the payment providers and pick the one in PAYMENT_PROVIDER for new payments;
+   * called once at startup, throws for an unknown provider
+   */
+  public static initialize(): PaymentProvider {
+    const webhookBaseUrl = process.env.PAYMENT_WEBHOOK_BASE_URL || `http://localhost:${process.env.PORT || 3001}`;
+
+    const mock = new MockPaymentProvider({
+      webhookUrl: `${webhookBaseUrl}/api/payments/webhooks/mock`,
+      // Only this process signs and checks mock webhooks, so a random secret will do
+      secret: process.env.MOCK_PAYMENT_SECRET || crypto.randomBytes(32).toString('hex'),
+      confirmDelayMs: parseInt(process.env.MOCK_PAYMENT_CONFIRM_DELAY_MS || '5000'),
+      failureRate: parseFloat(process.env.MOCK_PAYMENT_FAILURE_RATE || '0')
+    });
+
+    // Every provider stays registered so payments made through a previous one can still settle
+    this.providers = new Map([[mock.name, mock]]);
+
+    const name = process.env.PAYMENT_PROVIDER || mock.name;
+    const provider = this.providers.get(name);
+
+    if (!provider) {
+      throw new Error(`Unknown PAYMENT_PROVIDER: ${name}`);
+    }
+
+    this.provider = provider;
+
+    return provider;
+  }
+
+  /**
+   * Open a deposit and ask the provider to collect it; the wallet is credited when the provider confirms
+   */
+  public static async createDeposit(userId: string, currency: string, amount: number, audit?: AuditContext): Promise<Payment> {
+    const provider = this.getActiveProvider();
+    const { code } = CurrencyService.get(currency);
+    CurrencyService.assertPrecision(code, amount);
+
+    const payment = await prisma.$transaction(async (tx) => {
+      const created = await tx.payment.create({
+        data: { userId, type: 'DEPOSIT', currency: code, amount, provider: provider.name }
+      });
+
+      await this.audit(tx, created, 'requested', audit);
+
+      return created;
+    });
+
+    return await this.submit(payment, audit);
+  }
+
+  /**
+   * Open a withdrawal for review, holding its amount so it cannot be bet in the meantime
+   */
+  public static async requestWithdrawal(
+    userId: string,
+    currency: string,
+    amount: number,
+    destination: string,
+    audit?: AuditContext
+  ): Promise<Payment> {
+    const provider = this.getActiveProvider();
+    const { code } = CurrencyService.get(currency);
+    CurrencyService.assertPrecision(code, amount);
+
+    const payment = await prisma.$transaction(async (tx) => {
+      await WalletService.hold(tx, userId, code, new Prisma.Decimal(amount));
+
+      const created = await tx.payment.create({
+        data: { userId, type: 'WITHDRAWAL', currency: code, amount, destination, provider: provider.name }
+      });
+
+      await this.audit(tx, created, 'requested', audit);
+
+      return created;
+    });
+
+    this.notify(payment);
+
+    return payment;
+  }
+
+  /**
+   * Withdraw a pending withdrawal the user no longer wants, releasing its hold
+   */
+  public static async cancelWithdrawal(userId: string, paymentId: string, audit?: AuditContext): Promise<Payment> {
+    const payment = await prisma.$transaction(async (tx) => {
+      const pending = await this.closePending(tx, paymentId, userId, { status: 'CANCELLED' });
+      await this.audit(tx, pending, 'cancelled', audit);
+      return pending;
+    });
+
+    this.notify(payment);
+
+    return payment;
+  }
+
+  /**
+   * Approve or reject a pending withdrawal. Approval debits the held amount and hands
+   * the withdrawal to its provider; rejection releases the hold
+   */
+  public static async reviewWithdrawal(
+    paymentId: string,
+    decision: ReviewDecision,
+    reviewerId: string,
+    note?: string,
+    audit?: AuditContext
+  ): Promise<Payment> {
+    let moved: BalanceMove | null = null;
+
+    const payment = await prisma.$transaction(async (tx) => {
+      const reviewed = await this.closePending(tx, paymentId, undefined, {
+        status: decision,
+        reviewedById: reviewerId,
+        reviewNote: note ?? null,
+        reviewedAt: new Date()
+      });
+
+      if (decision === 'APPROVED') {
+        const change = reviewed.amount.negated();
+        const balance = await BetSettlementService.adjustBalance(
+          tx, reviewed.userId, reviewed.currency, change, 'WITHDRAWAL', `Withdrawal to ${reviewed.destination}`, undefined, audit
+        );
+        moved = { balance, change };
+      }
+
+      await this.audit(tx, reviewed, decision === 'APPROVED' ? 'approved' : 'rejected', audit);
+
+      return reviewed;
+    });
+
+    this.notify(payment, moved);
+
+    return decision === 'APPROVED' ? await this.submit(payment, audit) : payment;
+  }
+
+  /**
+   * Settle the payment a provider's webhook call reports on; repeated calls for a settled payment are ignored
+   */
+  public static async handleWebhook(
+    providerName: string,
+    body: unknown,
+    headers: IncomingHttpHeaders,
+    audit?: AuditContext
+  ): Promise<void> {
+    const provider = this.providers.get(providerName);
+
+    if (!provider) {
+      throw new AppError('Unknown payment provider', 404);
+    }
+
+    let event: PaymentWebhookEvent;
+    try {
+      event = provider.parseWebhook(body, headers);
+    } catch (error) {
+      throw new AppError((error as Error).message, 401);
+    }
+
+    const payment = await prisma.payment.findUnique({
+      where: { providerReference: event.reference }
+    });
+
+    if (!payment || payment.provider !== provider.name) {
+      throw new AppError('Payment not found', 404);
+    }
+
+    await this.settle(payment, event.outcome, event.reason, audit);
+  }
+
+  /**
+   * List payments, newest first
+   */
+  public static async list(filters: PaymentFilters) {
+    const where: Prisma.PaymentWhereInput = {
+      ...(filters.userId && { userId: filters.userId }),
+      ...(filters.type && { type: filters.type }),
+      ...(filters.status && { status: filters.status })
+    };
+
+    const [payments, total] = await Promise.all([
+      prisma.payment.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+        include: {
+          user: { select: { id: true, username: true } },
+          reviewedBy: { select: { id: true, username: true } }
+        }
+      }),
+      prisma.payment.count({ where })
+    ]);
+
+    return { payments: payments.map(payment => this.format(payment)), total };
+  }
+
+  /**
+   * A payment with its amount as a string, the way the API returns money
+   */
+  public static format<T extends Payment>(payment: T) {
+    return { ...payment, amount: payment.amount.toString() };
+  }
+
+  /**
+   * Hand a payment to its provider and store the provider's reference;
+   * a payment the provider will not take fails straight away
+   */
+  private static async submit(payment: Payment, audit?: AuditContext): Promise<Payment> {
+    const provider = this.getProvider(payment.provider);
+    const details = {
+      id: payment.id,
+      type: payment.type,
+      currency: payment.currency,
+      amount: payment.amount.toString(),
+      destination: payment.destination
+    };
+
+    let reference: string;
+    try {
+      reference = payment.type === 'DEPOSIT'
+        ? await provider.createDeposit(details)
+        : await provider.sendWithdrawal(details);
+    } catch (error) {
+      console.error(`Payment provider ${provider.name} refused ${payment.type.toLowerCase()} ${payment.id}:`, error);
+      await this.settle(payment, 'FAILED', 'The payment provider did not accept the payment', audit);
+      throw new AppError('The payment provider is unavailable, please try again later', 502);
+    }
+
+    const submitted = await prisma.payment.update({
+      where: { id: payment.id },
+      data: { providerReference: reference }
+    });
+
+    this.notify(submitted);
+
+    return submitted;
+  }
+
+  /**
+   * Record the outcome of a payment the provider was handling. A completed deposit credits
+   * the wallet and a failed withdrawal returns its amount
+   */
+  private static async settle(
+    payment: Payment,
+    outcome: PaymentWebhookEvent['outcome'],
+    reason?: string,
+    audit?: AuditContext
+  ): Promise<void> {
+    // Deposits wait on the provider from the start, withdrawals once approved
+    const awaiting: PaymentStatus = payment.type === 'DEPOSIT' ? 'PENDING' : 'APPROVED';
+    let moved: BalanceMove | null = null;
+
+    const settled = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.payment.updateMany({
+        where: { id: payment.id, status: awaiting },
+        data: {
+          status: outcome,
+          failureReason: outcome === 'FAILED' ? reason ?? 'Payment failed' : null,
+          completedAt: outcome === 'COMPLETED' ? new Date() : null
+        }
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      // A completed deposit comes in; a failed withdrawal comes back
+      if ((payment.type === 'DEPOSIT') === (outcome === 'COMPLETED')) {
+        const balance = await BetSettlementService.adjustBalance(
+          tx,
+          payment.userId,
+          payment.currency,
+          payment.amount,
+          payment.type,
+          payment.type === 'DEPOSIT' ? 'Deposit' : 'Failed withdrawal returned',
+          undefined,
+          audit
+        );
+        moved = { balance, change: payment.amount };
+      }
+
+      const updated = await tx.payment.findUniqueOrThrow({ where: { id: payment.id } });
+      await this.audit(tx, updated, outcome === 'COMPLETED' ? 'completed' : 'failed', audit);
+
+      return updated;
+    });
+
+    if (settled) {
+      this.notify(settled, moved);
+    }
+  }
+
+  /**
+   * Move a pending withdrawal out of PENDING and release its hold, failing if another request got there first
+   */
+  private static async closePending(
+    tx: Prisma.TransactionClient,
+    paymentId: string,
+    userId: string | undefined,
+    data: Prisma.PaymentUncheckedUpdateManyInput
+  ): Promise<Payment> {
+    const payment = await tx.payment.findUnique({ where: { id: paymentId } });
+
+    if (!payment || payment.type !== 'WITHDRAWAL' || (userId && payment.userId !== userId)) {
+      throw new AppError('Withdrawal not found', 404);
+    }
+
+    const { count } = await tx.payment.updateMany({
+      where: { id: paymentId, status: 'PENDING' },
+      data
+    });
+
+    if (count === 0) {
+      throw new AppError('Withdrawal is no longer pending', 409);
+    }
+
+    await WalletService.release(tx, payment.userId, payment.currency, payment.amount);
+
+    return await tx.payment.findUniqueOrThrow({ where: { id: paymentId } });
+  }
+
+  private static async audit(
+    tx: Prisma.TransactionClient,
+    payment: Payment,
+    event: 'requested' | 'approved' | 'rejected' | 'cancelled' | 'completed' | 'failed',
+    audit?: AuditContext
+  ): Promise<void> {
+    await AuditService.record({
+      ...audit,
+      action: `payment.${payment.type.toLowerCase() as Lowercase<PaymentType>}_${event}`,
+      targetUserId: payment.userId,
+      entity: `Payment:${payment.id}`,
+      after: {
+        status: payment.status,
+        currency: payment.currency,
+        amount: payment.amount.toString(),
+        reviewNote: payment.reviewNote,
+        failureReason: payment.failureReason
+      }
+    }, tx);
+  }
+
+  /**
+   * Tell the user's open tabs about a payment, and about the balance change it made if any
+   */
+  private static notify(payment: Payment, moved?: BalanceMove | null): void {
+    socketService.emitToUser(payment.userId, 'payment_update', { payment: this.format(payment) });
+
+    if (moved) {
+      socketService.emitToUser(payment.userId, 'balance_update', {
+        currency: payment.currency,
+        balance: moved.balance.toString(),
+        change: moved.change.toString(),
+        reason: payment.type
+      });
+    }
+  }
+
+  private static getActiveProvider(): PaymentProvider {
+    if (!this.provider) {
+      throw new AppError('Payments are not available', 503);
+    }
+
+    return this.provider;
+  }
+
+  private static getProvider(name: string): PaymentProvider {
+    const provider = this.providers.get(name);
+
+    if (!provider) {
+      throw new AppError(`Payment provider ${name} is not configured`, 503);
+    }
+
+    return provider;
+  }
+}
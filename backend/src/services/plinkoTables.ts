@@ -0,0 +1,173 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../server';
+import { AppError } from '../middleware/errorHandler';
+import { PlinkoConfig, PlinkoEngine, PlinkoPayoutTables } from './games/PlinkoEngine';
+
+type PlinkoRisk = PlinkoConfig['risk'];
+
+export interface PlinkoTableInfo {
+  rows: number;
+  risk: PlinkoRisk;
+  multipliers: number[];
+  rtp: number;
+  isCustom: boolean;
+}
+
+/**
+ * Operator-defined Plinko payout tables, kept under `payoutTables` in the
+ * PLINKO game settings and loaded into PlinkoEngine
+ */
+export class PlinkoTableService {
+  private static readonly RISKS: PlinkoRisk[] = ['low', 'medium', 'high'];
+  private static readonly DEFAULT_MIN_RTP = 0.95;
+
+  /**
+   * The RTP band a custom table must fall within; a table may never return more than the Plinko house edge allows
+   */
+  public static getRtpBand(): { min: number; max: number } {
+    const maxForEdge = 1 - PlinkoEngine.getLimits().houseEdge;
+
+    return {
+      min: parseFloat(process.env.PLINKO_RTP_MIN || '') || this.DEFAULT_MIN_RTP,
+      max: Math.min(parseFloat(process.env.PLINKO_RTP_MAX || '') || maxForEdge, maxForEdge)
+    };
+  }
+
+  /**
+   * Return to player of a table: each slot's multiplier weighted by the chance of landing in it
+   */
+  public static calculateRtp(rows: number, multipliers: number[]): number {
+    return multipliers.reduce(
+      (rtp, multiplier, slot) => rtp + PlinkoEngine.binomialProbability(rows, slot, 0.5) * multiplier,
+      0
+    );
+  }
+
+  /**
+   * Load the stored tables into the engine, skipping any that no longer pass validation
+   */
+  public static async load(): Promise<number> {
+    const stored = await this.readStored();
+    const tables: PlinkoPayoutTables = {};
+    let loaded = 0;
+
+    for (const risk of this.RISKS) {
+      for (const [rows, multipliers] of Object.entries(stored[risk] ?? {})) {
+        try {
+          this.validate(Number(rows), multipliers);
+          tables[risk] = { ...tables[risk], [rows]: multipliers };
+          loaded++;
+        } catch (error) {
+          console.error(`Ignoring stored Plinko table for ${rows} rows with ${risk} risk:`, error);
+        }
+      }
+    }
+
+    PlinkoEngine.setCustomTables(tables);
+
+    return loaded;
+  }
+
+  /**
+   * Every board's table in play, with its RTP
+   */
+  public static list(): PlinkoTableInfo[] {
+    const tables: PlinkoTableInfo[] = [];
+
+    for (const risk of this.RISKS) {
+      for (let rows = PlinkoEngine.MIN_ROWS; rows <= PlinkoEngine.MAX_ROWS; rows++) {
+        tables.push(this.describe(rows, risk));
+      }
+    }
+
+    return tables;
+  }
+
+  /**
+   * Validate a table and put it in play for a board
+   */
+  public static async save(rows: number, risk: PlinkoRisk, multipliers: number[]): Promise<PlinkoTableInfo> {
+    this.validate(rows, multipliers);
+
+    await this.updateStored(tables => {
+      tables[risk] = { ...tables[risk], [rows]: multipliers };
+    });
+
+    return this.describe(rows, risk);
+  }
+
+  /**
+   * Remove a board's custom table so the built-in one is used again
+   */
+  public static async remove(rows: number, risk: PlinkoRisk): Promise<PlinkoTableInfo> {
+    await this.updateStored(tables => {
+      if (!tables[risk]?.[rows]) {
+        throw new AppError(`No custom table for ${rows} rows with ${risk} risk`, 404);
+      }
+
+      delete tables[risk]![rows];
+    });
+
+    return this.describe(rows, risk);
+  }
+
+  private static validate(rows: number, multipliers: number[]): void {
+    if (multipliers.length !== rows + 1) {
+      throw new AppError(`A ${rows}-row table needs ${rows + 1} multipliers, got ${multipliers.length}`, 400);
+    }
+
+    const rtp = this.calculateRtp(rows, multipliers);
+    const band = this.getRtpBand();
+
+    if (rtp < band.min || rtp > band.max) {
+      throw new AppError(
+        `Table RTP ${(rtp * 100).toFixed(2)}% is outside the allowed ${band.min * 100}%-${band.max * 100}%`,
+        400
+      );
+    }
+  }
+
+  private static describe(rows: number, risk: PlinkoRisk): PlinkoTableInfo {
+    const multipliers = PlinkoEngine.getMultipliers(rows, risk);
+
+    return {
+      rows,
+      risk,
+      multipliers,
+      rtp: this.calculateRtp(rows, multipliers),
+      isCustom: PlinkoEngine.isCustomTable(rows, risk)
+    };
+  }
+
+  private static async readStored(): Promise<PlinkoPayoutTables> {
+    const record = await prisma.gameSettings.findUnique({ where: { gameType: 'PLINKO' } });
+
+    return this.tablesOf(record?.settings);
+  }
+
+  /**
+   * Change the stored tables, leaving the other PLINKO settings as they are, then reload the engine
+   */
+  private static async updateStored(change: (tables: PlinkoPayoutTables) => void): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      const record = await tx.gameSettings.findUnique({ where: { gameType: 'PLINKO' } });
+      const payoutTables = this.tablesOf(record?.settings);
+
+      change(payoutTables);
+
+      const settings = { ...(record?.settings as Prisma.JsonObject | undefined), payoutTables } as Prisma.InputJsonObject;
+
+      await tx.gameSettings.upsert({
+        where: { gameType: 'PLINKO' },
+        create: { gameType: 'PLINKO', settings },
+        update: { settings }
+      });
+    });
+
+    await this.load();
+  }
+
+  private static tablesOf(settings: Prisma.JsonValue | undefined): PlinkoPayoutTables {
+    return ((settings as Record<string, any> | null)?.payoutTables ?? {}) as PlinkoPayoutTables;
+  }
+}
@@ -170,6 +170,26 @@ export class RedisClient {
     return (await this.client.exists(key)) === 1;
   }
 
+  // Set a key only when it is not already set, e.g. to start a cooldown; returns whether it was set
+  async setIfAbsent(key: string, value: string, expirationSeconds: number): Promise<boolean> {
+    return (await this.client.set(key, value, { NX: true, EX: expirationSeconds })) === 'OK';
+  }
+
+  // Seconds until a key expires; negative when it does not exist or never expires
+  async ttl(key: string): Promise<number> {
+    return await this.client.ttl(key);
+  }
+
+  async increment(key: string, expirationSeconds: number): Promise<number> {
+    const multi = this.client.multi();
+
+    multi.incr(key);
+    multi.expire(key, expirationSeconds);
+
+    const results = await multi.exec();
+    return results?.[0] as number || 0;
+  }
+
   async keys(pattern: string): Promise<string[]> {
     return await this.client.keys(pattern);
   }
@@ -0,0 +1,49 @@
+import { prisma } from '../server';
+import { AuditService } from './audit';
+
+/**
+ * Grants the ADMIN role to the operator accounts listed in ADMIN_EMAILS, so a new
+ * deployment gets its first admin without editing the database by hand
+ */
+export class RoleService {
+  /**
+   * Promote every listed account that is not an admin yet; called once at startup.
+   * Accounts are never demoted here, that is done through the admin API
+   */
+  public static async promoteConfiguredAdmins(): Promise<number> {
+    const emails = (process.env.ADMIN_EMAILS || '')
+      .split(',')
+      .map(email => email.trim().toLowerCase())
+      .filter(Boolean);
+
+    if (emails.length === 0) {
+      return 0;
+    }
+
+    const users = await prisma.user.findMany({
+      where: {
+        email: { in: emails, mode: 'insensitive' },
+        role: { not: 'ADMIN' }
+      },
+      select: { id: true, role: true }
+    });
+
+    for (const user of users) {
+      await prisma.$transaction(async (tx) => {
+        await tx.user.update({
+          where: { id: user.id },
+          data: { role: 'ADMIN' }
+        });
+
+        await AuditService.record({
+          action: 'admin.user_role_changed',
+          targetUserId: user.id,
+          before: { role: user.role },
+          after: { role: 'ADMIN', source: 'ADMIN_EMAILS' }
+        }, tx);
+      });
+    }
+
+    return users.length;
+  }
+}
@@ -1,12 +1,62 @@
 import { Server, Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../server';
+import { CrashPhase } from './games/CrashEngine';
 
 export interface AuthenticatedSocket extends Socket {
   userId?: string;
   username?: string;
 }
 
+export interface CrashPlayerSnapshot {
+  userId: string;
+  username: string;
+  betAmount: number;
+  currency: string;
+  cashedOut: boolean;
+  cashOutMultiplier?: number;
+  payout: number;
+}
+
+/**
+ * Events broadcast to the crash room and their payloads
+ */
+export interface CrashServerEvents {
+  crash_phase: {
+    phase: CrashPhase;
+    roundId: string | null;
+    gameNumber: number | null;
+    phaseEndsAt: number | null;
+    crashPoint?: number;
+    hash?: string;
+  };
+  crash_round_started: {
+    roundId: string;
+    gameNumber: number;
+    startTime: number;
+    players: CrashPlayerSnapshot[];
+  };
+  crash_multiplier_update: {
+    roundId: string;
+    multiplier: number;
+    elapsed: number;
+  };
+  crash_players: {
+    roundId: string;
+    players: CrashPlayerSnapshot[];
+  };
+  crash_round_ended: {
+    roundId: string;
+    gameNumber: number;
+    crashPoint: number;
+    hash: string;
+    houseEdge: number;
+    players: CrashPlayerSnapshot[];
+  };
+}
+
+export const CRASH_ROOM = 'CRASH';
+
 export class SocketService {
   private io: Server;
   private connectedUsers: Map<string, AuthenticatedSocket> = new Map();
@@ -201,16 +251,8 @@ export class SocketService {
   }
 
   // Crash game specific methods
-  public startCrashRound(roundId: string, data: any): void {
-    this.emitToRoom('crash', 'crash_round_started', { roundId, ...data });
-  }
-
-  public updateCrashMultiplier(roundId: string, multiplier: number): void {
-    this.emitToRoom('crash', 'crash_multiplier_update', { roundId, multiplier });
-  }
-
-  public crashRoundEnded(roundId: string, crashPoint: number, winners: any[]): void {
-    this.emitToRoom('crash', 'crash_round_ended', { roundId, crashPoint, winners });
+  public emitCrashEvent<E extends keyof CrashServerEvents>(event: E, data: CrashServerEvents[E]): void {
+    this.emitToRoom(CRASH_ROOM, event, data);
   }
 
   // Plinko game specific methods
@@ -219,7 +261,19 @@ export class SocketService {
     this.emitToRoom('plinko', 'plinko_public_result', {
       username: this.connectedUsers.get(userId)?.username,
       multiplier: result.multiplier,
-      payout: result.payout
+      payout: result.payout,
+      currency: result.currency
+    });
+  }
+
+  public emitPlinkoBatchResult(userId: string, result: any): void {
+    this.emitToUser(userId, 'plinko_batch_result', result);
+    this.emitToRoom('plinko', 'plinko_public_result', {
+      username: this.connectedUsers.get(userId)?.username,
+      ballCount: result.balls.length,
+      multiplier: result.totalBet > 0 ? result.totalPayout / result.totalBet : 0,
+      payout: result.totalPayout,
+      currency: result.currency
     });
   }
 
@@ -0,0 +1,121 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../server';
+import { AppError } from '../middleware/errorHandler';
+import { CurrencyService } from './currencies';
+
+export interface LockedWallet {
+  id: string;
+  balance: Prisma.Decimal;
+  heldBalance: Prisma.Decimal;
+}
+
+export interface WalletBalance {
+  currency: string;
+  name: string;
+  decimals: number;
+  balance: string;
+  // Reserved by pending withdrawals
+  heldBalance: string;
+}
+
+/**
+ * A user's balance in each configured currency, one wallets row per currency
+ */
+export class WalletService {
+  /**
+   * Read a wallet with its row locked until the transaction ends, opening it if the user has none yet
+   */
+  public static async lock(tx: Prisma.TransactionClient, userId: string, currency: string): Promise<LockedWallet> {
+    const { code } = CurrencyService.get(currency);
+    await this.open(tx, userId, [code]);
+
+    const [wallet] = await tx.$queryRaw<{ id: string; balance: Prisma.Decimal; heldBalance: Prisma.Decimal }[]>`
+      SELECT "id", "balance", "heldBalance" FROM "wallets" WHERE "userId" = ${userId} AND "currency" = ${code} FOR UPDATE
+    `;
+
+    if (!wallet) {
+      throw new AppError('Wallet not found', 404);
+    }
+
+    return {
+      id: wallet.id,
+      balance: new Prisma.Decimal(wallet.balance),
+      heldBalance: new Prisma.Decimal(wallet.heldBalance)
+    };
+  }
+
+  /**
+   * Reserve part of the balance so bets cannot spend it, e.g. while a withdrawal waits for review
+   */
+  public static async hold(tx: Prisma.TransactionClient, userId: string, currency: string, amount: Prisma.Decimal): Promise<void> {
+    const wallet = await this.lock(tx, userId, currency);
+
+    if (wallet.balance.minus(wallet.heldBalance).lessThan(amount)) {
+      throw new AppError('Insufficient balance', 400);
+    }
+
+    await tx.wallet.update({
+      where: { id: wallet.id },
+      data: { heldBalance: wallet.heldBalance.plus(amount) }
+    });
+  }
+
+  /**
+   * Release an amount reserved by `hold`
+   */
+  public static async release(tx: Prisma.TransactionClient, userId: string, currency: string, amount: Prisma.Decimal): Promise<void> {
+    const wallet = await this.lock(tx, userId, currency);
+
+    await tx.wallet.update({
+      where: { id: wallet.id },
+      data: { heldBalance: Prisma.Decimal.max(wallet.heldBalance.minus(amount), 0) }
+    });
+  }
+
+  /**
+   * Get a user's balance in one currency
+   */
+  public static async getBalance(userId: string, currency: string): Promise<Prisma.Decimal> {
+    const wallet = await prisma.wallet.findUnique({
+      where: { userId_currency: { userId, currency } },
+      select: { balance: true }
+    });
+
+    return wallet?.balance ?? new Prisma.Decimal(0);
+  }
+
+  /**
+   * Get a user's balance in every configured currency
+   */
+  public static async list(userId: string, client: Prisma.TransactionClient = prisma): Promise<WalletBalance[]> {
+    const currencies = CurrencyService.getAll();
+
+    await this.open(client, userId, currencies.map(currency => currency.code));
+
+    const wallets = await client.wallet.findMany({
+      where: { userId, currency: { in: currencies.map(currency => currency.code) } }
+    });
+
+    return currencies.map(currency => {
+      const wallet = wallets.find(wallet => wallet.currency === currency.code)!;
+
+      return {
+        currency: currency.code,
+        name: currency.name,
+        decimals: currency.decimals,
+        balance: wallet.balance.toString(),
+        heldBalance: wallet.heldBalance.toString()
+      };
+    });
+  }
+
+  /**
+   * Create any of the wallets the user does not have yet; safe to run concurrently
+   */
+  private static async open(client: Prisma.TransactionClient, userId: string, currencies: string[]): Promise<void> {
+    await client.wallet.createMany({
+      data: currencies.map(currency => ({ userId, currency })),
+      skipDuplicates: true
+    });
+  }
+}
@@ -242,6 +242,8 @@ wait_for_services() {
 run_migrations() {
     print_status "Running database migrations..."
     cd backend
+    # Move balances into wallets before the schema push drops users.balance
+    npm run db:migrate-wallets
     npx prisma db push
     cd ..
     print_success "Database migrations completed"
@@ -0,0 +1,150 @@
+'use client';
+
+import { useState, useEffect, useCallback, Fragment } from 'react';
+import Link from 'next/link';
+import { Search } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import Pager from '@/components/admin/Pager';
+import { adminAPI } from '@/lib/api';
+import { formatTime, parseError } from '@/lib/utils';
+import type { AuditLogEntry, Pagination } from '@/types';
+
+const PAGE_SIZE = 50;
+
+function UserLink({ user }: { user: AuditLogEntry['actor'] }) {
+  if (!user) {
+    return <span className="text-gray-500">system</span>;
+  }
+
+  return (
+    <Link href={`/admin/users/${user.id}`} className="text-blue-400 hover:text-blue-300">
+      {user.username}
+    </Link>
+  );
+}
+
+export default function AdminAuditPage() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [actionInput, setActionInput] = useState('');
+  const [userIdInput, setUserIdInput] = useState('');
+  const [filters, setFilters] = useState({ action: '', userId: '' });
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      const response = await adminAPI.getAuditLog({
+        action: filters.action || undefined,
+        userId: filters.userId || undefined,
+        page,
+        limit: PAGE_SIZE
+      });
+      setEntries(response.data.data.entries);
+      setPagination(response.data.data.pagination);
+    } catch (error) {
+      toast.error(parseError(error));
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const handleFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setFilters({ action: actionInput.trim(), userId: userIdInput.trim() });
+  };
+
+  const inputClass = 'flex-1 min-w-[12rem] bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white focus:border-blue-500 focus:outline-none';
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700">
+      <form onSubmit={handleFilter} className="flex flex-wrap gap-2 mb-6">
+        <input
+          type="text"
+          value={actionInput}
+          onChange={(e) => setActionInput(e.target.value)}
+          placeholder="Action or prefix, e.g. balance or admin.user"
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={userIdInput}
+          onChange={(e) => setUserIdInput(e.target.value)}
+          placeholder="Actor or target user ID"
+          className={inputClass}
+        />
+        <button type="submit" className="flex items-center gap-2 px-4 bg-blue-600 hover:bg-blue-500 rounded-lg transition-colors">
+          <Search className="w-4 h-4" />
+          Filter
+        </button>
+      </form>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-gray-700">
+              <th className="py-2">Time</th>
+              <th className="py-2">Action</th>
+              <th className="py-2">Actor</th>
+              <th className="py-2">Target</th>
+              <th className="py-2">IP Address</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <Fragment key={entry.id}>
+                <tr
+                  onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                  className="border-b border-gray-700/50 hover:bg-gray-700/30 cursor-pointer"
+                >
+                  <td className="py-2 text-gray-400 whitespace-nowrap">{formatTime(entry.createdAt)}</td>
+                  <td className="py-2 font-mono">{entry.action}</td>
+                  <td className="py-2"><UserLink user={entry.actor} /></td>
+                  <td className="py-2">
+                    {entry.targetUser ? <UserLink user={entry.targetUser} /> : (
+                      <span className="text-gray-400">{entry.entity ?? '-'}</span>
+                    )}
+                  </td>
+                  <td className="py-2 font-mono text-gray-400">{entry.ipAddress ?? '-'}</td>
+                </tr>
+                {expandedId === entry.id && (
+                  <tr className="border-b border-gray-700/50 bg-gray-900/40">
+                    <td colSpan={5} className="p-4">
+                      <div className="grid md:grid-cols-2 gap-4">
+                        <div>
+                          <p className="text-gray-400 mb-1">Before</p>
+                          <pre className="font-mono text-xs whitespace-pre-wrap break-all">
+                            {entry.before ? JSON.stringify(entry.before, null, 2) : '-'}
+                          </pre>
+                        </div>
+                        <div>
+                          <p className="text-gray-400 mb-1">After</p>
+                          <pre className="font-mono text-xs whitespace-pre-wrap break-all">
+                            {entry.after ? JSON.stringify(entry.after, null, 2) : '-'}
+                          </pre>
+                        </div>
+                      </div>
+                      {entry.userAgent && (
+                        <p className="text-xs text-gray-500 mt-4 break-all">{entry.userAgent}</p>
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+            {entries.length === 0 && (
+              <tr>
+                <td colSpan={5} className="py-6 text-center text-gray-400">No audit entries</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <Pager pagination={pagination} label="entries" onChange={setPage} />
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Users } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import Pager from '@/components/admin/Pager';
+import { useAuthStore } from '@/store/authStore';
+import { adminAPI, gameAPI } from '@/lib/api';
+import { socketService } from '@/lib/socket';
+import { DEFAULT_CURRENCY, formatCurrency, formatMultiplier, formatTime, parseError } from '@/lib/utils';
+import type { AdminCrashRound, CrashPhase, CrashPhaseUpdate, CrashPlayer, Pagination, SocketEvents } from '@/types';
+
+const PAGE_SIZE = 20;
+
+export default function AdminCrashPage() {
+  const { token } = useAuthStore();
+  const [phase, setPhase] = useState<CrashPhase | null>(null);
+  const [gameNumber, setGameNumber] = useState<number | null>(null);
+  const [multiplier, setMultiplier] = useState(1.0);
+  const [players, setPlayers] = useState<CrashPlayer[]>([]);
+  const [rounds, setRounds] = useState<AdminCrashRound[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [page, setPage] = useState(1);
+
+  const loadRounds = useCallback(async () => {
+    try {
+      const response = await adminAPI.getCrashRounds(page, PAGE_SIZE);
+      setRounds(response.data.data.rounds);
+      setPagination(response.data.data.pagination);
+    } catch (error) {
+      toast.error(parseError(error));
+    }
+  }, [page]);
+
+  useEffect(() => {
+    loadRounds();
+  }, [loadRounds]);
+
+  // Load the round in progress
+  useEffect(() => {
+    gameAPI.getCurrentCrash()
+      .then(response => {
+        const gameState = response.data.data.gameState;
+        if (!gameState) return;
+
+        setPhase(gameState.phase);
+        setGameNumber(gameState.gameNumber);
+        setMultiplier(gameState.currentMultiplier);
+        setPlayers(gameState.players);
+      })
+      .catch(error => toast.error(parseError(error)));
+  }, []);
+
+  // Follow the round over the socket; a new betting phase means the last round has been recorded
+  useEffect(() => {
+    if (!token) return;
+
+    socketService.connect(token);
+    socketService.joinGame('CRASH');
+
+    const handlePhase = (data: CrashPhaseUpdate) => {
+      setPhase(data.phase);
+      setGameNumber(data.gameNumber);
+
+      if (data.phase === 'BETTING') {
+        setPlayers([]);
+        setMultiplier(1.0);
+        loadRounds();
+      }
+    };
+
+    const handleMultiplier: SocketEvents['crashMultiplierUpdate'] = (data) => {
+      setMultiplier(data.multiplier);
+    };
+
+    const handlePlayers: SocketEvents['crashPlayers'] = (data) => {
+      setPlayers(data.players);
+    };
+
+    const handleRoundEnded: SocketEvents['crashRoundEnded'] = (data) => {
+      setPlayers(data.players);
+      setMultiplier(data.crashPoint);
+    };
+
+    socketService.on('crashPhase', handlePhase);
+    socketService.on('crashRoundStarted', handlePlayers);
+    socketService.on('crashMultiplierUpdate', handleMultiplier);
+    socketService.on('crashPlayers', handlePlayers);
+    socketService.on('crashRoundEnded', handleRoundEnded);
+
+    return () => {
+      socketService.leaveGame('CRASH');
+      socketService.off('crashPhase', handlePhase);
+      socketService.off('crashRoundStarted', handlePlayers);
+      socketService.off('crashMultiplierUpdate', handleMultiplier);
+      socketService.off('crashPlayers', handlePlayers);
+      socketService.off('crashRoundEnded', handleRoundEnded);
+    };
+  }, [token, loadRounds]);
+
+  // Bets can be in different currencies, so the live round is totalled per currency
+  const liveTotals = Object.entries(players.reduce<Record<string, { wagered: number; paidOut: number }>>((totals, player) => {
+    const total = totals[player.currency] ?? { wagered: 0, paidOut: 0 };
+    total.wagered += player.betAmount;
+    total.paidOut += player.cashedOut ? player.payout : 0;
+    return { ...totals, [player.currency]: total };
+  }, {}));
+
+  return (
+    <div className="space-y-8">
+      {/* Live round */}
+      <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-xl font-bold">Round #{gameNumber ?? '...'}</h2>
+            <p className="text-sm text-gray-400">{phase ?? 'Waiting for the scheduler'}</p>
+          </div>
+          <div className={`text-4xl font-bold ${phase === 'CRASHED' ? 'text-red-400' : 'text-green-400'}`}>
+            {formatMultiplier(multiplier)}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 mb-6 text-sm">
+          <div>
+            <p className="text-gray-400">Players</p>
+            <p className="font-bold flex items-center gap-1">
+              <Users className="w-4 h-4" />
+              {players.length}
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-400">Wagered</p>
+            {liveTotals.length > 0 ? liveTotals.map(([currency, total]) => (
+              <p key={currency} className="font-bold">{formatCurrency(total.wagered, currency)}</p>
+            )) : <p className="font-bold">{formatCurrency(0)}</p>}
+          </div>
+          <div>
+            <p className="text-gray-400">Cashed Out</p>
+            {liveTotals.length > 0 ? liveTotals.map(([currency, total]) => (
+              <p key={currency} className="font-bold">{formatCurrency(total.paidOut, currency)}</p>
+            )) : <p className="font-bold">{formatCurrency(0)}</p>}
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-700">
+                <th className="py-2">Player</th>
+                <th className="py-2 text-right">Bet</th>
+                <th className="py-2 text-right">Auto Cash Out</th>
+                <th className="py-2 text-right">Cashed Out At</th>
+                <th className="py-2 text-right">Payout</th>
+              </tr>
+            </thead>
+            <tbody>
+              {players.map((player) => (
+                <tr key={player.userId} className="border-b border-gray-700/50">
+                  <td className="py-2">{player.username}</td>
+                  <td className="py-2 text-right">{formatCurrency(player.betAmount, player.currency)}</td>
+                  <td className="py-2 text-right text-gray-400">
+                    {player.autoCashOut ? formatMultiplier(player.autoCashOut) : '-'}
+                  </td>
+                  <td className="py-2 text-right">
+                    {player.cashedOut && player.cashOutMultiplier ? formatMultiplier(player.cashOutMultiplier) : '-'}
+                  </td>
+                  <td className={`py-2 text-right ${player.cashedOut ? 'text-green-400' : 'text-gray-400'}`}>
+                    {formatCurrency(player.payout, player.currency)}
+                  </td>
+                </tr>
+              ))}
+              {players.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="py-6 text-center text-gray-400">No bets in this round</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Recorded rounds */}
+      <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700">
+        <h2 className="text-xl font-bold mb-6">Recent Rounds</h2>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-700">
+                <th className="py-2">Round</th>
+                <th className="py-2 text-right">Crash Point</th>
+                <th className="py-2 text-right">Players</th>
+                <th className="py-2 text-right">Wagered</th>
+                <th className="py-2 text-right">Paid Out</th>
+                <th className="py-2 text-right">House Profit</th>
+                <th className="py-2 text-right">Started</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rounds.map((round) => {
+                const totals = round.totals.length > 0
+                  ? round.totals
+                  : [{ currency: DEFAULT_CURRENCY, totalWagered: '0', totalPayout: '0', houseProfit: '0' }];
+
+                return (
+                  <tr key={round.id} className="border-b border-gray-700/50">
+                    <td className="py-2">#{round.gameNumber}</td>
+                    <td className="py-2 text-right">
+                      {round.isAborted ? (
+                        <span className="text-yellow-400">Aborted</span>
+                      ) : round.crashPoint !== null ? (
+                        formatMultiplier(round.crashPoint)
+                      ) : (
+                        <span className="text-gray-400">In progress</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">{round.playerCount}</td>
+                    <td className="py-2 text-right">
+                      {totals.map((total) => (
+                        <div key={total.currency}>{formatCurrency(total.totalWagered, total.currency)}</div>
+                      ))}
+                    </td>
+                    <td className="py-2 text-right">
+                      {totals.map((total) => (
+                        <div key={total.currency}>{formatCurrency(total.totalPayout, total.currency)}</div>
+                      ))}
+                    </td>
+                    <td className="py-2 text-right">
+                      {totals.map((total) => (
+                        <div key={total.currency} className={parseFloat(total.houseProfit) >= 0 ? 'text-green-400' : 'text-red-400'}>
+                          {formatCurrency(total.houseProfit, total.currency)}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="py-2 text-right text-gray-400">{formatTime(round.createdAt)}</td>
+                  </tr>
+                );
+              })}
+              {rounds.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="py-6 text-center text-gray-400">No rounds recorded yet</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <Pager pagination={pagination} label="rounds" onChange={setPage} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
+import { BarChart3, Users, Banknote, SlidersHorizontal, TrendingUp, ScrollText, Shield } from 'lucide-react';
+import { isStaff, useAuthStore } from '@/store/authStore';
+import Navbar from '@/components/layout/Navbar';
+
+const sections = [
+  { name: 'Overview', href: '/admin', icon: BarChart3 },
+  { name: 'Users', href: '/admin/users', icon: Users },
+  { name: 'Payments', href: '/admin/payments', icon: Banknote },
+  { name: 'Game Settings', href: '/admin/settings', icon: SlidersHorizontal },
+  { name: 'Crash Rounds', href: '/admin/crash', icon: TrendingUp },
+  { name: 'Audit Log', href: '/admin/audit', icon: ScrollText },
+];
+
+export default function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { user, isInitialized } = useAuthStore();
+
+  useEffect(() => {
+    if (!isInitialized) return;
+
+    if (!user) {
+      router.push('/auth/login');
+    } else if (!isStaff(user)) {
+      router.push('/games');
+    }
+  }, [user, isInitialized, router]);
+
+  if (!isInitialized) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={{backgroundColor: 'var(--bg)'}}>
+        <div className="text-center">
+          <div className="spinner mx-auto mb-4" />
+          <p style={{color: 'var(--muted)'}}>Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isStaff(user)) {
+    return null; // Will redirect
+  }
+
+  const isCurrent = (href: string) =>
+    href === '/admin' ? pathname === href : pathname.startsWith(href);
+
+  return (
+    <div className="min-h-screen" style={{backgroundColor: 'var(--bg)'}}>
+      <Navbar />
+      <div className="container mx-auto px-4 pt-24 pb-12">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-10 h-10 bg-gradient-to-r from-purple-500 to-pink-500 rounded-lg flex items-center justify-center">
+            <Shield className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold">Admin</h1>
+            <p className="text-gray-400">
+              Signed in as {user!.username} ({user!.role.toLowerCase()})
+            </p>
+          </div>
+        </div>
+
+        <nav className="flex flex-wrap gap-2 mb-8">
+          {sections.map((section) => (
+            <Link
+              key={section.href}
+              href={section.href}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                isCurrent(section.href)
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-gray-800/50 border border-gray-700 text-gray-300 hover:text-white'
+              }`}
+            >
+              <section.icon className="w-4 h-4" />
+              {section.name}
+            </Link>
+          ))}
+        </nav>
+
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { RefreshCw } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useAuthStore } from '@/store/authStore';
+import { adminAPI, gameAPI, statsAPI } from '@/lib/api';
+import { DEFAULT_CURRENCY, formatCurrency, formatNumber, formatPercentage, formatTime, parseError } from '@/lib/utils';
+import type { Currency, LedgerDiscrepancy, LedgerSummary, PlatformStats } from '@/types';
+
+function StatCard({ label, value, tone }: { label: string; value: string; tone?: 'positive' | 'negative' }) {
+  const color = tone === 'positive' ? 'text-green-400' : tone === 'negative' ? 'text-red-400' : 'text-white';
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700">
+      <p className="text-sm text-gray-400 mb-1">{label}</p>
+      <p className={`text-2xl font-bold ${color}`}>{value}</p>
+    </div>
+  );
+}
+
+// Share of the amount wagered that the house kept
+const realizedEdge = (volume: string, payout: string) => {
+  const wagered = parseFloat(volume);
+  return wagered > 0 ? ((wagered - parseFloat(payout)) / wagered) * 100 : 0;
+};
+
+const ACCOUNT_NAMES: Record<LedgerSummary['accounts'][number]['type'], string> = {
+  HOUSE_BANKROLL: 'House Bankroll',
+  BONUS_POOL: 'Bonus Pool',
+  PAYMENT_CLEARING: 'Payment Clearing'
+};
+
+export default function AdminOverviewPage() {
+  const { user } = useAuthStore();
+  const [currencies, setCurrencies] = useState<Currency[]>([]);
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [stats, setStats] = useState<PlatformStats | null>(null);
+  const [ledger, setLedger] = useState<LedgerSummary | null>(null);
+  const [discrepancies, setDiscrepancies] = useState<LedgerDiscrepancy[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isReconciling, setIsReconciling] = useState(false);
+
+  const loadStats = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [currenciesResponse, statsResponse, ledgerResponse, discrepanciesResponse] = await Promise.all([
+        gameAPI.getCurrencies(),
+        statsAPI.getPlatformStats(currency),
+        adminAPI.getLedger(),
+        adminAPI.getLedgerDiscrepancies(false, 1, 20)
+      ]);
+      setCurrencies(currenciesResponse.data.data.currencies);
+      setStats(statsResponse.data.data);
+      setLedger(ledgerResponse.data.data);
+      setDiscrepancies(discrepanciesResponse.data.data.discrepancies);
+    } catch (error) {
+      toast.error(parseError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currency]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  const handleReconcile = async () => {
+    setIsReconciling(true);
+    try {
+      const response = await adminAPI.reconcileLedger();
+      const { flagged, resolved } = response.data.data.result;
+      toast.success(`Ledger reconciled: ${flagged} new mismatch(es), ${resolved} resolved`);
+      await loadStats();
+    } catch (error) {
+      toast.error(parseError(error));
+    } finally {
+      setIsReconciling(false);
+    }
+  };
+
+  if (!stats) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="spinner" />
+      </div>
+    );
+  }
+
+  const profit = parseFloat(stats.houseProfit);
+  const money = (amount: number | string) => formatCurrency(amount, stats.currency);
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold">Platform P&amp;L</h2>
+        <div className="flex items-center gap-2">
+          {currencies.length > 1 && (
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:border-blue-500 focus:outline-none"
+            >
+              {currencies.map((option) => (
+                <option key={option.code} value={option.code}>{option.name}</option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={loadStats}
+            disabled={isLoading}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg transition-colors"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard label="Total Wagered" value={money(stats.totalVolume)} />
+        <StatCard label="Total Paid Out" value={money(stats.totalPayout)} />
+        <StatCard
+          label="House Profit"
+          value={money(profit)}
+          tone={profit >= 0 ? 'positive' : 'negative'}
+        />
+        <StatCard
+          label="Realized Edge"
+          value={formatPercentage(realizedEdge(stats.totalVolume, stats.totalPayout))}
+        />
+        <StatCard label="Users" value={formatNumber(stats.totalUsers)} />
+        <StatCard label="Games Played" value={formatNumber(stats.totalGames)} />
+        <StatCard label="Games (24h)" value={formatNumber(stats.recentActivity)} />
+      </div>
+
+      <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700 overflow-x-auto">
+        <h3 className="text-lg font-bold mb-4">By Game</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-gray-700">
+              <th className="py-2">Game</th>
+              <th className="py-2 text-right">Games</th>
+              <th className="py-2 text-right">Wagered</th>
+              <th className="py-2 text-right">Paid Out</th>
+              <th className="py-2 text-right">Profit</th>
+              <th className="py-2 text-right">Realized Edge</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.gameStats.map((game) => {
+              const gameProfit = parseFloat(game.totalVolume) - parseFloat(game.totalPayout);
+
+              return (
+                <tr key={game.gameType} className="border-b border-gray-700/50">
+                  <td className="py-2 font-medium">{game.gameType}</td>
+                  <td className="py-2 text-right">{formatNumber(game.totalGames)}</td>
+                  <td className="py-2 text-right">{money(game.totalVolume)}</td>
+                  <td className="py-2 text-right">{money(game.totalPayout)}</td>
+                  <td className={`py-2 text-right ${gameProfit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {money(gameProfit)}
+                  </td>
+                  <td className="py-2 text-right">
+                    {formatPercentage(realizedEdge(game.totalVolume, game.totalPayout))}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {ledger && (
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700 overflow-x-auto">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-bold">Ledger</h3>
+            {user?.role === 'ADMIN' && (
+              <button
+                onClick={handleReconcile}
+                disabled={isReconciling}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg text-sm transition-colors"
+              >
+                {isReconciling ? 'Reconciling...' : 'Reconcile Now'}
+              </button>
+            )}
+          </div>
+
+          <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6 text-sm">
+            {ledger.accounts.map((account) => (
+              <div key={account.key}>
+                <p className="text-gray-400">{ACCOUNT_NAMES[account.type]} ({account.currency})</p>
+                <p className="font-bold font-mono">{formatCurrency(account.balance, account.currency)}</p>
+              </div>
+            ))}
+            {ledger.trialBalances.map((trial) => (
+              <div key={trial.currency}>
+                <p className="text-gray-400">Trial Balance ({trial.currency})</p>
+                <p className={`font-bold font-mono ${parseFloat(trial.balance) === 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {formatCurrency(trial.balance, trial.currency)}
+                </p>
+              </div>
+            ))}
+            <div>
+              <p className="text-gray-400">Open Mismatches</p>
+              <p className={`font-bold ${ledger.openDiscrepancies === 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {ledger.openDiscrepancies}
+              </p>
+            </div>
+          </div>
+
+          {discrepancies.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="py-2">User</th>
+                  <th className="py-2">Currency</th>
+                  <th className="py-2 text-right">Cached Balance</th>
+                  <th className="py-2 text-right">Ledger Balance</th>
+                  <th className="py-2 text-right">Difference</th>
+                  <th className="py-2 text-right">Detected</th>
+                </tr>
+              </thead>
+              <tbody>
+                {discrepancies.map((discrepancy) => (
+                  <tr key={discrepancy.id} className="border-b border-gray-700/50">
+                    <td className="py-2">
+                      <Link href={`/admin/users/${discrepancy.user.id}`} className="text-blue-400 hover:text-blue-300">
+                        {discrepancy.user.username}
+                      </Link>
+                    </td>
+                    <td className="py-2">{discrepancy.currency}</td>
+                    <td className="py-2 text-right font-mono">{formatCurrency(discrepancy.cachedBalance, discrepancy.currency)}</td>
+                    <td className="py-2 text-right font-mono">{formatCurrency(discrepancy.ledgerBalance, discrepancy.currency)}</td>
+                    <td className="py-2 text-right font-mono text-red-400">{formatCurrency(discrepancy.difference, discrepancy.currency)}</td>
+                    <td className="py-2 text-right text-gray-400">{formatTime(discrepancy.detectedAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { toast } from 'react-hot-toast';
+import Pager from '@/components/admin/Pager';
+import PaymentStatusBadge from '@/components/payments/PaymentStatusBadge';
+import { useAuthStore } from '@/store/authStore';
+import { adminAPI } from '@/lib/api';
+import { formatCurrency, formatTime, parseError } from '@/lib/utils';
+import type { Pagination, Payment, PaymentStatus, PaymentType } from '@/types';
+
+const PAGE_SIZE = 20;
+
+const STATUSES: PaymentStatus[] = ['PENDING', 'APPROVED', 'COMPLETED', 'REJECTED', 'CANCELLED', 'FAILED'];
+
+export default function AdminPaymentsPage() {
+  const { user: staff } = useAuthStore();
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [page, setPage] = useState(1);
+  // Open on the withdrawal review queue
+  const [type, setType] = useState<PaymentType | ''>('WITHDRAWAL');
+  const [status, setStatus] = useState<PaymentStatus | ''>('PENDING');
+
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isAdmin = staff?.role === 'ADMIN';
+
+  const loadPayments = useCallback(async () => {
+    try {
+      const response = await adminAPI.getPayments({
+        type: type || undefined,
+        status: status || undefined,
+        page,
+        limit: PAGE_SIZE
+      });
+      setPayments(response.data.data.payments);
+      setPagination(response.data.data.pagination);
+    } catch (error) {
+      toast.error(parseError(error));
+    }
+  }, [type, status, page]);
+
+  useEffect(() => {
+    loadPayments();
+  }, [loadPayments]);
+
+  const handleReview = async (payment: Payment, decision: 'approve' | 'reject') => {
+    setIsSubmitting(true);
+    try {
+      if (decision === 'approve') {
+        await adminAPI.approveWithdrawal(payment.id, note.trim() || undefined);
+      } else {
+        await adminAPI.rejectWithdrawal(payment.id, note.trim());
+      }
+      toast.success(decision === 'approve' ? 'Withdrawal approved' : 'Withdrawal rejected');
+      setReviewingId(null);
+      setNote('');
+      await loadPayments();
+    } catch (error) {
+      toast.error(parseError(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const selectClass = 'bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:border-blue-500 focus:outline-none';
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700">
+      <div className="flex flex-wrap gap-2 mb-6">
+        <select
+          value={type}
+          onChange={(e) => { setPage(1); setType(e.target.value as PaymentType | ''); }}
+          className={selectClass}
+        >
+          <option value="">All types</option>
+          <option value="DEPOSIT">Deposits</option>
+          <option value="WITHDRAWAL">Withdrawals</option>
+        </select>
+        <select
+          value={status}
+          onChange={(e) => { setPage(1); setStatus(e.target.value as PaymentStatus | ''); }}
+          className={selectClass}
+        >
+          <option value="">All statuses</option>
+          {STATUSES.map((option) => (
+            <option key={option} value={option}>{option.toLowerCase()}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-gray-700">
+              <th className="py-2">Time</th>
+              <th className="py-2">User</th>
+              <th className="py-2">Type</th>
+              <th className="py-2">Amount</th>
+              <th className="py-2">Destination</th>
+              <th className="py-2">Status</th>
+              <th className="py-2">Reviewed By</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {payments.map((payment) => (
+              <tr key={payment.id} className="border-b border-gray-700/50 align-top">
+                <td className="py-2 text-gray-400 whitespace-nowrap">{formatTime(payment.createdAt)}</td>
+                <td className="py-2">
+                  {payment.user && (
+                    <Link href={`/admin/users/${payment.user.id}`} className="text-blue-400 hover:text-blue-300">
+                      {payment.user.username}
+                    </Link>
+                  )}
+                </td>
+                <td className="py-2 capitalize">{payment.type.toLowerCase()}</td>
+                <td className="py-2 font-mono">{formatCurrency(payment.amount, payment.currency)}</td>
+                <td className="py-2 text-gray-400 break-all">{payment.destination ?? '-'}</td>
+                <td className="py-2">
+                  <PaymentStatusBadge status={payment.status} />
+                  {(payment.reviewNote || payment.failureReason) && (
+                    <p className="text-xs text-gray-500 mt-1">{payment.reviewNote || payment.failureReason}</p>
+                  )}
+                </td>
+                <td className="py-2 text-gray-400">{payment.reviewedBy?.username ?? '-'}</td>
+                <td className="py-2 text-right">
+                  {isAdmin && payment.type === 'WITHDRAWAL' && payment.status === 'PENDING' && (
+                    reviewingId === payment.id ? (
+                      <div className="flex flex-col items-end gap-2">
+                        <input
+                          type="text"
+                          value={note}
+                          onChange={(e) => setNote(e.target.value)}
+                          maxLength={255}
+                          placeholder="Note (required to reject)"
+                          className="w-56 bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 text-white focus:border-blue-500 focus:outline-none"
+                        />
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleReview(payment, 'approve')}
+                            disabled={isSubmitting}
+                            className="px-3 py-1 bg-green-600 hover:bg-green-500 disabled:opacity-50 rounded-lg transition-colors"
+                          >
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => handleReview(payment, 'reject')}
+                            disabled={isSubmitting || note.trim().length < 3}
+                            className="px-3 py-1 bg-red-600 hover:bg-red-500 disabled:opacity-50 rounded-lg transition-colors"
+                          >
+                            Reject
+                          </button>
+                          <button
+                            onClick={() => { setReviewingId(null); setNote(''); }}
+                            className="px-3 py-1 text-gray-400 hover:text-white"
+                          >
+                            Close
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => { setReviewingId(payment.id); setNote(''); }}
+                        className="text-blue-400 hover:text-blue-300"
+                      >
+                        Review
+                      </button>
+                    )
+                  )}
+                </td>
+              </tr>
+            ))}
+            {payments.length === 0 && (
+              <tr>
+                <td colSpan={8} className="py-6 text-center text-gray-400">No payments</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <Pager pagination={pagination} label="payments" onChange={setPage} />
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { useAuthStore } from '@/store/authStore';
+import { adminAPI } from '@/lib/api';
+import { parseError } from '@/lib/utils';
+import type { GameSettings } from '@/types';
+
+function GameSettingsCard({ settings, canEdit, onSaved }: {
+  settings: GameSettings;
+  canEdit: boolean;
+  onSaved: (settings: GameSettings) => void;
+}) {
+  const [draft, setDraft] = useState(settings);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  // Plinko pays from its payout tables, so its house edge cannot be edited here
+  const isPlinko = settings.gameType === 'PLINKO';
+
+  const isDirty = (['houseEdge', 'minBet', 'maxBet', 'isActive'] as const)
+    .some(key => draft[key] !== settings[key]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const { houseEdge, minBet, maxBet, isActive } = draft;
+      const response = await adminAPI.updateSettings(settings.gameType, { houseEdge, minBet, maxBet, isActive });
+      onSaved(response.data.data.settings);
+      toast.success(`${settings.gameType} settings saved`);
+    } catch (error) {
+      toast.error(parseError(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white focus:border-blue-500 focus:outline-none disabled:opacity-60';
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold">{settings.gameType}</h2>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={draft.isActive}
+            onChange={(e) => setDraft({ ...draft, isActive: e.target.checked })}
+            disabled={!canEdit}
+          />
+          <span className={draft.isActive ? 'text-green-400' : 'text-red-400'}>
+            {draft.isActive ? 'Enabled' : 'Disabled'}
+          </span>
+        </label>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">House Edge (%)</label>
+          <input
+            type="number"
+            step="0.1"
+            min={0}
+            max={20}
+            value={Math.round(draft.houseEdge * 10000) / 100}
+            onChange={(e) => setDraft({ ...draft, houseEdge: (parseFloat(e.target.value) || 0) / 100 })}
+            disabled={!canEdit || isPlinko}
+            className={inputClass}
+          />
+          {isPlinko && (
+            <p className="text-xs text-gray-500 mt-1">Set by the Plinko payout tables</p>
+          )}
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">Min Bet</label>
+            <input
+              type="number"
+              step="0.01"
+              min={0.01}
+              value={draft.minBet}
+              onChange={(e) => setDraft({ ...draft, minBet: parseFloat(e.target.value) || 0 })}
+              disabled={!canEdit}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">Max Bet</label>
+            <input
+              type="number"
+              step="0.01"
+              min={0.01}
+              value={draft.maxBet}
+              onChange={(e) => setDraft({ ...draft, maxBet: parseFloat(e.target.value) || 0 })}
+              disabled={!canEdit}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        {canEdit && (
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="w-full py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded-lg font-semibold transition-colors"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function AdminSettingsPage() {
+  const { user } = useAuthStore();
+  const [settings, setSettings] = useState<GameSettings[]>([]);
+
+  useEffect(() => {
+    adminAPI.getSettings()
+      .then(response => setSettings(response.data.data.settings))
+      .catch(error => toast.error(parseError(error)));
+  }, []);
+
+  const handleSaved = (saved: GameSettings) => {
+    setSettings(prev => prev.map(item => item.gameType === saved.gameType ? saved : item));
+  };
+
+  return (
+    <div className="space-y-4">
+      {user?.role !== 'ADMIN' && (
+        <p className="text-sm text-gray-400">Only admins can change game settings.</p>
+      )}
+      <div className="grid lg:grid-cols-3 gap-8">
+        {settings.map((item) => (
+          <GameSettingsCard
+            key={item.gameType}
+            settings={item}
+            canEdit={user?.role === 'ADMIN'}
+            onSaved={handleSaved}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,372 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import Pager from '@/components/admin/Pager';
+import { useAuthStore } from '@/store/authStore';
+import { adminAPI, gameAPI } from '@/lib/api';
+import { DEFAULT_CURRENCY, formatCurrency, formatMultiplier, formatTime, parseError } from '@/lib/utils';
+import type { AdminUser, AdminUserStats, Currency, GameResult, Pagination, Transaction, UserRole } from '@/types';
+
+const PAGE_SIZE = 20;
+
+export default function AdminUserPage() {
+  const { userId } = useParams<{ userId: string }>();
+  const { user: staff } = useAuthStore();
+  const [user, setUser] = useState<AdminUser | null>(null);
+  const [stats, setStats] = useState<AdminUserStats[]>([]);
+  const [currencies, setCurrencies] = useState<Currency[]>([]);
+  const [tab, setTab] = useState<'games' | 'transactions'>('games');
+
+  const [games, setGames] = useState<GameResult[]>([]);
+  const [gamesPagination, setGamesPagination] = useState<Pagination | null>(null);
+  const [gamesPage, setGamesPage] = useState(1);
+
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [transactionsPagination, setTransactionsPagination] = useState<Pagination | null>(null);
+  const [transactionsPage, setTransactionsPage] = useState(1);
+
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isAdmin = staff?.role === 'ADMIN';
+  const isSelf = staff?.id === userId;
+
+  const loadUser = useCallback(async () => {
+    try {
+      const response = await adminAPI.getUser(userId);
+      setUser(response.data.data.user);
+      setStats(response.data.data.stats);
+    } catch (error) {
+      toast.error(parseError(error));
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadUser();
+  }, [loadUser]);
+
+  useEffect(() => {
+    gameAPI.getCurrencies()
+      .then(response => setCurrencies(response.data.data.currencies))
+      .catch(error => toast.error(parseError(error)));
+  }, []);
+
+  useEffect(() => {
+    adminAPI.getUserHistory(userId, gamesPage, PAGE_SIZE)
+      .then(response => {
+        setGames(response.data.data.games);
+        setGamesPagination(response.data.data.pagination);
+      })
+      .catch(error => toast.error(parseError(error)));
+  }, [userId, gamesPage]);
+
+  useEffect(() => {
+    adminAPI.getUserTransactions(userId, transactionsPage, PAGE_SIZE)
+      .then(response => {
+        setTransactions(response.data.data.transactions);
+        setTransactionsPagination(response.data.data.pagination);
+      })
+      .catch(error => toast.error(parseError(error)));
+  }, [userId, transactionsPage, user?.wallets]);
+
+  if (!user) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="spinner" />
+      </div>
+    );
+  }
+
+  // Reload after every change so the balances, ledger balances and totals stay in step
+  const runAction = async (action: () => Promise<{ data: { message?: string } }>) => {
+    setIsSubmitting(true);
+    try {
+      const response = await action();
+      await loadUser();
+      toast.success(response.data.message || 'Saved');
+    } catch (error) {
+      toast.error(parseError(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAdjust = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const change = parseFloat(amount);
+    if (!change || !reason.trim()) return;
+
+    await runAction(() => adminAPI.adjustBalance(user.id, currency, change, reason.trim()));
+    setAmount('');
+    setReason('');
+  };
+
+  const handleToggleActive = () => {
+    if (user.isActive && !confirm(`Deactivate ${user.username}? They will be signed out everywhere.`)) return;
+
+    runAction(() => user.isActive ? adminAPI.deactivateUser(user.id) : adminAPI.reactivateUser(user.id));
+  };
+
+  const handleRoleChange = (role: UserRole) => {
+    runAction(() => adminAPI.setRole(user.id, role));
+  };
+
+  const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white focus:border-blue-500 focus:outline-none';
+  const decimals = currencies.find(option => option.code === currency)?.decimals ?? 2;
+
+  return (
+    <div className="space-y-8">
+      <Link href="/admin/users" className="inline-flex items-center gap-2 text-gray-400 hover:text-white transition-colors">
+        <ArrowLeft className="w-4 h-4" />
+        All users
+      </Link>
+
+      <div className="grid lg:grid-cols-2 gap-8">
+        {/* Account */}
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700">
+          <h2 className="text-xl font-bold mb-6">{user.username}</h2>
+
+          <div className="space-y-3 text-sm">
+            <div className="flex justify-between gap-4">
+              <span className="text-gray-400">User ID</span>
+              <span className="font-mono break-all text-right">{user.id}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Email</span>
+              <span>{user.email} {user.isVerified ? '(verified)' : '(unverified)'}</span>
+            </div>
+            {user.wallets.map((wallet) => (
+              <div key={wallet.id} className="flex justify-between">
+                <span className="text-gray-400">{wallet.currency} Balance</span>
+                <span className="text-right">
+                  <span className="font-mono font-bold">{formatCurrency(wallet.balance, wallet.currency)}</span>
+                  {wallet.ledgerBalance !== undefined && parseFloat(wallet.ledgerBalance) !== parseFloat(wallet.balance) && (
+                    <span className="block font-mono text-xs text-red-400">
+                      Ledger: {formatCurrency(wallet.ledgerBalance, wallet.currency)}
+                    </span>
+                  )}
+                </span>
+              </div>
+            ))}
+            <div className="flex justify-between">
+              <span className="text-gray-400">Status</span>
+              <span className={user.isActive ? 'text-green-400' : 'text-red-400'}>
+                {user.isActive ? 'Active' : 'Deactivated'}
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-gray-400">Role</span>
+              {isAdmin && !isSelf ? (
+                <select
+                  value={user.role}
+                  onChange={(e) => handleRoleChange(e.target.value as UserRole)}
+                  disabled={isSubmitting}
+                  className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 text-white focus:border-blue-500 focus:outline-none"
+                >
+                  <option value="PLAYER">Player</option>
+                  <option value="SUPPORT">Support</option>
+                  <option value="ADMIN">Admin</option>
+                </select>
+              ) : (
+                <span>{user.role}</span>
+              )}
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Joined</span>
+              <span>{formatTime(user.createdAt)}</span>
+            </div>
+          </div>
+
+          {stats.length > 0 && (
+            <table className="w-full mt-6 pt-6 border-t border-gray-700 text-sm">
+              <thead>
+                <tr className="text-left text-gray-400">
+                  <th className="py-2">Currency</th>
+                  <th className="py-2 text-right">Games</th>
+                  <th className="py-2 text-right">Wagered</th>
+                  <th className="py-2 text-right">Paid Out</th>
+                  <th className="py-2 text-right">Player Net</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.map((total) => {
+                  const netResult = parseFloat(total.netResult);
+
+                  return (
+                    <tr key={total.currency} className="font-bold">
+                      <td className="py-1">{total.currency}</td>
+                      <td className="py-1 text-right">{total.totalGames}</td>
+                      <td className="py-1 text-right">{formatCurrency(total.totalWagered, total.currency)}</td>
+                      <td className="py-1 text-right">{formatCurrency(total.totalPayout, total.currency)}</td>
+                      <td className={`py-1 text-right ${netResult >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {formatCurrency(netResult, total.currency)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Actions */}
+        {isAdmin && (
+          <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700">
+            <h2 className="text-xl font-bold mb-6">Actions</h2>
+
+            <form onSubmit={handleAdjust} className="space-y-4">
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Balance Adjustment (negative to debit)</label>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    step={10 ** -decimals}
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    placeholder={(0).toFixed(decimals)}
+                    className={inputClass}
+                  />
+                  <select
+                    value={currency}
+                    onChange={(e) => setCurrency(e.target.value)}
+                    className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:border-blue-500 focus:outline-none"
+                  >
+                    {currencies.map((option) => (
+                      <option key={option.code} value={option.code}>{option.code}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Reason</label>
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  maxLength={255}
+                  placeholder="Shown in the user's transaction history"
+                  className={inputClass}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isSubmitting || !parseFloat(amount) || reason.trim().length < 3}
+                className="w-full py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded-lg font-semibold transition-colors"
+              >
+                Adjust Balance
+              </button>
+            </form>
+
+            {!isSelf && (
+              <button
+                onClick={handleToggleActive}
+                disabled={isSubmitting}
+                className={`w-full mt-6 py-2 rounded-lg font-semibold transition-colors disabled:opacity-50 ${
+                  user.isActive ? 'bg-red-600 hover:bg-red-500' : 'bg-green-600 hover:bg-green-500'
+                }`}
+              >
+                {user.isActive ? 'Deactivate Account' : 'Reactivate Account'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Activity */}
+      <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700">
+        <div className="flex gap-2 mb-6">
+          {(['games', 'transactions'] as const).map((name) => (
+            <button
+              key={name}
+              onClick={() => setTab(name)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium capitalize transition-colors ${
+                tab === name ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:text-white'
+              }`}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+
+        <div className="overflow-x-auto">
+          {tab === 'games' ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="py-2">Game</th>
+                  <th className="py-2">Bet ID</th>
+                  <th className="py-2 text-right">Bet</th>
+                  <th className="py-2 text-right">Multiplier</th>
+                  <th className="py-2 text-right">Payout</th>
+                  <th className="py-2 text-right">Time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {games.map((game) => (
+                  <tr key={game.id} className="border-b border-gray-700/50">
+                    <td className="py-2">{game.gameType}</td>
+                    <td className="py-2 font-mono text-gray-400">{game.id}</td>
+                    <td className="py-2 text-right">{formatCurrency(game.betAmount, game.currency)}</td>
+                    <td className="py-2 text-right">{formatMultiplier(game.multiplier)}</td>
+                    <td className={`py-2 text-right ${game.isWin ? 'text-green-400' : 'text-gray-400'}`}>
+                      {formatCurrency(game.payout, game.currency)}
+                    </td>
+                    <td className="py-2 text-right text-gray-400">{formatTime(game.createdAt)}</td>
+                  </tr>
+                ))}
+                {games.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="py-6 text-center text-gray-400">No games yet</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="py-2">Type</th>
+                  <th className="py-2">Description</th>
+                  <th className="py-2 text-right">Amount</th>
+                  <th className="py-2 text-right">Balance After</th>
+                  <th className="py-2 text-right">Time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {transactions.map((tx) => (
+                  <tr key={tx.id} className="border-b border-gray-700/50">
+                    <td className="py-2">{tx.type}</td>
+                    <td className="py-2 text-gray-300">{tx.description}</td>
+                    <td className={`py-2 text-right font-mono ${parseFloat(tx.amount) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {formatCurrency(tx.amount, tx.currency)}
+                    </td>
+                    <td className="py-2 text-right font-mono">{formatCurrency(tx.balanceAfter, tx.currency)}</td>
+                    <td className="py-2 text-right text-gray-400">{formatTime(tx.createdAt)}</td>
+                  </tr>
+                ))}
+                {transactions.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="py-6 text-center text-gray-400">No transactions yet</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {tab === 'games' ? (
+          <Pager pagination={gamesPagination} label="games" onChange={setGamesPage} />
+        ) : (
+          <Pager pagination={transactionsPagination} label="transactions" onChange={setTransactionsPage} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Search } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import Pager from '@/components/admin/Pager';
+import { adminAPI } from '@/lib/api';
+import { formatCurrency, formatTime, parseError } from '@/lib/utils';
+import type { AdminUser, Pagination, UserRole } from '@/types';
+
+const PAGE_SIZE = 20;
+
+export default function AdminUsersPage() {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [role, setRole] = useState<UserRole | ''>('');
+  const [status, setStatus] = useState<'' | 'active' | 'inactive'>('');
+  const [page, setPage] = useState(1);
+
+  const loadUsers = useCallback(async () => {
+    try {
+      const response = await adminAPI.getUsers({
+        search: search || undefined,
+        role: role || undefined,
+        isActive: status ? status === 'active' : undefined,
+        page,
+        limit: PAGE_SIZE
+      });
+      setUsers(response.data.data.users);
+      setPagination(response.data.data.pagination);
+    } catch (error) {
+      toast.error(parseError(error));
+    }
+  }, [search, role, status, page]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setSearch(searchInput.trim());
+  };
+
+  const selectClass = 'bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white focus:border-blue-500 focus:outline-none';
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700">
+      <form onSubmit={handleSearch} className="flex flex-wrap gap-2 mb-6">
+        <input
+          type="text"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          placeholder="User ID, email or username"
+          className="flex-1 min-w-[16rem] bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white focus:border-blue-500 focus:outline-none"
+        />
+        <select
+          value={role}
+          onChange={(e) => { setRole(e.target.value as UserRole | ''); setPage(1); }}
+          className={selectClass}
+        >
+          <option value="">All roles</option>
+          <option value="PLAYER">Player</option>
+          <option value="SUPPORT">Support</option>
+          <option value="ADMIN">Admin</option>
+        </select>
+        <select
+          value={status}
+          onChange={(e) => { setStatus(e.target.value as '' | 'active' | 'inactive'); setPage(1); }}
+          className={selectClass}
+        >
+          <option value="">Any status</option>
+          <option value="active">Active</option>
+          <option value="inactive">Deactivated</option>
+        </select>
+        <button type="submit" className="flex items-center gap-2 px-4 bg-blue-600 hover:bg-blue-500 rounded-lg transition-colors">
+          <Search className="w-4 h-4" />
+          Search
+        </button>
+      </form>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-gray-700">
+              <th className="py-2">Username</th>
+              <th className="py-2">Email</th>
+              <th className="py-2">Role</th>
+              <th className="py-2">Status</th>
+              <th className="py-2 text-right">Balances</th>
+              <th className="py-2 text-right">Joined</th>
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((user) => (
+              <tr key={user.id} className="border-b border-gray-700/50 hover:bg-gray-700/30">
+                <td className="py-2">
+                  <Link href={`/admin/users/${user.id}`} className="text-blue-400 hover:text-blue-300 font-medium">
+                    {user.username}
+                  </Link>
+                </td>
+                <td className="py-2 text-gray-300">{user.email}</td>
+                <td className="py-2">{user.role}</td>
+                <td className="py-2">
+                  {user.isActive ? (
+                    <span className="text-green-400">Active</span>
+                  ) : (
+                    <span className="text-red-400">Deactivated</span>
+                  )}
+                </td>
+                <td className="py-2 text-right font-mono">
+                  {user.wallets.length > 0
+                    ? user.wallets.map((wallet) => (
+                      <div key={wallet.id}>{formatCurrency(wallet.balance, wallet.currency)}</div>
+                    ))
+                    : '-'}
+                </td>
+                <td className="py-2 text-right text-gray-400">{formatTime(user.createdAt)}</td>
+              </tr>
+            ))}
+            {users.length === 0 && (
+              <tr>
+                <td colSpan={6} className="py-6 text-center text-gray-400">No users found</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <Pager pagination={pagination} label="users" onChange={setPage} />
+    </div>
+  );
+}
@@ -0,0 +1,573 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ShieldCheck, RefreshCw, Search, CheckCircle, XCircle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import Navbar from '@/components/layout/Navbar';
+import { useAuthStore } from '@/store/authStore';
+import { fairnessAPI, gameAPI } from '@/lib/api';
+import { parseError } from '@/lib/utils';
+import type {
+  BetVerification,
+  CrashChainInfo,
+  CrashNextChainInfo,
+  CrashChainRound,
+  CrashChainVerification,
+  GameType,
+  RevealedSeedPair,
+  SeedPair,
+  VerificationOutcome,
+  VerifyParams
+} from '@/types';
+
+function OutcomeDetails({ gameType, outcome }: { gameType: GameType; outcome: VerificationOutcome }) {
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex justify-between gap-4">
+        <span className="text-gray-400">Server Seed Hash</span>
+        <span className="font-mono break-all text-right">{outcome.serverSeedHash}</span>
+      </div>
+      {gameType === 'PLINKO' && (
+        <>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Ball Path</span>
+            <span className="font-mono">{outcome.ballPath?.map(step => (step ? 'R' : 'L')).join(' ')}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Final Slot</span>
+            <span>{outcome.finalSlot}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Multiplier</span>
+            <span className="font-bold">{outcome.multiplier}x</span>
+          </div>
+        </>
+      )}
+      {gameType === 'MINES' && (
+        <div className="flex justify-between">
+          <span className="text-gray-400">Mine Positions</span>
+          <span className="font-mono">{outcome.minePositions?.join(', ')}</span>
+        </div>
+      )}
+      {gameType === 'CRASH' && (
+        <div className="flex justify-between">
+          <span className="text-gray-400">Crash Point</span>
+          <span className="font-bold">{outcome.crashPoint?.toFixed(2)}x</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function FairnessPage() {
+  const { user } = useAuthStore();
+  const [mounted, setMounted] = useState(false);
+
+  // Seed management
+  const [seed, setSeed] = useState<SeedPair | null>(null);
+  const [clientSeedInput, setClientSeedInput] = useState('');
+  const [lastRevealed, setLastRevealed] = useState<RevealedSeedPair | null>(null);
+  const [isRotating, setIsRotating] = useState(false);
+
+  // Bet lookup
+  const [betId, setBetId] = useState('');
+  const [verification, setVerification] = useState<BetVerification | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+
+  // Manual verification
+  const [params, setParams] = useState<VerifyParams>({
+    gameType: 'PLINKO',
+    serverSeed: '',
+    clientSeed: '',
+    nonce: 0,
+    rows: 16,
+    risk: 'medium',
+    gridSize: 25,
+    mineCount: 5
+  });
+  const [manualOutcome, setManualOutcome] = useState<VerificationOutcome | null>(null);
+
+  // Crash hash chain
+  const [crashChain, setCrashChain] = useState<CrashChainInfo | null>(null);
+  const [nextCrashChain, setNextCrashChain] = useState<CrashNextChainInfo | null>(null);
+  const [crashRounds, setCrashRounds] = useState<CrashChainRound[]>([]);
+  const [walkHash, setWalkHash] = useState('');
+  const [walkGameNumber, setWalkGameNumber] = useState(1);
+  const [walkCount, setWalkCount] = useState(20);
+  const [chainWalk, setChainWalk] = useState<CrashChainVerification | null>(null);
+
+  useEffect(() => {
+    setMounted(true);
+
+    Promise.all([gameAPI.getCrashChain(), gameAPI.getCrashRounds(1, 10)])
+      .then(([chainResponse, roundsResponse]) => {
+        setCrashChain(chainResponse.data.data.chain);
+        setNextCrashChain(chainResponse.data.data.nextChain);
+        setCrashRounds(roundsResponse.data.data.rounds);
+      })
+      .catch(error => toast.error(parseError(error)));
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fairnessAPI.getSeeds()
+      .then(response => {
+        const activeSeed: SeedPair = response.data.data.seed;
+        setSeed(activeSeed);
+        setClientSeedInput(activeSeed.clientSeed);
+      })
+      .catch(error => toast.error(parseError(error)));
+  }, [user]);
+
+  if (!mounted) {
+    return null;
+  }
+
+  const handleSetClientSeed = async () => {
+    try {
+      const response = await fairnessAPI.setClientSeed(clientSeedInput);
+      setSeed(response.data.data.seed);
+      toast.success('Client seed updated');
+    } catch (error) {
+      toast.error(parseError(error));
+    }
+  };
+
+  const handleRotate = async () => {
+    setIsRotating(true);
+    try {
+      const response = await fairnessAPI.rotateSeed(clientSeedInput || undefined);
+      const { previous, current } = response.data.data;
+      setLastRevealed(previous);
+      setSeed(current);
+      setClientSeedInput(current.clientSeed);
+      toast.success('Server seed revealed and rotated');
+
+      // Refresh an open lookup so its newly revealed seed is verified
+      if (verification) {
+        const refreshed = await fairnessAPI.getBetVerification(verification.bet.id);
+        setVerification(refreshed.data.data);
+      }
+    } catch (error) {
+      toast.error(parseError(error));
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  const handleLookup = async () => {
+    if (!betId.trim()) return;
+
+    setIsLookingUp(true);
+    try {
+      const response = await fairnessAPI.getBetVerification(betId.trim());
+      setVerification(response.data.data);
+    } catch (error) {
+      setVerification(null);
+      toast.error(parseError(error));
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const handleManualVerify = async () => {
+    const { gameType, serverSeed, clientSeed, nonce, rows, risk, gridSize, mineCount } = params;
+
+    try {
+      const response = await fairnessAPI.verify({
+        gameType,
+        serverSeed,
+        clientSeed,
+        nonce,
+        ...(gameType === 'PLINKO' && { rows, risk }),
+        ...(gameType === 'MINES' && { gridSize, mineCount })
+      });
+      setManualOutcome(response.data.data.outcome);
+    } catch (error) {
+      setManualOutcome(null);
+      toast.error(parseError(error));
+    }
+  };
+
+  const handleWalkChain = async () => {
+    try {
+      const response = await gameAPI.verifyCrashChain(walkHash.trim(), walkGameNumber, walkCount);
+      setChainWalk(response.data.data);
+    } catch (error) {
+      setChainWalk(null);
+      toast.error(parseError(error));
+    }
+  };
+
+  const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white focus:border-blue-500 focus:outline-none';
+
+  return (
+    <div className="min-h-screen">
+      <Navbar />
+
+      <div className="container mx-auto px-4 pt-24 pb-12">
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-8">
+          <div className="w-10 h-10 bg-gradient-to-r from-blue-500 to-cyan-500 rounded-lg flex items-center justify-center">
+            <ShieldCheck className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold">Provably Fair</h1>
+            <p className="text-gray-400">Every result is HMAC-SHA256(serverSeed, clientSeed:nonce:cursor)</p>
+          </div>
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-8">
+          {/* Seeds */}
+          {user && (
+            <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700">
+              <h2 className="text-xl font-bold mb-6">Your Seeds</h2>
+
+              <div className="space-y-4">
+                <div>
+                  <p className="text-sm text-gray-400 mb-1">Active Server Seed (hashed)</p>
+                  <p className="font-mono text-sm break-all">{seed?.serverSeedHash || '...'}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-400 mb-1">Next Nonce</p>
+                  <p className="font-mono text-sm">{seed?.nonce ?? '...'}</p>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-1">Client Seed</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={clientSeedInput}
+                      onChange={(e) => setClientSeedInput(e.target.value)}
+                      maxLength={64}
+                      className={inputClass}
+                    />
+                    <button
+                      onClick={handleSetClientSeed}
+                      disabled={!clientSeedInput || clientSeedInput === seed?.clientSeed}
+                      className="px-4 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg transition-colors"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+
+                <button
+                  onClick={handleRotate}
+                  disabled={isRotating}
+                  className="w-full py-3 bg-gradient-to-r from-blue-500 to-cyan-500 hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 text-white font-bold rounded-xl transition-all duration-300 flex items-center justify-center gap-2"
+                >
+                  <RefreshCw className={`w-5 h-5 ${isRotating ? 'animate-spin' : ''}`} />
+                  Reveal &amp; Rotate Server Seed
+                </button>
+
+                {lastRevealed && (
+                  <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-700 text-sm space-y-1">
+                    <p className="text-gray-400">Revealed server seed</p>
+                    <p className="font-mono break-all">{lastRevealed.serverSeed}</p>
+                    <p className="text-gray-400">
+                      Used with client seed <span className="font-mono">{lastRevealed.clientSeed}</span> for nonces 0–{lastRevealed.nonce - 1}
+                    </p>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Bet Lookup */}
+          {user && (
+            <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700">
+              <h2 className="text-xl font-bold mb-6">Verify a Bet</h2>
+
+              <div className="flex gap-2 mb-6">
+                <input
+                  type="text"
+                  value={betId}
+                  onChange={(e) => setBetId(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleLookup()}
+                  placeholder="Bet ID from your game history"
+                  className={inputClass}
+                />
+                <button
+                  onClick={handleLookup}
+                  disabled={isLookingUp || !betId.trim()}
+                  className="px-4 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg transition-colors"
+                >
+                  <Search className="w-5 h-5" />
+                </button>
+              </div>
+
+              {verification && (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <span className="font-bold">{verification.bet.gameType}</span>
+                    {verification.verified === null ? (
+                      <span className="text-sm text-yellow-400">Rotate your seed to reveal this bet&apos;s server seed</span>
+                    ) : verification.verified ? (
+                      <span className="flex items-center gap-1 text-green-400"><CheckCircle className="w-4 h-4" /> Verified</span>
+                    ) : (
+                      <span className="flex items-center gap-1 text-red-400"><XCircle className="w-4 h-4" /> Mismatch</span>
+                    )}
+                  </div>
+
+                  <div className="grid md:grid-cols-2 gap-4">
+                    <div>
+                      <p className="text-sm text-gray-400 mb-2">Recorded</p>
+                      <pre className="text-xs bg-gray-900/50 rounded-lg p-3 overflow-auto max-h-64">
+                        {JSON.stringify(verification.bet.gameData, null, 2)}
+                      </pre>
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-400 mb-2">Recomputed</p>
+                      {verification.outcome ? (
+                        <div className="bg-gray-900/50 rounded-lg p-3">
+                          <OutcomeDetails gameType={verification.bet.gameType} outcome={verification.outcome} />
+                        </div>
+                      ) : (
+                        <p className="text-sm text-gray-500">Available once the server seed is revealed</p>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="text-xs text-gray-400 space-y-1">
+                    <p>Server seed hash: <span className="font-mono break-all">{verification.bet.serverSeedHash}</span></p>
+                    <p>Client seed: <span className="font-mono">{verification.bet.clientSeed}</span> · Nonce: <span className="font-mono">{verification.bet.nonce}</span></p>
+                    {verification.bet.serverSeed && (
+                      <p>Server seed: <span className="font-mono break-all">{verification.bet.serverSeed}</span></p>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Manual Verification */}
+          <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700 lg:col-span-2">
+            <h2 className="text-xl font-bold mb-6">Verify Manually</h2>
+
+            <div className="grid md:grid-cols-2 gap-6">
+              <div className="space-y-4">
+                <div className="grid grid-cols-3 gap-2">
+                  {(['PLINKO', 'MINES', 'CRASH'] as GameType[]).map(gameType => (
+                    <button
+                      key={gameType}
+                      onClick={() => {
+                        setParams({ ...params, gameType });
+                        setManualOutcome(null);
+                      }}
+                      className={`p-3 rounded-lg border-2 text-xs font-medium transition-all ${
+                        params.gameType === gameType
+                          ? 'border-blue-500 bg-blue-500/20'
+                          : 'border-gray-600 bg-gray-700 hover:border-gray-500'
+                      }`}
+                    >
+                      {gameType}
+                    </button>
+                  ))}
+                </div>
+
+                <input
+                  type="text"
+                  value={params.serverSeed}
+                  onChange={(e) => setParams({ ...params, serverSeed: e.target.value })}
+                  placeholder="Server seed"
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={params.clientSeed}
+                  onChange={(e) => setParams({ ...params, clientSeed: e.target.value })}
+                  placeholder="Client seed"
+                  className={inputClass}
+                />
+                <input
+                  type="number"
+                  value={params.nonce}
+                  onChange={(e) => setParams({ ...params, nonce: Number(e.target.value) })}
+                  min="0"
+                  placeholder="Nonce"
+                  className={inputClass}
+                />
+
+                {params.gameType === 'PLINKO' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <select
+                      value={params.rows}
+                      onChange={(e) => setParams({ ...params, rows: Number(e.target.value) })}
+                      className={inputClass}
+                    >
+                      {[8, 9, 10, 11, 12, 13, 14, 15, 16].map(rows => <option key={rows} value={rows}>{rows} rows</option>)}
+                    </select>
+                    <select
+                      value={params.risk}
+                      onChange={(e) => setParams({ ...params, risk: e.target.value as VerifyParams['risk'] })}
+                      className={inputClass}
+                    >
+                      {['low', 'medium', 'high'].map(risk => <option key={risk} value={risk}>{risk} risk</option>)}
+                    </select>
+                  </div>
+                )}
+
+                {params.gameType === 'MINES' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      type="number"
+                      value={params.gridSize}
+                      onChange={(e) => setParams({ ...params, gridSize: Number(e.target.value) })}
+                      placeholder="Grid size"
+                      className={inputClass}
+                    />
+                    <input
+                      type="number"
+                      value={params.mineCount}
+                      onChange={(e) => setParams({ ...params, mineCount: Number(e.target.value) })}
+                      placeholder="Mines"
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+
+                <button
+                  onClick={handleManualVerify}
+                  disabled={!params.serverSeed || !params.clientSeed}
+                  className="w-full py-3 bg-gradient-to-r from-blue-500 to-cyan-500 hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 text-white font-bold rounded-xl transition-all duration-300"
+                >
+                  Recompute Result
+                </button>
+              </div>
+
+              <div className="bg-gray-900/50 rounded-lg p-4 border border-gray-700">
+                {manualOutcome ? (
+                  <OutcomeDetails gameType={params.gameType} outcome={manualOutcome} />
+                ) : (
+                  <p className="text-sm text-gray-500">Enter revealed seeds to recompute a result</p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Crash Hash Chain */}
+          <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700 lg:col-span-2">
+            <h2 className="text-xl font-bold mb-2">Crash Hash Chain</h2>
+            <p className="text-sm text-gray-400 mb-6">
+              Crash rounds play a pre-generated sha256 chain backwards from the published terminating hash, so each round hash hashes to the one before it.
+              The crash point is HMAC-SHA256(hash, salt:gameNumber:0).
+              Each chain's terminating hash is published before its salt is fixed, so the chain could not have been chosen to suit the salt.
+            </p>
+
+            <div className="grid md:grid-cols-2 gap-6">
+              <div className="space-y-4">
+                <div>
+                  <p className="text-sm text-gray-400 mb-1">Terminating Hash</p>
+                  <p className="font-mono text-sm break-all">{crashChain?.terminatingHash || '...'}</p>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <p className="text-sm text-gray-400 mb-1">Salt</p>
+                    <p className="font-mono text-sm break-all">{crashChain?.salt || '...'}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-400 mb-1">Games Played</p>
+                    <p className="font-mono text-sm">
+                      {crashChain ? `${crashChain.gamesPlayed.toLocaleString()} / ${crashChain.length.toLocaleString()}` : '...'}
+                    </p>
+                  </div>
+                </div>
+
+                {nextCrashChain && (
+                  <div className="bg-gray-900/50 rounded-lg p-4 border border-gray-700 space-y-2">
+                    <p className="text-sm text-gray-400">Next Chain Terminating Hash</p>
+                    <p className="font-mono text-sm break-all">{nextCrashChain.terminatingHash}</p>
+                    <p className="text-sm text-gray-400">
+                      Salt: <span className="font-mono text-white break-all">{nextCrashChain.salt ?? 'not fixed yet'}</span>
+                    </p>
+                  </div>
+                )}
+
+                <div>
+                  <p className="text-sm text-gray-400 mb-2">Recent Rounds</p>
+                  <div className="space-y-1">
+                    {crashRounds.map(round => (
+                      <button
+                        key={round.gameNumber}
+                        onClick={() => {
+                          setWalkHash(round.hash);
+                          setWalkGameNumber(round.gameNumber);
+                        }}
+                        className="w-full flex items-center justify-between gap-4 text-xs bg-gray-900/50 hover:bg-gray-700 rounded px-3 py-2 text-left"
+                      >
+                        <span className="text-gray-400">#{round.gameNumber}</span>
+                        <span className="font-mono truncate flex-1">{round.hash}</span>
+                        <span className={`font-bold ${round.crashPoint >= 2 ? 'text-green-400' : 'text-red-400'}`}>
+                          {round.crashPoint.toFixed(2)}x
+                        </span>
+                      </button>
+                    ))}
+                    {crashRounds.length === 0 && <p className="text-sm text-gray-500">No rounds played yet</p>}
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <input
+                  type="text"
+                  value={walkHash}
+                  onChange={(e) => setWalkHash(e.target.value)}
+                  placeholder="Revealed round hash"
+                  className={inputClass}
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="number"
+                    value={walkGameNumber}
+                    onChange={(e) => setWalkGameNumber(Number(e.target.value))}
+                    min="1"
+                    placeholder="Game number"
+                    className={inputClass}
+                  />
+                  <input
+                    type="number"
+                    value={walkCount}
+                    onChange={(e) => setWalkCount(Number(e.target.value))}
+                    min="1"
+                    max="1000"
+                    placeholder="Rounds to walk"
+                    className={inputClass}
+                  />
+                </div>
+                <button
+                  onClick={handleWalkChain}
+                  disabled={!walkHash.trim()}
+                  className="w-full py-3 bg-gradient-to-r from-blue-500 to-cyan-500 hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 text-white font-bold rounded-xl transition-all duration-300"
+                >
+                  Walk Chain
+                </button>
+
+                {chainWalk && (
+                  <div className="bg-gray-900/50 rounded-lg p-4 border border-gray-700 space-y-3">
+                    {chainWalk.matchesActiveChain !== null && (
+                      <div className={`flex items-center gap-2 font-semibold ${chainWalk.matchesActiveChain ? 'text-green-400' : 'text-red-400'}`}>
+                        {chainWalk.matchesActiveChain ? <CheckCircle className="w-5 h-5" /> : <XCircle className="w-5 h-5" />}
+                        {chainWalk.matchesActiveChain ? 'Chain reaches the terminating hash' : 'Chain does not reach the terminating hash'}
+                      </div>
+                    )}
+                    <div className="max-h-64 overflow-y-auto space-y-1">
+                      {chainWalk.rounds.map(round => (
+                        <div key={round.gameNumber} className="flex items-center justify-between gap-4 text-xs">
+                          <span className="text-gray-400">#{round.gameNumber}</span>
+                          <span className="font-mono truncate flex-1">{round.hash}</span>
+                          <span className="font-bold">{round.crashPoint.toFixed(2)}x</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
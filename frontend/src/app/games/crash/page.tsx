@@ -2,28 +2,149 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { TrendingUp, ArrowLeft, Play, RotateCcw, DollarSign } from 'lucide-react';
+import { TrendingUp, ArrowLeft, Play, Users } from 'lucide-react';
 import Link from 'next/link';
-import { useAuthStore } from '@/store/authStore';
+import { selectedWallet, useAuthStore } from '@/store/authStore';
 import { toast } from 'react-hot-toast';
+import { gameAPI } from '@/lib/api';
+import { socketService } from '@/lib/socket';
+import { formatCurrency, generateSeed, parseError } from '@/lib/utils';
+import type { CrashChainRound, CrashPhase, CrashPhaseUpdate, CrashPlayer, SocketEvents } from '@/types';
+
+interface GraphPoint {
+  elapsed: number;
+  multiplier: number;
+}
+
+const GRAPH_WIDTH = 100;
+const GRAPH_HEIGHT = 60;
 
 export default function CrashPage() {
-  const { user } = useAuthStore();
+  const { user, token, currency, updateBalance } = useAuthStore();
   const [betAmount, setBetAmount] = useState(10);
   const [autoCashOut, setAutoCashOut] = useState<number | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [gameActive, setGameActive] = useState(false);
+  const [phase, setPhase] = useState<CrashPhase | null>(null);
+  const [phaseEndsAt, setPhaseEndsAt] = useState<number | null>(null);
+  const [gameNumber, setGameNumber] = useState<number | null>(null);
   const [currentMultiplier, setCurrentMultiplier] = useState(1.0);
-  const [gameHistory, setGameHistory] = useState<number[]>([]);
-  const [hasActiveBet, setHasActiveBet] = useState(false);
+  const [points, setPoints] = useState<GraphPoint[]>([]);
+  const [players, setPlayers] = useState<CrashPlayer[]>([]);
+  const [recentRounds, setRecentRounds] = useState<CrashChainRound[]>([]);
+  const [lastCrashPoint, setLastCrashPoint] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [now, setNow] = useState(Date.now());
   const [mounted, setMounted] = useState(false);
-  const intervalRef = useRef<NodeJS.Timeout>();
+  const manualCashOutRef = useRef(false);
 
   // Fix hydration issues
   useEffect(() => {
     setMounted(true);
   }, []);
 
+  // Load the round in progress and the recent crash points
+  useEffect(() => {
+    gameAPI.getCurrentCrash()
+      .then(response => {
+        const gameState = response.data.data.gameState;
+        if (!gameState) return;
+
+        setPhase(gameState.phase);
+        setPhaseEndsAt(gameState.phaseEndsAt);
+        setGameNumber(gameState.gameNumber);
+        setCurrentMultiplier(gameState.currentMultiplier);
+        setPlayers(gameState.players);
+      })
+      .catch(error => toast.error(parseError(error)));
+
+    gameAPI.getCrashRounds(1, 20)
+      .then(response => setRecentRounds(response.data.data.rounds))
+      .catch(error => toast.error(parseError(error)));
+  }, []);
+
+  // Follow the shared round over the socket
+  useEffect(() => {
+    if (!token) return;
+
+    socketService.connect(token);
+    socketService.joinGame('CRASH');
+
+    const handlePhase = (data: CrashPhaseUpdate) => {
+      setPhase(data.phase);
+      setPhaseEndsAt(data.phaseEndsAt);
+      setGameNumber(data.gameNumber);
+
+      if (data.phase === 'BETTING') {
+        setPlayers([]);
+        setPoints([]);
+        setCurrentMultiplier(1.0);
+        manualCashOutRef.current = false;
+      }
+    };
+
+    const handleRoundStarted: SocketEvents['crashRoundStarted'] = (data) => {
+      setPlayers(data.players);
+      setPoints([{ elapsed: 0, multiplier: 1 }]);
+      setCurrentMultiplier(1.0);
+    };
+
+    const handleMultiplier: SocketEvents['crashMultiplierUpdate'] = (data) => {
+      setCurrentMultiplier(data.multiplier);
+      setPoints(prev => [...prev, { elapsed: data.elapsed, multiplier: data.multiplier }]);
+    };
+
+    const handlePlayers: SocketEvents['crashPlayers'] = (data) => {
+      setPlayers(data.players);
+    };
+
+    const handleRoundEnded: SocketEvents['crashRoundEnded'] = (data) => {
+      setPlayers(data.players);
+      setCurrentMultiplier(data.crashPoint);
+      setLastCrashPoint(data.crashPoint);
+      setRecentRounds(prev => [
+        { gameNumber: data.gameNumber, hash: data.hash, houseEdge: data.houseEdge, crashPoint: data.crashPoint },
+        ...prev.slice(0, 19)
+      ]);
+
+      const myBet = data.players.find(player => player.userId === user?.id);
+      if (!myBet) return;
+
+      if (!myBet.cashedOut) {
+        toast.error(`💥 Crashed at ${data.crashPoint.toFixed(2)}x! You lost ${formatCurrency(myBet.betAmount, myBet.currency)}`);
+      } else if (!manualCashOutRef.current) {
+        toast.success(`Auto cashed out at ${myBet.cashOutMultiplier?.toFixed(2)}x! Won ${formatCurrency(myBet.payout, myBet.currency)}`);
+      }
+    };
+
+    const handleBalance: SocketEvents['balanceUpdate'] = (data) => {
+      updateBalance(data.balance, data.currency);
+    };
+
+    socketService.on('crashPhase', handlePhase);
+    socketService.on('crashRoundStarted', handleRoundStarted);
+    socketService.on('crashMultiplierUpdate', handleMultiplier);
+    socketService.on('crashPlayers', handlePlayers);
+    socketService.on('crashRoundEnded', handleRoundEnded);
+    socketService.on('balanceUpdate', handleBalance);
+
+    return () => {
+      socketService.leaveGame('CRASH');
+      socketService.off('crashPhase', handlePhase);
+      socketService.off('crashRoundStarted', handleRoundStarted);
+      socketService.off('crashMultiplierUpdate', handleMultiplier);
+      socketService.off('crashPlayers', handlePlayers);
+      socketService.off('crashRoundEnded', handleRoundEnded);
+      socketService.off('balanceUpdate', handleBalance);
+    };
+  }, [token, user?.id, updateBalance]);
+
+  // Tick the betting countdown
+  useEffect(() => {
+    if (phase !== 'BETTING') return;
+
+    const interval = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(interval);
+  }, [phase]);
+
   if (!mounted) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-gray-950 text-white flex items-center justify-center">
@@ -35,94 +156,61 @@ export default function CrashPage() {
     );
   }
 
-  const startGame = () => {
-    if (!user) {
+  const wallet = selectedWallet(user, currency);
+  const myBet = players.find(player => player.userId === user?.id);
+  const countdown = phase === 'BETTING' && phaseEndsAt ? Math.max(0, (phaseEndsAt - now) / 1000) : 0;
+  const isRunning = phase === 'RUNNING';
+
+  const placeBet = async () => {
+    if (!user || !wallet) {
       toast.error('Please login to play');
       return;
     }
 
-    if (betAmount > user.balance) {
+    if (betAmount > parseFloat(wallet.balance)) {
       toast.error('Insufficient balance');
       return;
     }
 
-    setIsPlaying(true);
-    setGameActive(true);
-    setCurrentMultiplier(1.0);
-    setHasActiveBet(true);
-    
-    // Simulate crash game
-    const crashPoint = Math.random() * 10 + 1; // Random crash between 1x and 11x
-    let multiplier = 1.0;
-    
-    intervalRef.current = setInterval(() => {
-      multiplier += 0.01;
-      setCurrentMultiplier(multiplier);
-      
-      // Check auto cash out
-      if (autoCashOut && multiplier >= autoCashOut) {
-        handleCashOut(multiplier);
-        return;
-      }
-      
-      // Check if crashed
-      if (multiplier >= crashPoint) {
-        handleCrash(crashPoint);
-        return;
-      }
-    }, 50);
-  };
-
-  const handleCashOut = (multiplier?: number) => {
-    if (!hasActiveBet) return;
-    
-    const finalMultiplier = multiplier || currentMultiplier;
-    const winAmount = betAmount * finalMultiplier;
-    
-    // Only remove the bet, but keep the game running
-    setHasActiveBet(false);
-    
-    toast.success(`Cashed out at ${finalMultiplier.toFixed(2)}x! Won $${winAmount.toFixed(2)}`);
+    setIsSubmitting(true);
+    try {
+      const response = await gameAPI.placeCrashBet(betAmount, wallet.currency, generateSeed(), autoCashOut ?? undefined);
+      updateBalance(response.data.data.newBalance, wallet.currency);
+      toast.success(`Bet of ${formatCurrency(betAmount, wallet.currency, wallet.decimals)} placed`);
+    } catch (error) {
+      toast.error(parseError(error));
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
-  const handleCrash = (crashPoint: number) => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-    }
-    
-    setCurrentMultiplier(crashPoint);
-    setGameActive(false);
-    setIsPlaying(false);
-    
-    if (hasActiveBet) {
-      setHasActiveBet(false);
-      toast.error(`💥 Crashed at ${crashPoint.toFixed(2)}x! You lost $${betAmount}`);
-    } else {
-      toast(`💥 Game crashed at ${crashPoint.toFixed(2)}x`, {
-        icon: '✈️',
-        style: {
-          background: 'rgba(59, 130, 246, 0.95)',
-          color: '#ffffff',
-        },
-      });
+  const cashOut = async () => {
+    setIsSubmitting(true);
+    try {
+      manualCashOutRef.current = true;
+      const response = await gameAPI.crashCashOut();
+      const { result, newBalance } = response.data.data;
+      updateBalance(newBalance, result.currency);
+      toast.success(`Cashed out at ${result.cashOutMultiplier.toFixed(2)}x! Won ${formatCurrency(result.payout, result.currency)}`);
+    } catch (error) {
+      manualCashOutRef.current = false;
+      toast.error(parseError(error));
+    } finally {
+      setIsSubmitting(false);
     }
-    
-    // Add to history
-    setGameHistory(prev => [crashPoint, ...prev.slice(0, 9)]);
-    
-    // Auto start next round after 3 seconds
-    setTimeout(() => {
-      setCurrentMultiplier(1.0);
-    }, 3000);
   };
 
-  useEffect(() => {
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
-  }, []);
+  // Scale the graph so the curve always fits, with a little headroom above the multiplier
+  const lastPoint = points[points.length - 1];
+  const maxElapsed = Math.max(8000, lastPoint?.elapsed || 0);
+  const maxMultiplier = Math.max(2, currentMultiplier * 1.1);
+  const toGraph = (point: GraphPoint) => {
+    const x = (point.elapsed / maxElapsed) * GRAPH_WIDTH;
+    const y = GRAPH_HEIGHT - ((point.multiplier - 1) / (maxMultiplier - 1)) * GRAPH_HEIGHT;
+    return `${x.toFixed(2)},${y.toFixed(2)}`;
+  };
+  const curve = points.map(toGraph).join(' ');
+  const curveColor = phase === 'CRASHED' ? '#f87171' : '#34d399';
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-gray-950 text-white">
@@ -147,11 +235,11 @@ export default function CrashPage() {
               </div>
             </div>
           </div>
-          
-          {user && (
+
+          {wallet && (
             <div className="text-right">
               <p className="text-gray-400">Balance</p>
-              <p className="text-2xl font-bold text-green-400">${user.balance}</p>
+              <p className="text-2xl font-bold text-green-400">{formatCurrency(wallet.balance, wallet.currency, wallet.decimals)}</p>
             </div>
           )}
         </div>
@@ -161,7 +249,7 @@ export default function CrashPage() {
           <div className="lg:col-span-1">
             <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700">
               <h2 className="text-xl font-bold mb-6">Game Controls</h2>
-              
+
               {/* Bet Amount */}
               <div className="mb-6">
                 <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -171,9 +259,9 @@ export default function CrashPage() {
                   type="number"
                   value={betAmount}
                   onChange={(e) => setBetAmount(Number(e.target.value))}
-                  min="1"
-                  max={user?.balance || 1000}
-                  disabled={gameActive}
+                  min="0.01"
+                  step="0.01"
+                  disabled={!!myBet}
                   className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white focus:border-green-500 focus:outline-none disabled:opacity-50"
                 />
               </div>
@@ -190,30 +278,35 @@ export default function CrashPage() {
                   min="1.01"
                   step="0.01"
                   placeholder="e.g. 2.00"
-                  disabled={gameActive}
+                  disabled={!!myBet}
                   className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white focus:border-green-500 focus:outline-none disabled:opacity-50"
                 />
               </div>
 
               {/* Action Buttons */}
               <div className="space-y-3">
-                {!gameActive ? (
+                {phase === 'BETTING' && !myBet ? (
                   <button
-                    onClick={startGame}
-                    disabled={!user}
+                    onClick={placeBet}
+                    disabled={!user || isSubmitting}
                     className="w-full py-4 bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-xl transition-all duration-300 flex items-center justify-center gap-2"
                   >
                     <Play className="w-5 h-5" />
-                    Place Bet (${betAmount})
+                    Place Bet ({formatCurrency(betAmount, wallet?.currency)})
                   </button>
-                ) : hasActiveBet ? (
+                ) : phase === 'BETTING' && myBet ? (
+                  <div className="w-full py-4 bg-gradient-to-r from-blue-600 to-purple-600 text-white font-bold rounded-xl text-center">
+                    Bet placed, starting in {countdown.toFixed(1)}s
+                  </div>
+                ) : isRunning && myBet && !myBet.cashedOut ? (
                   <button
-                    onClick={() => handleCashOut()}
-                    className="w-full py-4 bg-gradient-to-r from-yellow-500 to-orange-500 hover:from-yellow-600 hover:to-orange-600 text-white font-bold rounded-xl transition-all duration-300"
+                    onClick={cashOut}
+                    disabled={isSubmitting}
+                    className="w-full py-4 bg-gradient-to-r from-yellow-500 to-orange-500 hover:from-yellow-600 hover:to-orange-600 disabled:opacity-50 text-white font-bold rounded-xl transition-all duration-300"
                   >
-                    Cash Out (${(betAmount * currentMultiplier).toFixed(2)})
+                    Cash Out ({formatCurrency(myBet.betAmount * currentMultiplier, myBet.currency)})
                   </button>
-                ) : gameActive ? (
+                ) : isRunning ? (
                   <div className="w-full py-4 bg-gradient-to-r from-blue-600 to-purple-600 text-white font-bold rounded-xl text-center">
                     🛩️ Watching Flight
                   </div>
@@ -225,20 +318,37 @@ export default function CrashPage() {
               </div>
             </div>
 
-            {/* Game History */}
+            {/* Live Players */}
             <div className="mt-6 bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700">
-              <h3 className="text-lg font-bold mb-4">Recent Crashes</h3>
-              <div className="grid grid-cols-2 gap-2">
-                {gameHistory.map((crash, index) => (
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-bold">Players</h3>
+                <div className="flex items-center gap-1 text-sm text-gray-400">
+                  <Users className="w-4 h-4" />
+                  {players.length}
+                </div>
+              </div>
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {players.map(player => (
                   <div
-                    key={index}
-                    className={`p-2 rounded-lg text-center text-sm font-bold ${
-                      crash >= 2 ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'
+                    key={player.userId}
+                    className={`flex items-center justify-between text-sm rounded-lg px-3 py-2 ${
+                      player.userId === user?.id ? 'bg-green-500/10 border border-green-500/30' : 'bg-gray-900/50'
                     }`}
                   >
-                    {crash.toFixed(2)}x
+                    <span className="truncate">{player.username}</span>
+                    <span className="text-gray-400">{formatCurrency(player.betAmount, player.currency)}</span>
+                    {player.cashedOut ? (
+                      <span className="text-green-400 font-bold">{player.cashOutMultiplier?.toFixed(2)}x</span>
+                    ) : phase === 'CRASHED' ? (
+                      <span className="text-red-400 font-bold">Lost</span>
+                    ) : (
+                      <span className="text-gray-500">-</span>
+                    )}
                   </div>
                 ))}
+                {players.length === 0 && (
+                  <p className="text-sm text-gray-500">No bets this round yet</p>
+                )}
               </div>
             </div>
           </div>
@@ -246,142 +356,116 @@ export default function CrashPage() {
           {/* Game Display */}
           <div className="lg:col-span-3">
             <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700 min-h-[600px] flex flex-col">
+              {/* Recent Crashes */}
+              <div className="flex gap-2 overflow-x-auto mb-6 pb-1">
+                {recentRounds.map(round => (
+                  <div
+                    key={round.gameNumber}
+                    title={`Game #${round.gameNumber}`}
+                    className={`px-3 py-1 rounded-lg text-sm font-bold whitespace-nowrap ${
+                      round.crashPoint >= 2 ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'
+                    }`}
+                  >
+                    {round.crashPoint.toFixed(2)}x
+                  </div>
+                ))}
+              </div>
+
               {/* Multiplier Display */}
               <div className="text-center mb-8">
                 <motion.div
-                  animate={{ scale: gameActive ? [1, 1.1, 1] : 1 }}
-                  transition={{ repeat: gameActive ? Infinity : 0, duration: 1 }}
+                  animate={{ scale: isRunning ? [1, 1.1, 1] : 1 }}
+                  transition={{ repeat: isRunning ? Infinity : 0, duration: 1 }}
                   className={`text-6xl font-bold mb-4 ${
-                    gameActive 
-                      ? currentMultiplier >= 2 
-                        ? 'text-green-400' 
+                    isRunning
+                      ? currentMultiplier >= 2
+                        ? 'text-green-400'
                         : 'text-yellow-400'
-                      : 'text-gray-400'
+                      : phase === 'CRASHED'
+                        ? 'text-red-400'
+                        : 'text-gray-400'
                   }`}
                 >
-                  {currentMultiplier.toFixed(2)}x
+                  {phase === 'BETTING' ? `${countdown.toFixed(1)}s` : `${currentMultiplier.toFixed(2)}x`}
                 </motion.div>
-                
-                {gameActive ? (
-                  <p className="text-lg text-gray-300">
-                    {hasActiveBet ? 'Your bet is active! Cash out anytime!' : 'You cashed out! Watching the flight...'}
-                  </p>
-                ) : (
-                  <p className="text-lg text-gray-400">
-                    Place a bet to start the next round
-                  </p>
+
+                <p className="text-lg text-gray-400">
+                  {phase === 'BETTING' && 'Place your bets! The round starts soon'}
+                  {isRunning && (myBet && !myBet.cashedOut ? 'Your bet is active! Cash out anytime!' : 'Round in progress')}
+                  {phase === 'CRASHED' && `💥 Crashed at ${lastCrashPoint?.toFixed(2) ?? currentMultiplier.toFixed(2)}x`}
+                  {!phase && 'Connecting to the game...'}
+                </p>
+                {gameNumber && (
+                  <p className="text-xs text-gray-500 mt-2">Game #{gameNumber}</p>
                 )}
               </div>
 
-              {/* Game Visualization */}
+              {/* Multiplier Graph */}
               <div className="flex-1 flex items-center justify-center">
                 <div className="relative w-full max-w-2xl h-64 bg-gradient-to-r from-gray-900 to-gray-800 rounded-xl border border-gray-600 overflow-hidden">
-                  {/* Grid Lines */}
-                  <svg className="absolute inset-0 w-full h-full opacity-20" viewBox="0 0 100 100" preserveAspectRatio="none">
-                    {/* Horizontal lines */}
+                  <svg
+                    className="absolute inset-0 w-full h-full"
+                    viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+                    preserveAspectRatio="none"
+                  >
+                    {/* Grid Lines */}
                     {Array.from({ length: 5 }, (_, i) => (
-                      <line key={`h-${i}`} x1="0" y1={i * 25} x2="100" y2={i * 25} stroke="currentColor" strokeWidth="0.2"/>
+                      <line key={`h-${i}`} x1="0" y1={i * 15} x2={GRAPH_WIDTH} y2={i * 15} stroke="#9ca3af" strokeOpacity="0.2" strokeWidth="0.2"/>
                     ))}
-                    {/* Vertical lines */}
                     {Array.from({ length: 6 }, (_, i) => (
-                      <line key={`v-${i}`} x1={i * 20} y1="0" x2={i * 20} y2="100" stroke="currentColor" strokeWidth="0.2"/>
+                      <line key={`v-${i}`} x1={i * 20} y1="0" x2={i * 20} y2={GRAPH_HEIGHT} stroke="#9ca3af" strokeOpacity="0.2" strokeWidth="0.2"/>
                     ))}
+
+                    {/* Multiplier Curve */}
+                    {points.length > 1 && (
+                      <>
+                        <polygon
+                          points={`0,${GRAPH_HEIGHT} ${curve} ${toGraph(lastPoint).split(',')[0]},${GRAPH_HEIGHT}`}
+                          fill={curveColor}
+                          fillOpacity="0.15"
+                        />
+                        <polyline
+                          points={curve}
+                          fill="none"
+                          stroke={curveColor}
+                          strokeWidth="0.8"
+                          vectorEffect="non-scaling-stroke"
+                        />
+                      </>
+                    )}
                   </svg>
 
-                  {/* Multiplier Curve */}
-                  <motion.div
-                    className="absolute bottom-0 left-0 bg-gradient-to-r from-green-500 to-emerald-500 h-1 shadow-lg"
-                    style={{ 
-                      width: gameActive 
-                        ? `${Math.min((currentMultiplier - 1) * 15, 100)}%` 
-                        : '0%' 
-                    }}
-                    animate={{ 
-                      width: gameActive 
-                        ? `${Math.min((currentMultiplier - 1) * 15, 100)}%` 
-                        : '0%' 
-                    }}
-                    transition={{ duration: 0.1 }}
-                  />
-                  
-                  {/* Animated Plane */}
-                  {gameActive && (
-                    <motion.div
-                      className="absolute text-2xl"
-                      style={{
-                        left: `${Math.min((currentMultiplier - 1) * 15, 95)}%`,
-                        bottom: `${Math.min((currentMultiplier - 1) * 8, 80)}%`,
-                      }}
-                      animate={{
-                        left: `${Math.min((currentMultiplier - 1) * 15, 95)}%`,
-                        bottom: `${Math.min((currentMultiplier - 1) * 8, 80)}%`,
-                        rotate: gameActive ? [0, 5, 0] : 0,
-                      }}
-                      transition={{ 
-                        left: { duration: 0.1 },
-                        bottom: { duration: 0.1 },
-                        rotate: { repeat: Infinity, duration: 2 }
-                      }}
-                    >
-                      ✈️
-                    </motion.div>
-                  )}
-                  
                   {/* Crash Effect */}
-                  {!gameActive && gameHistory.length > 0 && (
+                  {phase === 'CRASHED' && (
                     <motion.div
                       initial={{ scale: 0, opacity: 0 }}
                       animate={{ scale: 1, opacity: 1 }}
-                      exit={{ scale: 0, opacity: 0 }}
                       className="absolute inset-0 flex items-center justify-center"
                     >
                       <div className="text-center">
-                        <motion.div 
-                          className="text-4xl mb-2"
-                          animate={{ rotate: [0, 360] }}
-                          transition={{ duration: 0.5 }}
-                        >
-                          💥
-                        </motion.div>
+                        <div className="text-4xl mb-2">💥</div>
                         <div className="text-xl font-bold text-red-400">
-                          CRASHED AT {gameHistory[0]?.toFixed(2)}x
+                          CRASHED AT {lastCrashPoint?.toFixed(2) ?? currentMultiplier.toFixed(2)}x
                         </div>
-                        <motion.div
-                          className="text-6xl mt-2"
-                          initial={{ y: -50, opacity: 0 }}
-                          animate={{ y: 0, opacity: 1 }}
-                          transition={{ delay: 0.2 }}
-                        >
-                          🔥
-                        </motion.div>
                       </div>
                     </motion.div>
                   )}
-                  
-                  {/* Waiting State */}
-                  {!gameActive && gameHistory.length === 0 && (
+
+                  {/* Betting Countdown */}
+                  {phase === 'BETTING' && (
                     <div className="absolute inset-0 flex items-center justify-center">
                       <div className="text-center">
-                        <motion.div 
+                        <motion.div
                           className="text-4xl mb-4"
                           animate={{ y: [0, -10, 0] }}
                           transition={{ repeat: Infinity, duration: 2 }}
                         >
                           ✈️
                         </motion.div>
-                        <p className="text-gray-400">Ready for takeoff!</p>
-                        <p className="text-sm text-gray-500">Place your bet to start</p>
+                        <p className="text-gray-400">Next round in {countdown.toFixed(1)}s</p>
                       </div>
                     </div>
                   )}
-                  
-                  {/* Multiplier Trail */}
-                  {gameActive && (
-                    <div className="absolute top-4 left-4 text-xs text-gray-400 space-y-1">
-                      <div>Height: {((currentMultiplier - 1) * 1000).toFixed(0)}ft</div>
-                      <div>Speed: {(currentMultiplier * 50).toFixed(0)} mph</div>
-                    </div>
-                  )}
                 </div>
               </div>
             </div>
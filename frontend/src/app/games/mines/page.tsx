@@ -2,21 +2,37 @@
 
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Bomb, ArrowLeft, Play, RotateCcw, Gem } from 'lucide-react';
+import { Bomb, ArrowLeft, Play, RotateCcw, Gem, Zap, Save } from 'lucide-react';
 import Link from 'next/link';
-import { useAuthStore } from '@/store/authStore';
+import { selectedWallet, useAuthStore } from '@/store/authStore';
+import { gameAPI } from '@/lib/api';
+import { formatCurrency, generateSeed, parseError } from '@/lib/utils';
+import { MinesBatchResult, MinesGameState, MinesGridShape, MinesPattern, MinesRevealResult } from '@/types';
 import { toast } from 'react-hot-toast';
 
+const GRID_SHAPES: MinesGridShape[] = [
+  { rows: 3, columns: 3 },
+  { rows: 4, columns: 4 },
+  { rows: 5, columns: 5 },
+  { rows: 6, columns: 6 },
+  { rows: 8, columns: 8 },
+  { rows: 5, columns: 10 }
+];
+const REVEAL_STEP = 150; // ms between auto-pick reveals
+const PATTERN_STORAGE_KEY = 'hyrlqi-mines-patterns';
+
 export default function MinesPage() {
-  const { user } = useAuthStore();
+  const { user, currency, updateBalance } = useAuthStore();
   const [betAmount, setBetAmount] = useState(10);
   const [mineCount, setMineCount] = useState(5);
-  const [gridSize, setGridSize] = useState(25);
+  const [gridShape, setGridShape] = useState<MinesGridShape>({ rows: 5, columns: 5 });
   const [isPlaying, setIsPlaying] = useState(false);
-  const [gameBoard, setGameBoard] = useState<any[]>([]);
-  const [revealedCells, setRevealedCells] = useState<Set<number>>(new Set());
-  const [currentMultiplier, setCurrentMultiplier] = useState(1.0);
-  const [gameActive, setGameActive] = useState(false);
+  const [game, setGame] = useState<MinesGameState | null>(null);
+  const [hitCell, setHitCell] = useState<number | null>(null);
+  const [mode, setMode] = useState<'manual' | 'auto'>('manual');
+  const [picks, setPicks] = useState<number[]>([]);
+  const [patterns, setPatterns] = useState<MinesPattern[]>([]);
+  const [savedPatterns, setSavedPatterns] = useState<MinesPattern[]>([]);
   const [mounted, setMounted] = useState(false);
 
   // Fix hydration issues
@@ -24,6 +40,41 @@ export default function MinesPage() {
     setMounted(true);
   }, []);
 
+  const userId = user?.id;
+  const wallet = selectedWallet(user, currency);
+  const gridSize = gridShape.rows * gridShape.columns;
+  const shapeKey = `${gridShape.rows}x${gridShape.columns}`;
+
+  // Pick up a game left unfinished by a reload
+  useEffect(() => {
+    if (!userId) return;
+
+    gameAPI.getActiveMines()
+      .then(response => {
+        const activeGame: MinesGameState | null = response.data.data.gameState;
+
+        if (activeGame) {
+          setGame(activeGame);
+          setGridShape(activeGame.gridShape);
+          setMineCount(activeGame.mineCount);
+          setBetAmount(activeGame.betAmount);
+          setHitCell(null);
+          toast('Resumed your unfinished game');
+        }
+      })
+      .catch(error => toast.error(parseError(error)));
+  }, [userId]);
+
+  // Load the preset and saved pick patterns for the selected grid
+  useEffect(() => {
+    setPicks([]);
+    setSavedPatterns(JSON.parse(localStorage.getItem(`${PATTERN_STORAGE_KEY}:${shapeKey}`) || '[]'));
+
+    gameAPI.getMinesPatterns(gridShape.rows, gridShape.columns)
+      .then(response => setPatterns(response.data.data.patterns))
+      .catch(error => toast.error(parseError(error)));
+  }, [gridShape.rows, gridShape.columns, shapeKey]);
+
   if (!mounted) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-gray-950 text-white flex items-center justify-center">
@@ -35,78 +86,169 @@ export default function MinesPage() {
     );
   }
 
-  const initializeGame = () => {
-    const board = Array(gridSize).fill(null).map((_, index) => ({
-      id: index,
-      isMine: false,
-      isRevealed: false,
-      isGem: false
-    }));
-    
-    // Randomly place mines
-    const minePositions = new Set<number>();
-    while (minePositions.size < mineCount) {
-      const pos = Math.floor(Math.random() * gridSize);
-      minePositions.add(pos);
+  const gameActive = !!game && !game.isCompleted;
+  const boardSize = game ? game.gridSize : gridSize;
+  const columns = game ? game.gridShape.columns : gridShape.columns;
+  const revealedCells = new Set(game?.revealedCells || []);
+  const minePositions = new Set(game?.minePositions || []);
+
+  // Take the stake and open a game on the server
+  const startGame = async (): Promise<MinesGameState> => {
+    const response = await gameAPI.startMines(
+      gridShape.rows, gridShape.columns, mineCount, betAmount, wallet!.currency, generateSeed()
+    );
+    const { gameState, newBalance } = response.data.data;
+
+    setGame(gameState);
+    setHitCell(null);
+    updateBalance(newBalance, gameState.currency);
+
+    return gameState;
+  };
+
+  const handleNewGame = async () => {
+    if (!user || !wallet) {
+      toast.error('Please login to play');
+      return;
+    }
+
+    if (betAmount > parseFloat(wallet.balance)) {
+      toast.error('Insufficient balance');
+      return;
+    }
+
+    setIsPlaying(true);
+
+    try {
+      await startGame();
+    } catch (error) {
+      toast.error(parseError(error));
+    } finally {
+      setIsPlaying(false);
     }
-    
-    minePositions.forEach(pos => {
-      board[pos].isMine = true;
-    });
-    
-    setGameBoard(board);
-    setRevealedCells(new Set());
-    setCurrentMultiplier(1.0);
-    setGameActive(true);
   };
 
-  const handleCellClick = (cellId: number) => {
-    if (!gameActive || revealedCells.has(cellId) || isPlaying) return;
-    
-    const cell = gameBoard[cellId];
-    const newRevealed = new Set(revealedCells);
-    newRevealed.add(cellId);
-    setRevealedCells(newRevealed);
-    
-    if (cell.isMine) {
-      // Hit a mine - game over
-      toast.error('💥 You hit a mine! Game over!');
-      setGameActive(false);
+  const handleCellClick = async (cellIndex: number) => {
+    if (!game || !gameActive || revealedCells.has(cellIndex) || isPlaying) return;
+
+    setIsPlaying(true);
+
+    try {
+      const response = await gameAPI.revealMinesCell(game.gameId, cellIndex);
+      const { revealResult, gameState, newBalance } = response.data.data as {
+        revealResult: MinesRevealResult;
+        gameState: Omit<MinesGameState, 'gridSize' | 'mineCount' | 'betAmount'>;
+        newBalance: string;
+      };
+
+      setGame({ ...game, ...gameState });
+
+      if (revealResult.isMine) {
+        setHitCell(cellIndex);
+        toast.error('💥 You hit a mine! Game over!');
+      } else if (gameState.isCompleted) {
+        updateBalance(newBalance, game.currency);
+        toast.success(`All gems found! Won ${formatCurrency(gameState.totalPayout, game.currency)} (${gameState.currentMultiplier}x)`);
+      } else {
+        toast.success(`💎 Gem found! Multiplier: ${gameState.currentMultiplier}x`);
+      }
+    } catch (error) {
+      toast.error(parseError(error));
+    } finally {
       setIsPlaying(false);
-      // Reveal all mines
-      const allMines = gameBoard.map((cell, index) => 
-        cell.isMine ? index : null
-      ).filter(index => index !== null);
-      setRevealedCells(new Set([...newRevealed, ...allMines]));
-    } else {
-      // Found a gem
-      cell.isGem = true;
-      const newMultiplier = currentMultiplier * 1.2; // Simple multiplier increase
-      setCurrentMultiplier(newMultiplier);
-      toast.success(`💎 Gem found! Multiplier: ${newMultiplier.toFixed(2)}x`);
     }
   };
 
-  const handleCashOut = () => {
-    if (!gameActive) return;
-    
-    const winAmount = betAmount * currentMultiplier;
-    toast.success(`Cashed out! Won $${winAmount.toFixed(2)} (${currentMultiplier.toFixed(2)}x)`);
-    setGameActive(false);
+  const togglePick = (cellIndex: number) => {
+    // Picking starts over once the previous game is finished
+    if (game?.isCompleted) {
+      setGame(null);
+      setPicks([cellIndex]);
+      return;
+    }
+
+    setPicks(picks.includes(cellIndex) ? picks.filter(cell => cell !== cellIndex) : [...picks, cellIndex]);
+  };
+
+  const handleSavePattern = () => {
+    const name = `Pattern ${savedPatterns.length + 1}`;
+    const updated = [...savedPatterns, { name, cells: picks }];
+
+    setSavedPatterns(updated);
+    localStorage.setItem(`${PATTERN_STORAGE_KEY}:${shapeKey}`, JSON.stringify(updated));
+    toast.success(`Saved ${name}`);
   };
 
-  const handleNewGame = () => {
-    if (!user) {
+  const handleAutoPlay = async () => {
+    if (!user || !wallet) {
       toast.error('Please login to play');
       return;
     }
 
-    if (betAmount > user.balance) {
+    if (!gameActive && betAmount > parseFloat(wallet.balance)) {
       toast.error('Insufficient balance');
       return;
     }
 
-    initializeGame();
+    setIsPlaying(true);
+
+    try {
+      const activeGame = game && gameActive ? game : await startGame();
+      const cells = picks.filter(cell => !activeGame.revealedCells.includes(cell));
+
+      const response = await gameAPI.revealMinesBatch(activeGame.gameId, cells);
+      const result: MinesBatchResult = response.data.data;
+
+      // Turn the picks over one by one before showing the outcome
+      for (let step = 1; step <= result.reveals.length; step++) {
+        setGame({
+          ...activeGame,
+          revealedCells: [...activeGame.revealedCells, ...result.reveals.slice(0, step).map(reveal => reveal.cellIndex)]
+        });
+        await new Promise(resolve => setTimeout(resolve, REVEAL_STEP));
+      }
+
+      setGame({ ...activeGame, ...result.gameState });
+
+      const mine = result.reveals.find(reveal => reveal.isMine);
+      if (mine) {
+        setHitCell(mine.cellIndex);
+        toast.error(`💥 Pick ${result.reveals.length} was a mine! Game over!`);
+      } else {
+        updateBalance(result.newBalance, activeGame.currency);
+        toast.success(`All picks safe! Won ${formatCurrency(result.payout, activeGame.currency)} (${result.gameState.currentMultiplier}x)`);
+      }
+    } catch (error) {
+      toast.error(parseError(error));
+    } finally {
+      setIsPlaying(false);
+    }
+  };
+
+  const handleCashOut = async () => {
+    if (!game || !gameActive || isPlaying) return;
+
+    setIsPlaying(true);
+
+    try {
+      const response = await gameAPI.cashOutMines(game.gameId);
+      const { payout, multiplier, minePositions, newBalance } = response.data.data;
+
+      setGame({
+        ...game,
+        isCompleted: true,
+        isWin: true,
+        currentMultiplier: multiplier,
+        totalPayout: payout,
+        minePositions
+      });
+      updateBalance(newBalance, game.currency);
+      toast.success(`Cashed out! Won ${formatCurrency(payout, game.currency)} (${multiplier}x)`);
+    } catch (error) {
+      toast.error(parseError(error));
+    } finally {
+      setIsPlaying(false);
+    }
   };
 
   return (
@@ -132,11 +274,11 @@ export default function MinesPage() {
               </div>
             </div>
           </div>
-          
-          {user && (
+
+          {wallet && (
             <div className="text-right">
               <p className="text-gray-400">Balance</p>
-              <p className="text-2xl font-bold text-green-400">${user.balance}</p>
+              <p className="text-2xl font-bold text-green-400">{formatCurrency(wallet.balance, wallet.currency, wallet.decimals)}</p>
             </div>
           )}
         </div>
@@ -146,7 +288,25 @@ export default function MinesPage() {
           <div className="lg:col-span-1">
             <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700">
               <h2 className="text-xl font-bold mb-6">Game Settings</h2>
-              
+
+              {/* Mode */}
+              <div className="mb-6 grid grid-cols-2 gap-2">
+                {(['manual', 'auto'] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setMode(option)}
+                    disabled={isPlaying}
+                    className={`p-3 rounded-lg border-2 transition-all capitalize ${
+                      mode === option
+                        ? 'border-purple-500 bg-purple-500/20'
+                        : 'border-gray-600 bg-gray-700 hover:border-gray-500'
+                    }`}
+                  >
+                    <div className="text-xs font-medium">{option}</div>
+                  </button>
+                ))}
+              </div>
+
               {/* Bet Amount */}
               <div className="mb-6">
                 <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -156,13 +316,40 @@ export default function MinesPage() {
                   type="number"
                   value={betAmount}
                   onChange={(e) => setBetAmount(Number(e.target.value))}
-                  min="1"
-                  max={user?.balance || 1000}
+                  min="0.01"
+                  max={wallet ? parseFloat(wallet.balance) : 1000}
                   disabled={gameActive}
                   className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white focus:border-purple-500 focus:outline-none disabled:opacity-50"
                 />
               </div>
 
+              {/* Grid Size */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Grid
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {GRID_SHAPES.map((shape) => (
+                    <button
+                      key={`${shape.rows}x${shape.columns}`}
+                      onClick={() => {
+                        setGridShape(shape);
+                        setMineCount(Math.min(mineCount, shape.rows * shape.columns - 1));
+                        setGame(null);
+                      }}
+                      disabled={gameActive}
+                      className={`p-3 rounded-lg border-2 transition-all disabled:opacity-50 ${
+                        shapeKey === `${shape.rows}x${shape.columns}`
+                          ? 'border-purple-500 bg-purple-500/20'
+                          : 'border-gray-600 bg-gray-700 hover:border-gray-500'
+                      }`}
+                    >
+                      <div className="text-xs font-medium">{shape.rows}×{shape.columns}</div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               {/* Mine Count */}
               <div className="mb-6">
                 <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -173,24 +360,62 @@ export default function MinesPage() {
                   value={mineCount}
                   onChange={(e) => setMineCount(Number(e.target.value))}
                   min="1"
-                  max="24"
+                  max={gridSize - 1}
                   disabled={gameActive}
                   className="w-full disabled:opacity-50"
                 />
                 <div className="flex justify-between text-xs text-gray-400 mt-1">
                   <span>1</span>
-                  <span>24</span>
+                  <span>{gridSize - 1}</span>
                 </div>
               </div>
 
+              {/* Auto Picks */}
+              {mode === 'auto' && (
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Picks: {picks.length}
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {[...patterns, ...savedPatterns].map((pattern) => (
+                      <button
+                        key={pattern.name}
+                        onClick={() => setPicks(pattern.cells.filter(cell => !revealedCells.has(cell)))}
+                        disabled={isPlaying}
+                        className="p-2 rounded-lg border-2 border-gray-600 bg-gray-700 hover:border-gray-500 text-xs font-medium capitalize"
+                      >
+                        {pattern.name}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex gap-2 mt-2">
+                    <button
+                      onClick={handleSavePattern}
+                      disabled={picks.length === 0}
+                      className="flex-1 p-2 rounded-lg bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-xs font-medium flex items-center justify-center gap-1"
+                    >
+                      <Save className="w-4 h-4" />
+                      Save
+                    </button>
+                    <button
+                      onClick={() => setPicks([])}
+                      disabled={picks.length === 0}
+                      className="flex-1 p-2 rounded-lg bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-xs font-medium"
+                    >
+                      Clear
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {/* Current Multiplier */}
-              {gameActive && (
+              {gameActive && game && (
                 <div className="mb-6 p-4 bg-gradient-to-r from-purple-500/20 to-pink-500/20 rounded-lg border border-purple-500/30">
                   <div className="text-center">
                     <p className="text-sm text-gray-300">Current Multiplier</p>
-                    <p className="text-2xl font-bold text-purple-400">{currentMultiplier.toFixed(2)}x</p>
+                    <p className="text-2xl font-bold text-purple-400">{game.currentMultiplier.toFixed(2)}x</p>
                     <p className="text-sm text-gray-300">
-                      Potential Win: ${(betAmount * currentMultiplier).toFixed(2)}
+                      Potential Win: {formatCurrency(game.betAmount * game.currentMultiplier, game.currency)}
                     </p>
                   </div>
                 </div>
@@ -198,21 +423,41 @@ export default function MinesPage() {
 
               {/* Action Buttons */}
               <div className="space-y-3">
-                {!gameActive ? (
+                {mode === 'auto' && (
+                  <button
+                    onClick={handleAutoPlay}
+                    disabled={!user || isPlaying || picks.length === 0}
+                    className="w-full py-4 bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-xl transition-all duration-300 flex items-center justify-center gap-2"
+                  >
+                    {isPlaying ? (
+                      <RotateCcw className="w-5 h-5 animate-spin" />
+                    ) : (
+                      <Zap className="w-5 h-5" />
+                    )}
+                    {gameActive ? `Reveal ${picks.length} Picks` : `Play ${picks.length} Picks (${formatCurrency(betAmount, wallet?.currency)})`}
+                  </button>
+                )}
+                {mode === 'manual' && !gameActive && (
                   <button
                     onClick={handleNewGame}
-                    disabled={!user}
+                    disabled={!user || isPlaying}
                     className="w-full py-4 bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-xl transition-all duration-300 flex items-center justify-center gap-2"
                   >
-                    <Play className="w-5 h-5" />
-                    Start Game (${betAmount})
+                    {isPlaying ? (
+                      <RotateCcw className="w-5 h-5 animate-spin" />
+                    ) : (
+                      <Play className="w-5 h-5" />
+                    )}
+                    Start Game ({formatCurrency(betAmount, wallet?.currency)})
                   </button>
-                ) : (
+                )}
+                {gameActive && (
                   <button
                     onClick={handleCashOut}
-                    className="w-full py-4 bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white font-bold rounded-xl transition-all duration-300"
+                    disabled={isPlaying || revealedCells.size === 0}
+                    className="w-full py-4 bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-xl transition-all duration-300"
                   >
-                    Cash Out (${(betAmount * currentMultiplier).toFixed(2)})
+                    Cash Out ({formatCurrency(game ? game.betAmount * game.currentMultiplier : 0, game?.currency)})
                   </button>
                 )}
               </div>
@@ -222,34 +467,52 @@ export default function MinesPage() {
           {/* Game Board */}
           <div className="lg:col-span-3">
             <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700">
-              <div className="grid grid-cols-5 gap-2 max-w-md mx-auto">
-                {gameBoard.map((cell) => (
-                  <button
-                    key={cell.id}
-                    onClick={() => handleCellClick(cell.id)}
-                    disabled={!gameActive || revealedCells.has(cell.id)}
-                    className={`aspect-square rounded-lg border-2 transition-all duration-300 flex items-center justify-center ${
-                      revealedCells.has(cell.id)
-                        ? cell.isMine
-                          ? 'bg-red-500 border-red-400'
-                          : 'bg-green-500 border-green-400'
-                        : 'bg-gray-700 border-gray-600 hover:border-purple-500 hover:bg-gray-600 hover:scale-105 transform'
-                    }`}
-                  >
-                    {revealedCells.has(cell.id) && (
-                      <>
-                        {cell.isMine ? (
-                          <Bomb className="w-6 h-6 text-white" />
-                        ) : (
-                          <Gem className="w-6 h-6 text-white" />
+              {game || mode === 'auto' ? (
+                <div
+                  className={`grid gap-2 mx-auto ${columns > 6 ? 'max-w-2xl' : 'max-w-md'}`}
+                  style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+                >
+                  {Array.from({ length: boardSize }, (_, cellIndex) => {
+                    const isMine = minePositions.has(cellIndex);
+                    const isRevealed = revealedCells.has(cellIndex) || isMine;
+                    const pickOrder = picks.indexOf(cellIndex) + 1;
+
+                    return (
+                      <motion.button
+                        key={cellIndex}
+                        onClick={() => (mode === 'auto' ? togglePick(cellIndex) : handleCellClick(cellIndex))}
+                        disabled={isPlaying || (gameActive ? isRevealed : mode === 'manual')}
+                        animate={isRevealed ? { rotateY: [90, 0], scale: 1 } : { rotateY: 0 }}
+                        transition={{ duration: 0.3 }}
+                        className={`aspect-square rounded-lg border-2 transition-colors duration-300 flex items-center justify-center ${
+                          isRevealed
+                            ? isMine
+                              ? hitCell === cellIndex
+                                ? 'bg-red-500 border-red-400'
+                                : 'bg-red-500/40 border-red-400/50'
+                              : 'bg-green-500 border-green-400'
+                            : pickOrder > 0
+                            ? 'bg-purple-500/40 border-purple-400'
+                            : 'bg-gray-700 border-gray-600 hover:border-purple-500 hover:bg-gray-600 hover:scale-105 transform'
+                        }`}
+                      >
+                        {!isRevealed && pickOrder > 0 && (
+                          <span className="text-sm font-bold text-white">{pickOrder}</span>
                         )}
-                      </>
-                    )}
-                  </button>
-                ))}
-              </div>
-              
-              {!gameActive && gameBoard.length === 0 && (
+                        {isRevealed && (
+                          <>
+                            {isMine ? (
+                              <Bomb className="w-6 h-6 text-white" />
+                            ) : (
+                              <Gem className="w-6 h-6 text-white" />
+                            )}
+                          </>
+                        )}
+                      </motion.button>
+                    );
+                  })}
+                </div>
+              ) : (
                 <div className="text-center py-12">
                   <Bomb className="w-16 h-16 text-purple-500 mx-auto mb-4" />
                   <h3 className="text-2xl font-bold mb-2">Ready to Play Mines?</h3>
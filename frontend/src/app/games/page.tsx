@@ -3,7 +3,8 @@
 import { motion } from 'framer-motion';
 import Link from 'next/link';
 import { Target, Bomb, TrendingUp, Play, Trophy, Clock, DollarSign } from 'lucide-react';
-import { useAuthStore } from '@/store/authStore';
+import { selectedWallet, useAuthStore } from '@/store/authStore';
+import { formatCurrency } from '@/lib/utils';
 
 const games = [
   {
@@ -55,7 +56,8 @@ const stats = [
 ];
 
 export default function GamesPage() {
-  const { user } = useAuthStore();
+  const { user, currency } = useAuthStore();
+  const wallet = selectedWallet(user, currency);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-gray-950">
@@ -89,7 +91,7 @@ export default function GamesPage() {
           >
             <DollarSign className="w-5 h-5 text-green-400" />
             <span className="text-green-400 font-bold text-lg">
-              ${parseFloat(user?.balance || '0').toLocaleString()}
+              {wallet ? formatCurrency(wallet.balance, wallet.currency, wallet.decimals) : formatCurrency(0)}
             </span>
             <span className="text-gray-400 text-sm">Available</span>
           </motion.div>
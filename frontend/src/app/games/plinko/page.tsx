@@ -1,26 +1,70 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { Target, ArrowLeft, Play, RotateCcw } from 'lucide-react';
 import Link from 'next/link';
-import { useAuthStore } from '@/store/authStore';
+import { selectedWallet, useAuthStore } from '@/store/authStore';
+import { gameAPI } from '@/lib/api';
+import { formatCurrency, generateSeed, parseError } from '@/lib/utils';
+import { PlinkoBatchResult, PlinkoResult } from '@/types';
 import { toast } from 'react-hot-toast';
 
+const ROW_OPTIONS = [8, 9, 10, 11, 12, 13, 14, 15, 16];
+const BALL_OPTIONS = [1, 10, 50, 100];
+const STEP_DURATION = 120; // ms per peg row
+const BALL_STAGGER = 1; // rows between consecutive balls of a batch
+
+type DroppedBall = PlinkoBatchResult['balls'][number];
+
+interface DropSummary {
+  ballCount: number;
+  currency: string;
+  betAmount: number;
+  payout: number;
+  multiplier: number;
+  profit: number;
+  firstNonce: number;
+  lastNonce: number;
+}
+
+const riskLevels = [
+  { value: 'low', label: 'Low Risk', color: 'from-green-500 to-emerald-500' },
+  { value: 'medium', label: 'Medium Risk', color: 'from-yellow-500 to-orange-500' },
+  { value: 'high', label: 'High Risk', color: 'from-red-500 to-pink-500' }
+];
+
 export default function PlinkoPage() {
-  const { user } = useAuthStore();
+  const { user, currency, updateBalance } = useAuthStore();
   const [betAmount, setBetAmount] = useState(10);
   const [riskLevel, setRiskLevel] = useState('medium');
   const [rows, setRows] = useState(16);
+  const [multipliers, setMultipliers] = useState<number[]>([]);
+  const [ballCount, setBallCount] = useState(1);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [lastResult, setLastResult] = useState<any>(null);
+  const [activeBalls, setActiveBalls] = useState<DroppedBall[]>([]);
+  const [tick, setTick] = useState(-1);
+  const [lastResult, setLastResult] = useState<DropSummary | null>(null);
   const [mounted, setMounted] = useState(false);
+  const animationRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const wallet = selectedWallet(user, currency);
 
   // Fix hydration issues
   useEffect(() => {
     setMounted(true);
+
+    return () => {
+      if (animationRef.current) clearInterval(animationRef.current);
+    };
   }, []);
 
+  // Load the payout table for the selected board
+  useEffect(() => {
+    gameAPI.getPlinkoStats(rows, riskLevel)
+      .then(response => setMultipliers(response.data.data.stats.multipliers))
+      .catch(error => toast.error(parseError(error)));
+  }, [rows, riskLevel]);
+
   if (!mounted) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-gray-950 text-white flex items-center justify-center">
@@ -32,51 +76,129 @@ export default function PlinkoPage() {
     );
   }
 
-  const riskLevels = [
-    { value: 'low', label: 'Low Risk', color: 'from-green-500 to-emerald-500' },
-    { value: 'medium', label: 'Medium Risk', color: 'from-yellow-500 to-orange-500' },
-    { value: 'high', label: 'High Risk', color: 'from-red-500 to-pink-500' }
-  ];
+  // Board geometry in SVG units: slot k is centred under the gap between pegs
+  const gap = 100 / (rows + 1);
+  const rowHeight = gap * 0.9;
+  const boardHeight = (rows + 1) * rowHeight;
+
+  // How many rows a ball has fallen; balls of a batch start BALL_STAGGER rows apart
+  const ballStep = (index: number) => tick - index * BALL_STAGGER;
+
+  const ballPosition = (ball: DroppedBall, index: number) => {
+    const step = Math.min(ballStep(index), rows - 1);
+    const rights = ball.ballPath.slice(0, step + 1).filter(direction => direction === 1).length;
+
+    return {
+      x: 50 + (rights - (step + 1) / 2) * gap,
+      y: (step + 1.5) * rowHeight
+    };
+  };
+
+  const finishDrop = (summary: DropSummary, newBalance: string) => {
+    setIsPlaying(false);
+    setLastResult(summary);
+    updateBalance(newBalance, summary.currency);
+
+    const { ballCount: balls, payout, multiplier, betAmount: totalBet } = summary;
+    const money = (amount: number) => formatCurrency(amount, summary.currency);
+
+    if (balls > 1) {
+      if (summary.profit >= 0) {
+        toast.success(`${balls} balls won ${money(payout)} (+${money(summary.profit)})`);
+      } else {
+        toast.error(`${balls} balls returned ${money(payout)} of ${money(totalBet)}`);
+      }
+    } else if (payout > totalBet) {
+      toast.success(`You won ${money(payout)}! (${multiplier}x)`);
+    } else if (payout > 0) {
+      toast(`Returned ${money(payout)} (${multiplier}x)`);
+    } else {
+      toast.error(`You lost ${money(totalBet)}. Better luck next time!`);
+    }
+  };
 
   const handlePlay = async () => {
-    if (!user) {
+    if (!user || !wallet) {
       toast.error('Please login to play');
       return;
     }
 
-    if (betAmount > user.balance) {
+    if (betAmount * ballCount > parseFloat(wallet.balance)) {
       toast.error('Insufficient balance');
       return;
     }
 
     setIsPlaying(true);
-    
+
+    // One key for this drop, reused if the request has to be retried
+    const idempotencyKey = generateSeed();
+
     try {
-      // Simulate game logic for now
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      const multiplier = Math.random() * 10 + 0.5; // Random multiplier between 0.5x and 10.5x
-      const winAmount = betAmount * multiplier;
-      
-      setLastResult({
-        betAmount,
-        multiplier: multiplier.toFixed(2),
-        winAmount: winAmount.toFixed(2),
-        profit: (winAmount - betAmount).toFixed(2)
-      });
-      
-      if (multiplier > 1) {
-        toast.success(`You won ${winAmount.toFixed(2)}! (${multiplier.toFixed(2)}x)`);
+      let balls: DroppedBall[];
+      let summary: DropSummary;
+      let newBalance: string;
+
+      if (ballCount === 1) {
+        const response = await gameAPI.playPlinko(rows, riskLevel, betAmount, wallet.currency, idempotencyKey);
+        const result: PlinkoResult = response.data.data.gameResult;
+
+        balls = [result];
+        newBalance = result.newBalance;
+        summary = {
+          ballCount: 1,
+          currency: result.currency,
+          betAmount,
+          payout: result.payout,
+          multiplier: result.multiplier,
+          profit: result.profit,
+          firstNonce: result.nonce,
+          lastNonce: result.nonce
+        };
       } else {
-        toast.error(`You lost ${betAmount}. Better luck next time!`);
+        const response = await gameAPI.playPlinkoBatch(rows, riskLevel, betAmount, ballCount, wallet.currency, idempotencyKey);
+        const result: PlinkoBatchResult = response.data.data.batchResult;
+
+        balls = result.balls;
+        newBalance = result.newBalance;
+        summary = {
+          ballCount: result.ballCount,
+          currency: result.currency,
+          betAmount: result.totalBet,
+          payout: result.totalPayout,
+          multiplier: Math.round((result.totalPayout / result.totalBet) * 100) / 100,
+          profit: result.profit,
+          firstNonce: result.balls[0].nonce,
+          lastNonce: result.balls[result.balls.length - 1].nonce
+        };
       }
+
+      // Drop each ball down the path the server rolled, one row at a time
+      setActiveBalls(balls);
+      setTick(-1);
+
+      const lastTick = (balls.length - 1) * BALL_STAGGER + rows - 1;
+      let current = -1;
+      animationRef.current = setInterval(() => {
+        current++;
+        setTick(current);
+
+        if (current >= lastTick) {
+          clearInterval(animationRef.current!);
+          animationRef.current = null;
+          finishDrop(summary, newBalance);
+        }
+      }, STEP_DURATION);
     } catch (error) {
-      toast.error('Game error occurred');
-    } finally {
+      toast.error(parseError(error));
       setIsPlaying(false);
     }
   };
 
+  // Slots a ball has landed in so far
+  const landedSlots = new Set(
+    activeBalls.filter((_, index) => ballStep(index) >= rows - 1).map(ball => ball.finalSlot)
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-gray-950 text-white">
       <div className="container mx-auto px-4 py-8">
@@ -100,11 +222,11 @@ export default function PlinkoPage() {
               </div>
             </div>
           </div>
-          
-          {user && (
+
+          {wallet && (
             <div className="text-right">
               <p className="text-gray-400">Balance</p>
-              <p className="text-2xl font-bold text-green-400">${user.balance}</p>
+              <p className="text-2xl font-bold text-green-400">{formatCurrency(wallet.balance, wallet.currency, wallet.decimals)}</p>
             </div>
           )}
         </div>
@@ -114,7 +236,7 @@ export default function PlinkoPage() {
           <div className="lg:col-span-1">
             <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700">
               <h2 className="text-xl font-bold mb-6">Game Settings</h2>
-              
+
               {/* Bet Amount */}
               <div className="mb-6">
                 <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -125,11 +247,12 @@ export default function PlinkoPage() {
                     type="number"
                     value={betAmount}
                     onChange={(e) => setBetAmount(Number(e.target.value))}
-                    min="1"
-                    max={user?.balance || 1000}
+                    min="0.01"
+                    max={wallet ? parseFloat(wallet.balance) : 1000}
+                    disabled={isPlaying}
                     className="flex-1 bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white focus:border-blue-500 focus:outline-none"
                   />
-                  <span className="text-gray-400">$</span>
+                  <span className="text-gray-400">{wallet?.currency ?? '$'}</span>
                 </div>
               </div>
 
@@ -143,6 +266,7 @@ export default function PlinkoPage() {
                     <button
                       key={level.value}
                       onClick={() => setRiskLevel(level.value)}
+                      disabled={isPlaying}
                       className={`p-3 rounded-lg border-2 transition-all ${
                         riskLevel === level.value
                           ? 'border-blue-500 bg-blue-500/20'
@@ -158,19 +282,49 @@ export default function PlinkoPage() {
               {/* Rows */}
               <div className="mb-6">
                 <label className="block text-sm font-medium text-gray-300 mb-2">
-                  Rows: {rows}
+                  Rows
                 </label>
-                <input
-                  type="range"
-                  value={rows}
-                  onChange={(e) => setRows(Number(e.target.value))}
-                  min="8"
-                  max="16"
-                  className="w-full"
-                />
-                <div className="flex justify-between text-xs text-gray-400 mt-1">
-                  <span>8</span>
-                  <span>16</span>
+                <div className="grid grid-cols-3 gap-2">
+                  {ROW_OPTIONS.map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => {
+                        setRows(option);
+                        setActiveBalls([]);
+                      }}
+                      disabled={isPlaying}
+                      className={`p-3 rounded-lg border-2 transition-all ${
+                        rows === option
+                          ? 'border-blue-500 bg-blue-500/20'
+                          : 'border-gray-600 bg-gray-700 hover:border-gray-500'
+                      }`}
+                    >
+                      <div className="text-xs font-medium">{option}</div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Balls */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Balls
+                </label>
+                <div className="grid grid-cols-4 gap-2">
+                  {BALL_OPTIONS.map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setBallCount(option)}
+                      disabled={isPlaying}
+                      className={`p-3 rounded-lg border-2 transition-all ${
+                        ballCount === option
+                          ? 'border-blue-500 bg-blue-500/20'
+                          : 'border-gray-600 bg-gray-700 hover:border-gray-500'
+                      }`}
+                    >
+                      <div className="text-xs font-medium">{option}</div>
+                    </button>
+                  ))}
                 </div>
               </div>
 
@@ -188,7 +342,7 @@ export default function PlinkoPage() {
                 ) : (
                   <>
                     <Play className="w-5 h-5" />
-                    Drop Ball (${betAmount})
+                    {ballCount === 1 ? 'Drop Ball' : `Drop ${ballCount} Balls`} ({formatCurrency(betAmount * ballCount, wallet?.currency)})
                   </>
                 )}
               </button>
@@ -203,9 +357,15 @@ export default function PlinkoPage() {
               >
                 <h3 className="text-lg font-bold mb-4">Last Result</h3>
                 <div className="space-y-2">
+                  {lastResult.ballCount > 1 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">Balls:</span>
+                      <span>{lastResult.ballCount}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-gray-400">Bet:</span>
-                    <span>${lastResult.betAmount}</span>
+                    <span>{formatCurrency(lastResult.betAmount, lastResult.currency)}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-400">Multiplier:</span>
@@ -213,12 +373,20 @@ export default function PlinkoPage() {
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-400">Win:</span>
-                    <span className="font-bold text-green-400">${lastResult.winAmount}</span>
+                    <span className="font-bold text-green-400">{formatCurrency(lastResult.payout, lastResult.currency)}</span>
                   </div>
                   <div className="flex justify-between border-t border-gray-600 pt-2">
                     <span className="text-gray-400">Profit:</span>
-                    <span className={`font-bold ${Number(lastResult.profit) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                      {Number(lastResult.profit) >= 0 ? '+' : ''}${lastResult.profit}
+                    <span className={`font-bold ${lastResult.profit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {lastResult.profit >= 0 ? '+' : ''}{formatCurrency(lastResult.profit, lastResult.currency)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-xs pt-2">
+                    <span className="text-gray-400">Nonce:</span>
+                    <span className="font-mono">
+                      {lastResult.firstNonce === lastResult.lastNonce
+                        ? lastResult.firstNonce
+                        : `${lastResult.firstNonce}–${lastResult.lastNonce}`}
                     </span>
                   </div>
                 </div>
@@ -232,42 +400,52 @@ export default function PlinkoPage() {
               <div className="relative w-full max-w-2xl mx-auto">
                 {/* Plinko Board */}
                 <div className="relative bg-gradient-to-b from-gray-900 to-gray-800 rounded-xl p-8 border border-gray-600">
-                  {/* Ball Drop Zone */}
-                  <div className="text-center mb-6">
-                    <div className="w-4 h-4 bg-white rounded-full mx-auto mb-2 animate-bounce"></div>
-                    <p className="text-xs text-gray-400">Drop Zone</p>
-                  </div>
-                  
-                  {/* Pegs Grid */}
-                  <div className="space-y-6">
-                    {Array.from({ length: rows }, (_, rowIndex) => (
-                      <div key={rowIndex} className="flex justify-center items-center gap-4">
-                        {Array.from({ length: rowIndex + 3 }, (_, pegIndex) => (
-                          <div
-                            key={pegIndex}
-                            className="w-3 h-3 bg-gradient-to-r from-blue-400 to-cyan-400 rounded-full shadow-lg"
-                          />
-                        ))}
-                      </div>
-                    ))}
-                  </div>
-                  
+                  <svg viewBox={`0 0 100 ${boardHeight}`} className="w-full h-auto">
+                    {/* Pegs */}
+                    {Array.from({ length: rows }, (_, rowIndex) =>
+                      Array.from({ length: rowIndex + 3 }, (_, pegIndex) => (
+                        <circle
+                          key={`${rowIndex}-${pegIndex}`}
+                          cx={50 + (pegIndex - (rowIndex + 2) / 2) * gap}
+                          cy={(rowIndex + 1) * rowHeight}
+                          r={gap * 0.1}
+                          className="fill-cyan-400"
+                        />
+                      ))
+                    )}
+
+                    {/* Balls, each appearing once its turn in the batch comes */}
+                    {activeBalls.map((activeBall, index) => {
+                      if (ballStep(index) < 0) return null;
+
+                      const position = ballPosition(activeBall, index);
+
+                      return (
+                        <motion.circle
+                          key={activeBall.nonce}
+                          initial={{ cx: 50, cy: rowHeight * 0.5 }}
+                          animate={{ cx: position.x, cy: position.y }}
+                          transition={{ duration: STEP_DURATION / 1000, ease: 'easeIn' }}
+                          r={gap * 0.22}
+                          className="fill-white"
+                        />
+                      );
+                    })}
+                  </svg>
+
                   {/* Multiplier Slots */}
-                  <div className="mt-8 flex justify-center gap-1">
-                    {Array.from({ length: rows + 1 }, (_, slotIndex) => {
-                      const multipliers = riskLevel === 'low' 
-                        ? [0.5, 1.0, 1.5, 2.0, 2.5, 3.0, 2.5, 2.0, 1.5, 1.0, 0.5]
-                        : riskLevel === 'medium'
-                        ? [0.3, 0.7, 1.2, 2.0, 3.5, 5.0, 3.5, 2.0, 1.2, 0.7, 0.3]
-                        : [0.2, 0.5, 1.0, 2.5, 5.0, 10.0, 5.0, 2.5, 1.0, 0.5, 0.2];
-                      
-                      const multiplier = multipliers[Math.min(slotIndex, multipliers.length - 1)];
+                  <div className="mt-2 flex justify-center gap-1">
+                    {multipliers.map((multiplier, slotIndex) => {
                       const isHighMultiplier = multiplier >= 5;
-                      
+
                       return (
-                        <div
-                          key={slotIndex}
+                        <motion.div
+                          key={`${rows}-${riskLevel}-${slotIndex}`}
+                          animate={landedSlots.has(slotIndex) ? { y: [0, 6, 0] } : { y: 0 }}
+                          transition={{ duration: 0.3 }}
                           className={`flex-1 min-w-0 py-2 px-1 text-center text-xs font-bold rounded-t-lg border-t-2 ${
+                            landedSlots.has(slotIndex) ? 'ring-2 ring-white ' : ''
+                          }${
                             isHighMultiplier
                               ? 'bg-gradient-to-t from-red-600 to-red-500 border-red-400 text-white'
                               : multiplier >= 2
@@ -276,12 +454,12 @@ export default function PlinkoPage() {
                           }`}
                         >
                           {multiplier}x
-                        </div>
+                        </motion.div>
                       );
                     })}
                   </div>
                 </div>
-                
+
                 {/* Game Stats */}
                 <div className="mt-4 text-center text-sm text-gray-400">
                   <p>Risk Level: <span className="capitalize text-white">{riskLevel}</span> | Rows: <span className="text-white">{rows}</span></p>
@@ -0,0 +1,45 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuthStore } from '@/store/authStore';
+import Navbar from '@/components/layout/Navbar';
+
+export default function WalletLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const router = useRouter();
+  const { user, isInitialized } = useAuthStore();
+
+  useEffect(() => {
+    if (isInitialized && !user) {
+      router.push('/auth/login');
+    }
+  }, [user, isInitialized, router]);
+
+  if (!isInitialized) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" style={{backgroundColor: 'var(--bg)'}}>
+        <div className="text-center">
+          <div className="spinner mx-auto mb-4" />
+          <p style={{color: 'var(--muted)'}}>Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect to login
+  }
+
+  return (
+    <div className="min-h-screen" style={{backgroundColor: 'var(--bg)'}}>
+      <Navbar />
+      <div className="container mx-auto px-4 pt-24 pb-12">
+        {children}
+      </div>
+    </div>
+  );
+}
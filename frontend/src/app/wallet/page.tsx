@@ -0,0 +1,272 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowDownCircle, ArrowUpCircle, Wallet as WalletIcon } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import Pager from '@/components/admin/Pager';
+import PaymentStatusBadge from '@/components/payments/PaymentStatusBadge';
+import { selectedWallet, useAuthStore } from '@/store/authStore';
+import { paymentAPI } from '@/lib/api';
+import { socketService } from '@/lib/socket';
+import { formatCurrency, formatTime, generateSeed, parseError } from '@/lib/utils';
+import type { Pagination, Payment, SocketEvents } from '@/types';
+
+const PAGE_SIZE = 20;
+
+export default function WalletPage() {
+  const { user, token, currency, setCurrency, refreshUser } = useAuthStore();
+  const wallet = selectedWallet(user, currency);
+
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [page, setPage] = useState(1);
+
+  const [depositAmount, setDepositAmount] = useState('');
+  const [withdrawAmount, setWithdrawAmount] = useState('');
+  const [destination, setDestination] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadPayments = useCallback(async () => {
+    try {
+      const response = await paymentAPI.getPayments({ page, limit: PAGE_SIZE });
+      setPayments(response.data.data.payments);
+      setPagination(response.data.data.pagination);
+    } catch (error) {
+      toast.error(parseError(error));
+    }
+  }, [page]);
+
+  useEffect(() => {
+    loadPayments();
+  }, [loadPayments]);
+
+  // Payments settle asynchronously once the provider confirms them
+  useEffect(() => {
+    if (!token) return;
+
+    socketService.connect(token);
+
+    const handlePayment: SocketEvents['paymentUpdate'] = ({ payment }) => {
+      setPayments(prev => prev.map(existing => existing.id === payment.id ? { ...existing, ...payment } : existing));
+      refreshUser().catch(() => {});
+
+      if (payment.status === 'COMPLETED') {
+        toast.success(`${payment.type === 'DEPOSIT' ? 'Deposit' : 'Withdrawal'} of ${formatCurrency(payment.amount, payment.currency)} completed`);
+      } else if (payment.status === 'FAILED' || payment.status === 'REJECTED') {
+        toast.error(`${payment.type === 'DEPOSIT' ? 'Deposit' : 'Withdrawal'} of ${formatCurrency(payment.amount, payment.currency)} ${payment.status.toLowerCase()}`);
+      }
+    };
+
+    socketService.on('paymentUpdate', handlePayment);
+
+    return () => {
+      socketService.off('paymentUpdate', handlePayment);
+    };
+  }, [token, refreshUser]);
+
+  if (!user || !wallet) {
+    return null;
+  }
+
+  const available = parseFloat(wallet.balance) - parseFloat(wallet.heldBalance);
+
+  const submit = async (request: () => Promise<unknown>) => {
+    setIsSubmitting(true);
+    try {
+      await request();
+      await Promise.all([loadPayments(), refreshUser()]);
+      return true;
+    } catch (error) {
+      toast.error(parseError(error));
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeposit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (await submit(() => paymentAPI.deposit(wallet.currency, parseFloat(depositAmount), generateSeed()))) {
+      toast.success('Deposit started, your balance will update once it is confirmed');
+      setDepositAmount('');
+    }
+  };
+
+  const handleWithdraw = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (await submit(() => paymentAPI.withdraw(wallet.currency, parseFloat(withdrawAmount), destination.trim(), generateSeed()))) {
+      toast.success('Withdrawal requested, it will be paid once approved');
+      setWithdrawAmount('');
+      setDestination('');
+    }
+  };
+
+  const handleCancel = async (payment: Payment) => {
+    if (await submit(() => paymentAPI.cancelWithdrawal(payment.id))) {
+      toast.success('Withdrawal cancelled');
+    }
+  };
+
+  const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white focus:border-blue-500 focus:outline-none';
+  const step = 10 ** -wallet.decimals;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 bg-gradient-to-r from-green-500 to-emerald-500 rounded-lg flex items-center justify-center">
+          <WalletIcon className="w-6 h-6 text-white" />
+        </div>
+        <div>
+          <h1 className="text-3xl font-bold">Wallet</h1>
+          <p className="text-gray-400">Deposit and withdraw funds</p>
+        </div>
+      </div>
+
+      {/* Balances */}
+      <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {user.wallets.map((option) => (
+          <button
+            key={option.currency}
+            onClick={() => setCurrency(option.currency)}
+            className={`text-left bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border transition-colors ${
+              option.currency === wallet.currency ? 'border-green-500' : 'border-gray-700 hover:border-gray-500'
+            }`}
+          >
+            <p className="text-gray-400">{option.name}</p>
+            <p className="text-2xl font-bold font-mono">{formatCurrency(option.balance, option.currency, option.decimals)}</p>
+            {parseFloat(option.heldBalance) > 0 && (
+              <p className="text-sm text-yellow-400 mt-1">
+                {formatCurrency(option.heldBalance, option.currency, option.decimals)} held for withdrawals
+              </p>
+            )}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-8">
+        {/* Deposit */}
+        <form onSubmit={handleDeposit} className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700 space-y-4">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <ArrowDownCircle className="w-5 h-5 text-green-400" />
+            Deposit {wallet.currency}
+          </h2>
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">Amount</label>
+            <input
+              type="number"
+              min={step}
+              step={step}
+              value={depositAmount}
+              onChange={(e) => setDepositAmount(e.target.value)}
+              placeholder={(0).toFixed(wallet.decimals)}
+              className={inputClass}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting || !(parseFloat(depositAmount) > 0)}
+            className="w-full py-2 bg-green-600 hover:bg-green-500 disabled:opacity-50 rounded-lg font-semibold transition-colors"
+          >
+            Deposit
+          </button>
+        </form>
+
+        {/* Withdraw */}
+        <form onSubmit={handleWithdraw} className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700 space-y-4">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <ArrowUpCircle className="w-5 h-5 text-blue-400" />
+            Withdraw {wallet.currency}
+          </h2>
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">
+              Amount (available {formatCurrency(Math.max(available, 0), wallet.currency, wallet.decimals)})
+            </label>
+            <input
+              type="number"
+              min={step}
+              step={step}
+              value={withdrawAmount}
+              onChange={(e) => setWithdrawAmount(e.target.value)}
+              placeholder={(0).toFixed(wallet.decimals)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">Destination</label>
+            <input
+              type="text"
+              value={destination}
+              onChange={(e) => setDestination(e.target.value)}
+              maxLength={255}
+              placeholder="Account or address to pay out to"
+              className={inputClass}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting || !(parseFloat(withdrawAmount) > 0) || destination.trim().length < 3}
+            className="w-full py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded-lg font-semibold transition-colors"
+          >
+            Request Withdrawal
+          </button>
+        </form>
+      </div>
+
+      {/* Payments */}
+      <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-6 border border-gray-700">
+        <h2 className="text-xl font-bold mb-6">Payments</h2>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-700">
+                <th className="py-2">Time</th>
+                <th className="py-2">Type</th>
+                <th className="py-2">Amount</th>
+                <th className="py-2">Destination</th>
+                <th className="py-2">Status</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {payments.map((payment) => (
+                <tr key={payment.id} className="border-b border-gray-700/50">
+                  <td className="py-2 text-gray-400 whitespace-nowrap">{formatTime(payment.createdAt)}</td>
+                  <td className="py-2 capitalize">{payment.type.toLowerCase()}</td>
+                  <td className="py-2 font-mono">{formatCurrency(payment.amount, payment.currency)}</td>
+                  <td className="py-2 text-gray-400 break-all">{payment.destination ?? '-'}</td>
+                  <td className="py-2">
+                    <PaymentStatusBadge status={payment.status} />
+                    {(payment.reviewNote || payment.failureReason) && (
+                      <p className="text-xs text-gray-500 mt-1">{payment.reviewNote || payment.failureReason}</p>
+                    )}
+                  </td>
+                  <td className="py-2 text-right">
+                    {payment.type === 'WITHDRAWAL' && payment.status === 'PENDING' && (
+                      <button
+                        onClick={() => handleCancel(payment)}
+                        disabled={isSubmitting}
+                        className="text-red-400 hover:text-red-300 disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {payments.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="py-6 text-center text-gray-400">No payments yet</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <Pager pagination={pagination} label="payments" onChange={setPage} />
+      </div>
+    </div>
+  );
+}
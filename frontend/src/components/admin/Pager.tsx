@@ -0,0 +1,41 @@
+'use client';
+
+import type { Pagination } from '@/types';
+
+interface PagerProps {
+  pagination: Pagination | null;
+  label: string;
+  onChange: (page: number) => void;
+}
+
+export default function Pager({ pagination, label, onChange }: PagerProps) {
+  if (!pagination || pagination.pages <= 1) {
+    return null;
+  }
+
+  const { page, pages, total } = pagination;
+
+  return (
+    <div className="flex items-center justify-between mt-4 text-sm">
+      <span className="text-gray-400">
+        Page {page} of {pages} ({total} {label})
+      </span>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onChange(page - 1)}
+          disabled={page <= 1}
+          className="px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg transition-colors"
+        >
+          Previous
+        </button>
+        <button
+          onClick={() => onChange(page + 1)}
+          disabled={page >= pages}
+          className="px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg transition-colors"
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  );
+}
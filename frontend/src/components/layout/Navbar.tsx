@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
@@ -12,16 +12,22 @@ import {
   Wallet,
   Trophy,
   History,
-  Zap
+  Shield,
+  Zap,
+  Gift
 } from 'lucide-react';
-import { useAuthStore } from '@/store/authStore';
+import { isStaff, selectedWallet, useAuthStore } from '@/store/authStore';
 import { toast } from 'react-hot-toast';
+import { userAPI } from '@/lib/api';
+import { DEFAULT_CURRENCY, formatCurrency, generateSeed, parseError } from '@/lib/utils';
+import type { FaucetStatus } from '@/types';
 import HyreliqLogo from '../HyreliqLogo';
 
 const navigation = [
   { name: 'Games', href: '/games' },
   { name: 'Leaderboard', href: '/leaderboard' },
   { name: 'Statistics', href: '/stats' },
+  { name: 'Fairness', href: '/fairness' },
   { name: 'Help', href: '/help' },
 ];
 
@@ -33,6 +39,135 @@ const userMenuItems = [
   { name: 'Settings', href: '/settings', icon: Settings },
 ];
 
+const adminMenuItem = { name: 'Admin', href: '/admin', icon: Shield };
+
+// Balance of the selected wallet, with a picker when the player holds more than one currency
+function WalletBalance({ className }: { className: string }) {
+  const { user, currency, setCurrency } = useAuthStore();
+  const wallet = selectedWallet(user, currency);
+
+  if (!user || !wallet) {
+    return null;
+  }
+
+  return (
+    <div className={`items-center space-x-2 bg-green-900/20 border border-green-500/20 rounded-lg px-3 py-2 ${className}`}>
+      <Wallet className="w-4 h-4 text-green-400" />
+      <span className="text-green-400 font-semibold">
+        {formatCurrency(wallet.balance, wallet.currency, wallet.decimals)}
+      </span>
+      {user.wallets.length > 1 && (
+        <select
+          value={wallet.currency}
+          onChange={(e) => setCurrency(e.target.value)}
+          aria-label="Currency"
+          className="bg-transparent text-sm text-green-400 font-medium focus:outline-none"
+        >
+          {user.wallets.map((option) => (
+            <option key={option.currency} value={option.currency} className="bg-gray-900">
+              {option.currency}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds % 60)}`
+    : `${minutes}:${pad(seconds % 60)}`;
+};
+
+// Free credits for players who have run low, counting down while the faucet cools down
+function FaucetButton({ className }: { className: string }) {
+  const { user, updateBalance } = useAuthStore();
+  const [status, setStatus] = useState<FaucetStatus | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [isClaiming, setIsClaiming] = useState(false);
+
+  const wallet = selectedWallet(user, DEFAULT_CURRENCY);
+  const available = wallet ? parseFloat(wallet.balance) - parseFloat(wallet.heldBalance) : 0;
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await userAPI.getFaucet();
+      setStatus(response.data.data.faucet);
+    } catch {
+      setStatus(null);
+    }
+  }, []);
+
+  // Eligibility depends on the balance, so check again whenever it changes
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus, available]);
+
+  const cooldownEndsAt = status?.nextClaimAt ? new Date(status.nextClaimAt).getTime() : null;
+
+  useEffect(() => {
+    if (!cooldownEndsAt) return;
+
+    const timer = setInterval(() => {
+      setNow(Date.now());
+
+      if (Date.now() >= cooldownEndsAt) {
+        clearInterval(timer);
+        loadStatus();
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [cooldownEndsAt, loadStatus]);
+
+  if (!status || available >= parseFloat(status.balanceThreshold)) {
+    return null;
+  }
+
+  const handleClaim = async () => {
+    setIsClaiming(true);
+    try {
+      const response = await userAPI.claimFaucet(generateSeed());
+      const { currency, amount, balance, faucet } = response.data.data;
+      updateBalance(balance, currency);
+      setStatus(faucet);
+      setNow(Date.now());
+      toast.success(`Claimed ${formatCurrency(amount, currency)} in free credits`);
+    } catch (error) {
+      toast.error(parseError(error));
+      loadStatus();
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  const remaining = cooldownEndsAt ? cooldownEndsAt - now : 0;
+
+  return (
+    <button
+      onClick={handleClaim}
+      disabled={!status.eligible || isClaiming}
+      title={status.reason ?? `Claim ${formatCurrency(status.amount, status.currency)} (${status.claimsToday}/${status.maxClaimsPerDay} today)`}
+      className={`items-center space-x-2 bg-purple-900/20 border border-purple-500/20 rounded-lg px-3 py-2 text-purple-300 font-semibold transition-colors hover:bg-purple-900/40 disabled:opacity-60 disabled:hover:bg-purple-900/20 ${className}`}
+    >
+      <Gift className="w-4 h-4" />
+      <span>
+        {remaining > 0
+          ? formatCountdown(remaining)
+          : status.eligible
+            ? `Claim ${formatCurrency(status.amount, status.currency)}`
+            : 'Free credits'}
+      </span>
+    </button>
+  );
+}
+
 export default function Navbar() {
   const { user, logout, isLoading, initialize } = useAuthStore();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -58,6 +193,8 @@ export default function Navbar() {
     return null;
   }
 
+  const menuItems = isStaff(user) ? [...userMenuItems, adminMenuItem] : userMenuItems;
+
   return (
     <nav className="fixed top-0 left-0 right-0 z-50 glass-surface border-b" style={{borderColor: 'var(--border)'}}>
       <div className="container mx-auto px-4">
@@ -85,12 +222,8 @@ export default function Navbar() {
             {user ? (
               <>
                 {/* Balance */}
-                <div className="hidden sm:flex items-center space-x-2 bg-green-900/20 border border-green-500/20 rounded-lg px-3 py-2">
-                  <Wallet className="w-4 h-4 text-green-400" />
-                  <span className="text-green-400 font-semibold">
-                    ${parseFloat(user.balance).toLocaleString()}
-                  </span>
-                </div>
+                <FaucetButton className="hidden sm:flex" />
+                <WalletBalance className="hidden sm:flex" />
 
                 {/* User Menu */}
                 <div className="relative">
@@ -123,7 +256,7 @@ export default function Navbar() {
                         </div>
 
                         <div className="py-2">
-                          {userMenuItems.map((item) => (
+                          {menuItems.map((item) => (
                             <Link
                               key={item.name}
                               href={item.href}
@@ -194,14 +327,8 @@ export default function Navbar() {
           >
             <div className="container mx-auto px-4 py-4 space-y-4">
               {/* Balance for mobile */}
-              {user && (
-                <div className="flex items-center justify-center space-x-2 bg-green-900/20 border border-green-500/20 rounded-lg px-3 py-2">
-                  <Wallet className="w-4 h-4 text-green-400" />
-                  <span className="text-green-400 font-semibold">
-                    ${parseFloat(user.balance).toLocaleString()}
-                  </span>
-                </div>
-              )}
+              {user && <WalletBalance className="flex justify-center" />}
+              {user && <FaucetButton className="flex justify-center w-full" />}
 
               {/* Navigation items */}
               {navigation.map((item) => (
@@ -218,7 +345,7 @@ export default function Navbar() {
               {user && (
                 <>
                   <div className="border-t border-gray-700 pt-4">
-                    {userMenuItems.map((item) => (
+                    {menuItems.map((item) => (
                       <Link
                         key={item.name}
                         href={item.href}
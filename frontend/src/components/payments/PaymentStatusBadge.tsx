@@ -0,0 +1,20 @@
+'use client';
+
+import type { PaymentStatus } from '@/types';
+
+const STATUS_STYLES: Record<PaymentStatus, string> = {
+  PENDING: 'bg-yellow-500/20 text-yellow-400',
+  APPROVED: 'bg-blue-500/20 text-blue-400',
+  COMPLETED: 'bg-green-500/20 text-green-400',
+  REJECTED: 'bg-red-500/20 text-red-400',
+  CANCELLED: 'bg-gray-500/20 text-gray-400',
+  FAILED: 'bg-red-500/20 text-red-400'
+};
+
+export default function PaymentStatusBadge({ status }: { status: PaymentStatus }) {
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[status]}`}>
+      {status.toLowerCase()}
+    </span>
+  );
+}
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import type { GameSettings, GameType, PaymentStatus, PaymentType, UserRole, VerifyParams } from '@/types';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
@@ -51,6 +52,29 @@ api.interceptors.response.use(
   }
 );
 
+const IDEMPOTENT_RETRIES = 3;
+const IDEMPOTENT_RETRY_DELAY = 500; // Milliseconds, doubled after every retry
+
+// Bet and payment requests carry an Idempotency-Key, so retrying one never moves money twice.
+// Pages create one key per user action; it is retried while the outcome is unknown:
+// after a network error, or while the server answers 409 because the first attempt is still running
+const postIdempotent = async (url: string, data: object, idempotencyKey: string) => {
+  const config = { headers: { 'Idempotency-Key': idempotencyKey } };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await api.post(url, data, config);
+    } catch (error: any) {
+      const pending = !error.response || error.response.status === 409;
+      if (!pending || attempt >= IDEMPOTENT_RETRIES) {
+        throw error;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, IDEMPOTENT_RETRY_DELAY * 2 ** attempt));
+    }
+  }
+};
+
 // API endpoints
 export const authAPI = {
   login: (email: string, password: string) =>
@@ -73,40 +97,61 @@ export const authAPI = {
 
 export const gameAPI = {
   // Plinko
-  playPlinko: (rows: number, risk: string, betAmount: number) =>
-    api.post('/games/plinko/play', { rows, risk, betAmount }),
+  playPlinko: (rows: number, risk: string, betAmount: number, currency: string, idempotencyKey: string) =>
+    postIdempotent('/games/plinko/play', { rows, risk, betAmount, currency }, idempotencyKey),
+
+  playPlinkoBatch: (rows: number, risk: string, betAmount: number, ballCount: number, currency: string, idempotencyKey: string) =>
+    postIdempotent('/games/plinko/play-batch', { rows, risk, betAmount, ballCount, currency }, idempotencyKey),
   
   getPlinkoStats: (rows: number, risk: string) =>
     api.get(`/games/plinko/stats/${rows}/${risk}`),
   
   // Mines
-  startMines: (gridSize: number, mineCount: number, betAmount: number) =>
-    api.post('/games/mines/start', { gridSize, mineCount, betAmount }),
+  getActiveMines: () => api.get('/games/mines/active'),
+  
+  startMines: (rows: number, columns: number, mineCount: number, betAmount: number, currency: string, idempotencyKey: string) =>
+    postIdempotent('/games/mines/start', { rows, columns, mineCount, betAmount, currency }, idempotencyKey),
   
   revealMinesCell: (gameId: string, cellIndex: number) =>
     api.post('/games/mines/reveal', { gameId, cellIndex }),
   
+  revealMinesBatch: (gameId: string, cells: number[]) =>
+    api.post('/games/mines/reveal-batch', { gameId, cells }),
+  
   cashOutMines: (gameId: string) =>
     api.post('/games/mines/cashout', { gameId }),
   
-  getMinesStats: (gridSize: number, mineCount: number) =>
-    api.get(`/games/mines/stats/${gridSize}/${mineCount}`),
+  getMinesPatterns: (rows: number, columns: number) =>
+    api.get(`/games/mines/patterns/${rows}/${columns}`),
+  
+  getMinesStats: (gridSize: number, mineCount: number, rows?: number, columns?: number) =>
+    api.get(`/games/mines/stats/${gridSize}/${mineCount}`, { params: { rows, columns } }),
   
   // Crash
   getCurrentCrash: () => api.get('/games/crash/current'),
   
-  placeCrashBet: (betAmount: number, autoCashOut?: number) =>
-    api.post('/games/crash/bet', { betAmount, autoCashOut }),
+  placeCrashBet: (betAmount: number, currency: string, idempotencyKey: string, autoCashOut?: number) =>
+    postIdempotent('/games/crash/bet', { betAmount, currency, autoCashOut }, idempotencyKey),
   
   crashCashOut: () => api.post('/games/crash/cashout'),
   
   getCrashStats: () => api.get('/games/crash/stats'),
   
+  getCrashChain: () => api.get('/games/crash/chain'),
+  
+  getCrashRounds: (page?: number, limit?: number) =>
+    api.get('/games/crash/rounds', { params: { page, limit } }),
+  
+  verifyCrashChain: (hash: string, gameNumber: number, count?: number, salt?: string) =>
+    api.post('/games/crash/verify-chain', { hash, gameNumber, count, salt }),
+  
   // General
-  getGameHistory: (page?: number, limit?: number, gameType?: string) =>
-    api.get('/games/history', { params: { page, limit, gameType } }),
+  getCurrencies: () => api.get('/games/currencies'),
+  
+  getGameHistory: (page?: number, limit?: number, gameType?: string, currency?: string) =>
+    api.get('/games/history', { params: { page, limit, gameType, currency } }),
   
-  getGameSummary: () => api.get('/games/stats/summary'),
+  getGameSummary: (currency?: string) => api.get('/games/stats/summary', { params: { currency } }),
 };
 
 export const userAPI = {
@@ -115,12 +160,18 @@ export const userAPI = {
   updateProfile: (data: { username?: string; email?: string }) =>
     api.put('/user/profile', data),
   
-  getBalance: () => api.get('/user/balance'),
+  getBalance: (currency?: string) => api.get('/user/balance', { params: { currency } }),
+  
+  getWallets: () => api.get('/user/wallets'),
+  
+  getTransactions: (page?: number, limit?: number, type?: string, currency?: string) =>
+    api.get('/user/transactions', { params: { page, limit, type, currency } }),
+  
+  getStats: (currency?: string) => api.get('/user/stats', { params: { currency } }),
   
-  getTransactions: (page?: number, limit?: number, type?: string) =>
-    api.get('/user/transactions', { params: { page, limit, type } }),
+  getFaucet: () => api.get('/user/faucet'),
   
-  getStats: () => api.get('/user/stats'),
+  claimFaucet: (idempotencyKey: string) => postIdempotent('/user/faucet', {}, idempotencyKey),
   
   getSessions: () => api.get('/user/sessions'),
   
@@ -130,15 +181,102 @@ export const userAPI = {
   deactivateAccount: () => api.post('/user/deactivate'),
 };
 
+export const paymentAPI = {
+  getPayments: (params: { type?: PaymentType; status?: PaymentStatus; page?: number; limit?: number }) =>
+    api.get('/payments', { params }),
+  
+  deposit: (currency: string, amount: number, idempotencyKey: string) =>
+    postIdempotent('/payments/deposits', { currency, amount }, idempotencyKey),
+  
+  withdraw: (currency: string, amount: number, destination: string, idempotencyKey: string) =>
+    postIdempotent('/payments/withdrawals', { currency, amount, destination }, idempotencyKey),
+  
+  cancelWithdrawal: (paymentId: string) =>
+    api.post(`/payments/withdrawals/${paymentId}/cancel`),
+};
+
+export const fairnessAPI = {
+  getSeeds: () => api.get('/fairness/seeds'),
+  
+  getSeedHistory: (page?: number, limit?: number) =>
+    api.get('/fairness/seeds/history', { params: { page, limit } }),
+  
+  setClientSeed: (clientSeed: string) =>
+    api.put('/fairness/client-seed', { clientSeed }),
+  
+  rotateSeed: (clientSeed?: string) =>
+    api.post('/fairness/rotate', { clientSeed }),
+  
+  verify: (params: VerifyParams) => api.post('/fairness/verify', params),
+  
+  getBetVerification: (betId: string) => api.get(`/fairness/bets/${betId}`),
+};
+
 export const statsAPI = {
-  getPlatformStats: () => api.get('/stats/platform'),
+  getPlatformStats: (currency?: string) => api.get('/stats/platform', { params: { currency } }),
   
-  getLeaderboard: (gameType?: string, timeframe?: string, limit?: number) =>
-    api.get('/stats/leaderboard', { params: { gameType, timeframe, limit } }),
+  getLeaderboard: (gameType?: string, timeframe?: string, limit?: number, currency?: string) =>
+    api.get('/stats/leaderboard', { params: { gameType, timeframe, limit, currency } }),
   
   getLiveStats: () => api.get('/stats/live'),
   
-  getGameStats: (gameType: string) => api.get(`/stats/games/${gameType}`),
+  getGameStats: (gameType: string, currency?: string) =>
+    api.get(`/stats/games/${gameType}`, { params: { currency } }),
+};
+
+export const adminAPI = {
+  // Users
+  getUsers: (params: { search?: string; role?: UserRole; isActive?: boolean; page?: number; limit?: number }) =>
+    api.get('/admin/users', { params }),
+  
+  getUser: (userId: string) => api.get(`/admin/users/${userId}`),
+  
+  getUserHistory: (userId: string, page?: number, limit?: number, gameType?: string, currency?: string) =>
+    api.get(`/admin/users/${userId}/history`, { params: { page, limit, gameType, currency } }),
+  
+  getUserTransactions: (userId: string, page?: number, limit?: number, type?: string, currency?: string) =>
+    api.get(`/admin/users/${userId}/transactions`, { params: { page, limit, type, currency } }),
+  
+  adjustBalance: (userId: string, currency: string, amount: number, reason: string) =>
+    api.post(`/admin/users/${userId}/balance`, { currency, amount, reason }),
+  
+  deactivateUser: (userId: string) => api.post(`/admin/users/${userId}/deactivate`),
+  
+  reactivateUser: (userId: string) => api.post(`/admin/users/${userId}/reactivate`),
+  
+  setRole: (userId: string, role: UserRole) =>
+    api.put(`/admin/users/${userId}/role`, { role }),
+  
+  // Ledger
+  getLedger: () => api.get('/admin/ledger'),
+  
+  getLedgerDiscrepancies: (resolved?: boolean, page?: number, limit?: number) =>
+    api.get('/admin/ledger/discrepancies', { params: { resolved, page, limit } }),
+  
+  reconcileLedger: () => api.post('/admin/ledger/reconcile'),
+  
+  // Games
+  getSettings: () => api.get('/admin/settings'),
+  
+  updateSettings: (gameType: GameType, changes: Partial<Omit<GameSettings, 'gameType'>>) =>
+    api.put(`/admin/settings/${gameType}`, changes),
+  
+  getCrashRounds: (page?: number, limit?: number) =>
+    api.get('/admin/crash/rounds', { params: { page, limit } }),
+  
+  // Payments
+  getPayments: (params: { type?: PaymentType; status?: PaymentStatus; userId?: string; page?: number; limit?: number }) =>
+    api.get('/admin/payments', { params }),
+  
+  approveWithdrawal: (paymentId: string, note?: string) =>
+    api.post(`/admin/payments/${paymentId}/approve`, { note }),
+  
+  rejectWithdrawal: (paymentId: string, note: string) =>
+    api.post(`/admin/payments/${paymentId}/reject`, { note }),
+  
+  // Audit log
+  getAuditLog: (params: { action?: string; userId?: string; page?: number; limit?: number }) =>
+    api.get('/admin/audit', { params }),
 };
 
 export default api;
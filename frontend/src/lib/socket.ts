@@ -59,6 +59,16 @@ class SocketService {
       this.emit('userCount', data);
     });
 
+    // Balance changes settled by the server
+    this.socket.on('balance_update', (data) => {
+      this.emit('balanceUpdate', data);
+    });
+
+    // Deposits and withdrawals moving through the payment provider
+    this.socket.on('payment_update', (data) => {
+      this.emit('paymentUpdate', data);
+    });
+
     // Chat messages
     this.socket.on('chat_message', (message) => {
       this.emit('chatMessage', message);
@@ -90,6 +100,10 @@ class SocketService {
     });
 
     // Crash events
+    this.socket.on('crash_phase', (data) => {
+      this.emit('crashPhase', data);
+    });
+
     this.socket.on('crash_round_started', (data) => {
       this.emit('crashRoundStarted', data);
     });
@@ -98,6 +112,10 @@ class SocketService {
       this.emit('crashMultiplierUpdate', data);
     });
 
+    this.socket.on('crash_players', (data) => {
+      this.emit('crashPlayers', data);
+    });
+
     this.socket.on('crash_round_ended', (data) => {
       this.emit('crashRoundEnded', data);
     });
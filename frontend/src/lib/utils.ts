@@ -5,14 +5,27 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-export function formatCurrency(amount: number | string): string {
+export const DEFAULT_CURRENCY = 'CREDITS';
+
+// Credits keep the dollar format; test currencies show their code and, when known, all their decimals
+export function formatCurrency(amount: number | string, currency: string = DEFAULT_CURRENCY, decimals?: number): string {
   const num = typeof amount === 'string' ? parseFloat(amount) : amount;
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
+
+  if (currency === DEFAULT_CURRENCY) {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(num);
+  }
+
+  const formatted = new Intl.NumberFormat('en-US', {
+    minimumFractionDigits: decimals ?? 0,
+    maximumFractionDigits: decimals ?? 8,
   }).format(num);
+
+  return `${formatted} ${currency}`;
 }
 
 export function formatNumber(num: number): string {
@@ -3,12 +3,15 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { api } from '@/lib/api';
+import { DEFAULT_CURRENCY } from '@/lib/utils';
+import type { UserRole, Wallet } from '@/types';
 
 interface User {
   id: string;
   email: string;
   username: string;
-  balance: string;
+  wallets: Wallet[];
+  role: UserRole;
   isActive: boolean;
   isVerified: boolean;
   createdAt: string;
@@ -17,6 +20,8 @@ interface User {
 interface AuthState {
   user: User | null;
   token: string | null;
+  // The currency the player bets in and the navbar shows
+  currency: string;
   isLoading: boolean;
   isInitialized: boolean;
   
@@ -25,7 +30,8 @@ interface AuthState {
   register: (email: string, username: string, password: string, confirmPassword: string) => Promise<void>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
-  updateBalance: (newBalance: string) => void;
+  updateBalance: (newBalance: string, currency?: string) => void;
+  setCurrency: (currency: string) => void;
   initialize: () => void;
 }
 
@@ -34,6 +40,7 @@ export const useAuthStore = create<AuthState>()(
     (set, get) => ({
       user: null,
       token: null,
+      currency: DEFAULT_CURRENCY,
       isLoading: false,
       isInitialized: false,
 
@@ -149,24 +156,44 @@ export const useAuthStore = create<AuthState>()(
         }
       },
 
-      updateBalance: (newBalance: string) => {
+      updateBalance: (newBalance: string, currency?: string) => {
         const { user } = get();
+        const walletCurrency = currency ?? get().currency;
         if (user) {
           set({ 
             user: { 
               ...user, 
-              balance: newBalance 
+              wallets: user.wallets.map((wallet) =>
+                wallet.currency === walletCurrency ? { ...wallet, balance: newBalance } : wallet
+              )
             } 
           });
         }
       },
+
+      setCurrency: (currency: string) => {
+        set({ currency });
+      },
     }),
     {
       name: 'hyrlqi-auth',
       partialize: (state) => ({
         user: state.user,
         token: state.token,
+        currency: state.currency,
       }),
     }
   )
 );
+
+/**
+ * Support staff and admins can open the admin section; the API still checks every request
+ */
+export const isStaff = (user: User | null) =>
+  user?.role === 'SUPPORT' || user?.role === 'ADMIN';
+
+/**
+ * The wallet for the selected currency, falling back to the first one if that currency was removed
+ */
+export const selectedWallet = (user: User | null, currency: string) =>
+  user?.wallets.find((wallet) => wallet.currency === currency) ?? user?.wallets[0];
@@ -1,9 +1,12 @@
 // User types
+export type UserRole = 'PLAYER' | 'SUPPORT' | 'ADMIN';
+
 export interface User {
   id: string;
   email: string;
   username: string;
-  balance: string;
+  wallets: Wallet[];
+  role: UserRole;
   isActive: boolean;
   isVerified: boolean;
   createdAt: string;
@@ -14,12 +17,30 @@ export interface AuthResponse {
   token: string;
 }
 
+// Currency types
+export interface Currency {
+  code: string;
+  name: string;
+  decimals: number;
+  welcomeBonus: string;
+}
+
+export interface Wallet {
+  currency: string;
+  name: string;
+  decimals: number;
+  balance: string;
+  // Reserved by pending withdrawals and not available for bets
+  heldBalance: string;
+}
+
 // Game types
 export type GameType = 'PLINKO' | 'MINES' | 'CRASH';
 
 export interface GameResult {
   id: string;
   gameType: GameType;
+  currency: string;
   betAmount: string;
   payout: string;
   multiplier: number;
@@ -30,7 +51,7 @@ export interface GameResult {
 
 // Plinko types
 export interface PlinkoConfig {
-  rows: 8 | 12 | 16;
+  rows: number;
   risk: 'low' | 'medium' | 'high';
   betAmount: number;
 }
@@ -41,9 +62,21 @@ export interface PlinkoResult {
   multiplier: number;
   payout: number;
   isWin: boolean;
-  seed: string;
+  serverSeedHash: string;
+  clientSeed: string;
   nonce: number;
   profit: number;
+  currency: string;
+  newBalance: string;
+}
+
+export interface PlinkoBatchResult {
+  balls: Omit<PlinkoResult, 'profit' | 'currency' | 'newBalance'>[];
+  ballCount: number;
+  totalBet: number;
+  totalPayout: number;
+  profit: number;
+  currency: string;
   newBalance: string;
 }
 
@@ -70,16 +103,24 @@ export interface MinesConfig {
   betAmount: number;
 }
 
+export interface MinesGridShape {
+  rows: number;
+  columns: number;
+}
+
 export interface MinesGameState {
   gameId: string;
   gridSize: number;
+  gridShape: MinesGridShape;
   mineCount: number;
   betAmount: number;
+  currency: string;
   revealedCells: number[];
   isCompleted: boolean;
   isWin: boolean;
   currentMultiplier: number;
   totalPayout: number;
+  minePositions?: number[];
 }
 
 export interface MinesRevealResult {
@@ -91,6 +132,20 @@ export interface MinesRevealResult {
   isWin: boolean;
 }
 
+export interface MinesBatchResult {
+  reveals: MinesRevealResult[];
+  cashedOut: boolean;
+  isWin: boolean;
+  payout: number;
+  gameState: MinesGameState;
+  newBalance: string;
+}
+
+export interface MinesPattern {
+  name: string;
+  cells: number[];
+}
+
 export interface MinesStats {
   gridSize: number;
   mineCount: number;
@@ -106,18 +161,34 @@ export interface MinesStats {
 }
 
 // Crash types
+export type CrashPhase = 'BETTING' | 'RUNNING' | 'CRASHED';
+
 export interface CrashConfig {
   betAmount: number;
   autoCashOut?: number;
 }
 
+export interface CrashPhaseUpdate {
+  phase: CrashPhase;
+  roundId: string | null;
+  gameNumber: number | null;
+  phaseEndsAt: number | null;
+  crashPoint?: number;
+  hash?: string;
+}
+
 export interface CrashGameState {
   roundId: string;
+  phase: CrashPhase;
+  phaseEndsAt: number | null;
+  gameNumber: number;
+  previousHash: string;
   startTime: number;
   currentMultiplier: number;
   isActive: boolean;
   isCrashed: boolean;
   playerCount: number;
+  players: CrashPlayer[];
 }
 
 export interface CrashResult {
@@ -125,6 +196,7 @@ export interface CrashResult {
   crashPoint: number;
   cashedOut: boolean;
   cashOutMultiplier?: number;
+  currency: string;
   payout: number;
   profit: number;
 }
@@ -133,18 +205,93 @@ export interface CrashPlayer {
   userId: string;
   username: string;
   betAmount: number;
+  currency: string;
   autoCashOut?: number;
   cashedOut: boolean;
   cashOutMultiplier?: number;
   payout: number;
 }
 
+// Provably fair types
+export interface SeedPair {
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+  createdAt: string;
+}
+
+export interface RevealedSeedPair extends SeedPair {
+  serverSeed: string;
+  revealedAt: string | null;
+}
+
+export interface VerifyParams {
+  gameType: GameType;
+  serverSeed: string;
+  clientSeed: string;
+  nonce: number;
+  rows?: number;
+  risk?: 'low' | 'medium' | 'high';
+  gridSize?: number;
+  mineCount?: number;
+}
+
+export interface VerificationOutcome {
+  serverSeedHash: string;
+  ballPath?: number[];
+  finalSlot?: number;
+  multiplier?: number;
+  minePositions?: number[];
+  crashPoint?: number;
+}
+
+export interface BetVerification {
+  bet: GameResult & {
+    serverSeedHash: string;
+    clientSeed: string | null;
+    nonce: number;
+    serverSeed: string | null;
+  };
+  outcome: VerificationOutcome | null;
+  verified: boolean | null;
+}
+
+export interface CrashChainInfo {
+  chainId: string;
+  terminatingHash: string;
+  salt: string;
+  length: number;
+  gamesPlayed: number;
+}
+
+export interface CrashNextChainInfo {
+  chainId: string;
+  terminatingHash: string;
+  salt: string | null;
+  length: number;
+}
+
+export interface CrashChainRound {
+  gameNumber: number;
+  hash: string;
+  houseEdge: number;
+  crashPoint: number;
+}
+
+export interface CrashChainVerification {
+  salt: string;
+  rounds: CrashChainRound[];
+  terminatingHash: string | null;
+  matchesActiveChain: boolean | null;
+}
+
 // Transaction types
-export type TransactionType = 'DEPOSIT' | 'WITHDRAWAL' | 'BET' | 'WIN' | 'BONUS' | 'REFUND';
+export type TransactionType = 'DEPOSIT' | 'WITHDRAWAL' | 'BET' | 'WIN' | 'BONUS' | 'REFUND' | 'ADJUSTMENT';
 
 export interface Transaction {
   id: string;
   type: TransactionType;
+  currency: string;
   amount: string;
   balanceBefore: string;
   balanceAfter: string;
@@ -152,8 +299,49 @@ export interface Transaction {
   createdAt: string;
 }
 
+// Faucet types
+export interface FaucetStatus {
+  currency: string;
+  amount: string;
+  balanceThreshold: string;
+  claimsToday: number;
+  maxClaimsPerDay: number;
+  // When the cooldown from the last claim ends, if one is running
+  nextClaimAt: string | null;
+  eligible: boolean;
+  reason: string | null;
+}
+
+// Payment types
+export type PaymentType = 'DEPOSIT' | 'WITHDRAWAL';
+
+export type PaymentStatus = 'PENDING' | 'APPROVED' | 'COMPLETED' | 'REJECTED' | 'CANCELLED' | 'FAILED';
+
+export interface Payment {
+  id: string;
+  userId: string;
+  type: PaymentType;
+  status: PaymentStatus;
+  currency: string;
+  amount: string;
+  provider: string;
+  providerReference: string | null;
+  destination: string | null;
+  reviewedById: string | null;
+  reviewNote: string | null;
+  failureReason: string | null;
+  createdAt: string;
+  updatedAt: string;
+  reviewedAt: string | null;
+  completedAt: string | null;
+  // Included in payment lists
+  user?: { id: string; username: string };
+  reviewedBy?: { id: string; username: string } | null;
+}
+
 // Statistics types
 export interface UserStats {
+  currency: string;
   overall: {
     totalGames: number;
     totalBet: string;
@@ -181,6 +369,7 @@ export interface UserStats {
 }
 
 export interface PlatformStats {
+  currency: string;
   totalUsers: number;
   totalGames: number;
   totalVolume: string;
@@ -212,6 +401,7 @@ export interface Leaderboard {
   profitLeaderboard: LeaderboardEntry[];
   biggestWins: LeaderboardEntry[];
   filters: {
+    currency: string;
     gameType: string;
     timeframe: string;
     limit: number;
@@ -223,6 +413,7 @@ export interface LiveActivity {
   recentGames: Array<{
     gameType: GameType;
     username: string;
+    currency: string;
     payout: string;
     multiplier: number;
     createdAt: string;
@@ -230,6 +421,7 @@ export interface LiveActivity {
   activeUsers: number;
   hourlyStats: Array<{
     gameType: GameType;
+    currency: string;
     gamesPlayed: number;
     totalVolume: string;
     totalPayout: string;
@@ -245,6 +437,8 @@ export interface SocketEvents {
   
   // User events
   userCount: (data: { count: number; timestamp: string }) => void;
+  balanceUpdate: (data: { currency: string; balance: string; change: string; reason: string }) => void;
+  paymentUpdate: (data: { payment: Payment }) => void;
   
   // Chat events
   chatMessage: (message: {
@@ -261,8 +455,11 @@ export interface SocketEvents {
   
   // Plinko events
   plinkoResult: (result: PlinkoResult) => void;
+  plinkoBatchResult: (result: PlinkoBatchResult) => void;
   plinkoPublicResult: (result: {
     username: string;
+    ballCount?: number;
+    currency: string;
     multiplier: number;
     payout: number;
   }) => void;
@@ -272,18 +469,29 @@ export interface SocketEvents {
   minesUpdate: (update: any) => void;
   
   // Crash events
+  crashPhase: (data: CrashPhaseUpdate) => void;
   crashRoundStarted: (data: {
     roundId: string;
+    gameNumber: number;
     startTime: number;
+    players: CrashPlayer[];
   }) => void;
   crashMultiplierUpdate: (data: {
     roundId: string;
     multiplier: number;
+    elapsed: number;
+  }) => void;
+  crashPlayers: (data: {
+    roundId: string;
+    players: CrashPlayer[];
   }) => void;
   crashRoundEnded: (data: {
     roundId: string;
+    gameNumber: number;
     crashPoint: number;
-    winners: any[];
+    hash: string;
+    houseEdge: number;
+    players: CrashPlayer[];
   }) => void;
 }
 
@@ -343,19 +551,99 @@ export interface ApiError {
 
 // Game configuration types
 export interface GameSettings {
-  id: string;
   gameType: GameType;
-  settings: {
-    houseEdge: number;
-    minBet: number;
-    maxBet: number;
-    [key: string]: any;
-  };
+  houseEdge: number;
+  minBet: number;
+  maxBet: number;
   isActive: boolean;
-  createdAt: string;
+}
+
+// Admin types
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+export interface AdminWallet {
+  id: string;
+  currency: string;
+  balance: string;
+  // Only included when a single user is fetched
+  ledgerBalance?: string;
+}
+
+export interface AdminUser extends Omit<User, 'wallets'> {
+  wallets: AdminWallet[];
   updatedAt: string;
 }
 
+export interface AdminUserStats {
+  currency: string;
+  totalGames: number;
+  totalWagered: string;
+  totalPayout: string;
+  netResult: string;
+}
+
+export interface LedgerSummary {
+  accounts: Array<{
+    key: string;
+    type: 'HOUSE_BANKROLL' | 'BONUS_POOL' | 'PAYMENT_CLEARING';
+    currency: string;
+    balance: string;
+  }>;
+  trialBalances: Array<{
+    currency: string;
+    balance: string;
+  }>;
+  openDiscrepancies: number;
+}
+
+export interface LedgerDiscrepancy {
+  id: string;
+  currency: string;
+  user: { id: string; username: string };
+  cachedBalance: string;
+  ledgerBalance: string;
+  difference: string;
+  detectedAt: string;
+  checkedAt: string;
+  resolvedAt: string | null;
+}
+
+export interface AdminCrashRound {
+  id: string;
+  gameNumber: number;
+  crashPoint: number | null;
+  houseEdge: number;
+  playerCount: number;
+  totals: Array<{
+    currency: string;
+    totalWagered: string;
+    totalPayout: string;
+    houseProfit: string;
+  }>;
+  isAborted: boolean;
+  createdAt: string;
+  startedAt: string | null;
+  endedAt: string | null;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  action: string;
+  actor: { id: string; username: string } | null;
+  targetUser: { id: string; username: string } | null;
+  entity: string | null;
+  before: any;
+  after: any;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
 // Session types
 export interface Session {
   id: string;